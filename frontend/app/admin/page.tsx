@@ -0,0 +1,462 @@
+'use client';
+
+import { useEffect, useState, type ReactNode } from 'react';
+import Link from 'next/link';
+import { useAccount, useChainId, usePublicClient, useWalletClient } from 'wagmi';
+import { isAddress, parseUnits } from 'viem';
+import { AlertCircle, RefreshCw, ScrollText, Shield } from 'lucide-react';
+import clsx from 'clsx';
+import AdminActionCard from '../../components/AdminActionCard';
+import { findContractAddress, getChain, getChainKey, getExplorerTxUrl } from '../../lib/chains';
+import {
+  ADMIN_ACTION_ROLES,
+  executeAdminAction,
+  getAdminAuditLog,
+  getAdminRoles,
+  getSettlementAdminState,
+  simulateAdminAction,
+  watchAdminEvents,
+  type AdminAction,
+  type AdminAuditEntry,
+  type AdminFunctionName,
+  type AdminRoles,
+  type SettlementAdminState
+} from '../../lib/services/settlementAdmin';
+import { decodeBridgeError } from '../../lib/errors';
+
+type Draft = { action: AdminAction | null; error: string | null };
+
+const NO_ROLES: AdminRoles = { DEFAULT_ADMIN_ROLE: false, EMERGENCY_ROLE: false };
+
+const inputClassName = "w-full px-3 py-2 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50";
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <label className="block">
+      <span className="block text-xs font-medium text-gray-700 mb-1">{label}</span>
+      {children}
+    </label>
+  );
+}
+
+function Toggle({ label, checked, onChange }: { label: string; checked: boolean; onChange: (checked: boolean) => void }) {
+  return (
+    <label className="flex items-center text-sm text-gray-700">
+      <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} className="mr-2" />
+      {label}
+    </label>
+  );
+}
+
+function getActionKey(draft: Draft): string | null {
+  return draft.action ? `${draft.action.functionName}:${draft.action.args.map(String).join('|')}` : null;
+}
+
+function parseAddress(value: string, label: string): `0x${string}` | string {
+  if (!value) return `Enter the ${label}.`;
+  return isAddress(value) ? value : `The ${label} is not a valid address.`;
+}
+
+function parseAmount(value: string, decimals: number, label: string): bigint | string {
+  if (!value) return `Enter the ${label}.`;
+  try {
+    return parseUnits(value, decimals);
+  } catch {
+    return `The ${label} must be a number.`;
+  }
+}
+
+function invalid(error: string): Draft {
+  return { action: null, error };
+}
+
+export default function AdminConsolePage() {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  const { data: walletClient } = useWalletClient();
+
+  const [loadedRoles, setLoadedRoles] = useState<{ key: string; roles: AdminRoles } | null>(null);
+  const [adminState, setAdminState] = useState<SettlementAdminState | null>(null);
+  const [auditLog, setAuditLog] = useState<AdminAuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  // Form inputs
+  const [registerAdapter, setRegisterAdapter] = useState('');
+  const [registerEnabled, setRegisterEnabled] = useState(true);
+  const [statusAdapter, setStatusAdapter] = useState('');
+  const [statusEnabled, setStatusEnabled] = useState(false);
+  const [statusReason, setStatusReason] = useState('');
+  const [pauseReason, setPauseReason] = useState('');
+  const [cacheTtl, setCacheTtl] = useState('');
+  const [configChainId, setConfigChainId] = useState('');
+  const [configName, setConfigName] = useState('');
+  const [configSupported, setConfigSupported] = useState(true);
+  const [configMaxGasPrice, setConfigMaxGasPrice] = useState('');
+  const [limitUser, setLimitUser] = useState('');
+  const [limitAmount, setLimitAmount] = useState('');
+  const [blacklistAccount, setBlacklistAccount] = useState('');
+  const [blacklisted, setBlacklisted] = useState(true);
+
+  const isSupportedChain = !!getChainKey(chainId);
+  const hasSettlementSwitch = isSupportedChain && !!findContractAddress("SettlementSwitch", chainId);
+  const rolesKey = `${chainId}:${address}`;
+  const roles = address && loadedRoles?.key === rolesKey ? loadedRoles.roles : NO_ROLES;
+
+  // Roles of the connected wallet
+  useEffect(() => {
+    if (!publicClient || !address || !hasSettlementSwitch) return;
+
+    let cancelled = false;
+    getAdminRoles(publicClient, chainId, address)
+      .then(result => {
+        if (!cancelled) setLoadedRoles({ key: `${chainId}:${address}`, roles: result });
+      })
+      .catch(err => {
+        if (!cancelled) setError(decodeBridgeError(err).message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [publicClient, address, chainId, hasSettlementSwitch]);
+
+  // Contract state and audit log; reloaded on refresh and on every admin event
+  useEffect(() => {
+    if (!publicClient || !hasSettlementSwitch) return;
+
+    let cancelled = false;
+    Promise.all([getSettlementAdminState(publicClient, chainId), getAdminAuditLog(publicClient, chainId)])
+      .then(([state, log]) => {
+        if (cancelled) return;
+        setAdminState(state);
+        setAuditLog(log);
+        setError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(decodeBridgeError(err).message);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [publicClient, chainId, hasSettlementSwitch, refreshKey]);
+
+  useEffect(() => {
+    if (!publicClient || !hasSettlementSwitch) return;
+    return watchAdminEvents(publicClient, chainId, () => setRefreshKey(key => key + 1));
+  }, [publicClient, chainId, hasSettlementSwitch]);
+
+  const handleRefresh = () => {
+    setIsLoading(true);
+    setRefreshKey(key => key + 1);
+  };
+
+  // Build each form's typed call, or the reason it cannot be sent yet
+  const registerDraft = ((): Draft => {
+    const adapter = parseAddress(registerAdapter, 'adapter address');
+    if (!isAddress(adapter)) return invalid(adapter);
+    return { action: { functionName: 'registerBridgeAdapter', args: [adapter, registerEnabled] }, error: null };
+  })();
+
+  const statusDraft = ((): Draft => {
+    const adapter = parseAddress(statusAdapter, 'adapter address');
+    if (!isAddress(adapter)) return invalid(adapter);
+    if (!statusEnabled && !statusReason.trim()) return invalid('Give a reason for disabling the adapter.');
+    return { action: { functionName: 'setBridgeAdapterStatus', args: [adapter, statusEnabled, statusReason.trim()] }, error: null };
+  })();
+
+  const pauseDraft = ((): Draft => {
+    if (!pauseReason.trim()) return invalid('Give a reason for the pause.');
+    return { action: { functionName: 'emergencyPause', args: [pauseReason.trim()] }, error: null };
+  })();
+
+  const unpauseDraft: Draft = { action: { functionName: 'emergencyUnpause', args: [] }, error: null };
+
+  const ttlDraft = ((): Draft => {
+    if (!/^\d+$/.test(cacheTtl)) return invalid(cacheTtl ? 'The TTL must be a whole number of seconds.' : 'Enter the TTL in seconds.');
+    return { action: { functionName: 'updateRouteCacheTtl', args: [BigInt(cacheTtl)] }, error: null };
+  })();
+
+  const chainConfigDraft = ((): Draft => {
+    if (!/^\d+$/.test(configChainId) || configChainId === '0') return invalid('Enter a chain ID.');
+    if (!configName.trim()) return invalid('Enter the chain name.');
+    const maxGasPrice = parseAmount(configMaxGasPrice, 9, 'max gas price');
+    if (typeof maxGasPrice === 'string') return invalid(maxGasPrice);
+    return {
+      action: { functionName: 'updateChainConfig', args: [BigInt(configChainId), configName.trim(), configSupported, maxGasPrice] },
+      error: null
+    };
+  })();
+
+  const limitDraft = ((): Draft => {
+    const user = parseAddress(limitUser, 'user address');
+    if (!isAddress(user)) return invalid(user);
+    // Limits are stored as USD value with 18 decimals
+    const dailyLimit = parseAmount(limitAmount, 18, 'daily limit');
+    if (typeof dailyLimit === 'string') return invalid(dailyLimit);
+    return { action: { functionName: 'setUserDailyLimit', args: [user, dailyLimit] }, error: null };
+  })();
+
+  const blacklistDraft = ((): Draft => {
+    const account = parseAddress(blacklistAccount, 'account address');
+    if (!isAddress(account)) return invalid(account);
+    return { action: { functionName: 'setBlacklistStatus', args: [account, blacklisted] }, error: null };
+  })();
+
+  const cardProps = (functionName: AdminFunctionName, draft: Draft, touched: boolean) => {
+    const role = ADMIN_ACTION_ROLES[functionName];
+    return {
+      role,
+      hasRole: roles[role] && !!walletClient,
+      chainId,
+      actionKey: getActionKey(draft),
+      validationError: touched ? draft.error : null,
+      simulate: async () => {
+        if (!publicClient || !address || !draft.action) throw new Error('Connect a wallet first.');
+        return simulateAdminAction(publicClient, chainId, address, draft.action);
+      },
+      send: async () => {
+        if (!walletClient || !publicClient || !draft.action) throw new Error('Connect a wallet first.');
+        const { hash, events } = await executeAdminAction(walletClient, publicClient, chainId, draft.action);
+        return { hash, events: events.map(event => event.eventName) };
+      },
+      onSent: () => setRefreshKey(key => key + 1)
+    };
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-6 lg:py-8">
+        <div className="text-center mb-6 sm:mb-8">
+          <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold text-gray-900 mb-2 px-2">
+            Admin Console
+          </h1>
+          <p className="text-sm sm:text-base text-gray-600 max-w-xs sm:max-w-md lg:max-w-2xl mx-auto px-4">
+            Operator actions for the Settlement Switch. Every action is simulated before it can be sent.
+          </p>
+          <Link href="/admin/stablecoin-switch" className="inline-block mt-2 text-sm text-purple-600 hover:text-purple-700 underline">
+            StablecoinSwitch settings
+          </Link>
+          <Link href="/admin/treasury" className="inline-block mt-2 ml-4 text-sm text-purple-600 hover:text-purple-700 underline">
+            Fee treasury
+          </Link>
+        </div>
+
+        <div className="max-w-4xl mx-auto space-y-4 sm:space-y-6">
+          <div className="bg-white rounded-xl sm:rounded-2xl shadow-lg sm:shadow-xl border border-gray-100 p-4 sm:p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="flex items-center font-semibold text-gray-900 text-base sm:text-lg">
+                <Shield className="h-4 w-4 sm:h-5 sm:w-5 text-purple-500 mr-2" />
+                {isSupportedChain ? getChain(chainId).name : 'Unsupported network'}
+              </h3>
+              <button
+                onClick={handleRefresh}
+                disabled={isLoading || !hasSettlementSwitch}
+                className="text-purple-600 hover:text-purple-700 disabled:opacity-40"
+                aria-label="Refresh admin state"
+              >
+                <RefreshCw className={clsx("h-4 w-4", isLoading && hasSettlementSwitch && "animate-spin")} />
+              </button>
+            </div>
+
+            {!hasSettlementSwitch ? (
+              <p className="text-sm text-gray-500">The Settlement Switch is not deployed on this network.</p>
+            ) : (
+              <>
+                <div className="flex flex-wrap gap-2">
+                  {!address ? (
+                    <span className="text-sm text-gray-500">Connect a wallet to see its roles.</span>
+                  ) : (
+                    (Object.keys(roles) as (keyof AdminRoles)[]).map(role => (
+                      <span
+                        key={role}
+                        className={clsx(
+                          "px-2 py-1 text-xs rounded-full",
+                          roles[role] ? "bg-green-100 text-green-700" : "bg-gray-100 text-gray-500"
+                        )}
+                      >
+                        {role}: {roles[role] ? 'granted' : 'not granted'}
+                      </span>
+                    ))
+                  )}
+                </div>
+
+                {adminState && (
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 sm:gap-4 text-xs sm:text-sm">
+                    <div>
+                      <span className="text-gray-500">Status:</span>
+                      <div className={clsx("font-medium", adminState.paused ? "text-red-600" : "text-green-600")}>
+                        {adminState.paused ? 'Paused' : 'Active'}
+                      </div>
+                    </div>
+                    <div>
+                      <span className="text-gray-500">Route cache TTL:</span>
+                      <div className="font-medium">{adminState.routeCacheTtlSeconds}s</div>
+                    </div>
+                    <div>
+                      <span className="text-gray-500">Supported chains:</span>
+                      <div className="font-medium">{adminState.supportedChainIds.join(', ') || 'None'}</div>
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+
+            {error && (
+              <div className="flex items-center p-3 bg-red-50 border border-red-200 rounded-lg">
+                <AlertCircle className="h-4 w-4 text-red-500 mr-2 flex-shrink-0" />
+                <span className="text-red-700 text-xs sm:text-sm">{error}</span>
+              </div>
+            )}
+          </div>
+
+          {hasSettlementSwitch && (
+            <>
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                <AdminActionCard
+                  title="Register bridge adapter"
+                  description="Registers the adapter with the bridge registry for every supported chain."
+                  {...cardProps('registerBridgeAdapter', registerDraft, registerAdapter !== '')}
+                >
+                  <Field label="Adapter address">
+                    <input value={registerAdapter} onChange={(e) => setRegisterAdapter(e.target.value)} placeholder="0x..." className={inputClassName} />
+                  </Field>
+                  <Toggle label="Enable immediately" checked={registerEnabled} onChange={setRegisterEnabled} />
+                </AdminActionCard>
+
+                <AdminActionCard
+                  title="Set adapter status"
+                  description="Enables or disables a registered adapter in the bridge registry."
+                  {...cardProps('setBridgeAdapterStatus', statusDraft, statusAdapter !== '')}
+                >
+                  <Field label="Adapter address">
+                    <input value={statusAdapter} onChange={(e) => setStatusAdapter(e.target.value)} placeholder="0x..." className={inputClassName} />
+                  </Field>
+                  <Toggle label="Enabled" checked={statusEnabled} onChange={setStatusEnabled} />
+                  <Field label="Reason">
+                    <input value={statusReason} onChange={(e) => setStatusReason(e.target.value)} className={inputClassName} />
+                  </Field>
+                </AdminActionCard>
+
+                <AdminActionCard
+                  title="Emergency pause"
+                  description="Stops all transfers until an admin unpauses."
+                  tone="danger"
+                  {...cardProps('emergencyPause', pauseDraft, pauseReason !== '')}
+                >
+                  <Field label="Reason">
+                    <input value={pauseReason} onChange={(e) => setPauseReason(e.target.value)} className={inputClassName} />
+                  </Field>
+                </AdminActionCard>
+
+                <AdminActionCard
+                  title="Unpause"
+                  description="Resumes transfers after an emergency pause. Recorded in the audit log as Unpaused."
+                  {...cardProps('emergencyUnpause', unpauseDraft, false)}
+                />
+
+                <AdminActionCard
+                  title="Route cache TTL"
+                  description="How long cached routes stay valid. Not audited: the contract emits no event for this change, so it never appears in the audit log."
+                  {...cardProps('updateRouteCacheTtl', ttlDraft, cacheTtl !== '')}
+                >
+                  <Field label={`TTL in seconds${adminState ? ` (currently ${adminState.routeCacheTtlSeconds})` : ''}`}>
+                    <input value={cacheTtl} onChange={(e) => setCacheTtl(e.target.value)} inputMode="numeric" className={inputClassName} />
+                  </Field>
+                </AdminActionCard>
+
+                <AdminActionCard
+                  title="Chain config"
+                  description="Adds, updates or removes a supported chain."
+                  {...cardProps('updateChainConfig', chainConfigDraft, configChainId !== '' || configName !== '' || configMaxGasPrice !== '')}
+                >
+                  <div className="grid grid-cols-2 gap-2">
+                    <Field label="Chain ID">
+                      <input value={configChainId} onChange={(e) => setConfigChainId(e.target.value)} inputMode="numeric" className={inputClassName} />
+                    </Field>
+                    <Field label="Name">
+                      <input value={configName} onChange={(e) => setConfigName(e.target.value)} className={inputClassName} />
+                    </Field>
+                  </div>
+                  <Field label="Max gas price (gwei)">
+                    <input value={configMaxGasPrice} onChange={(e) => setConfigMaxGasPrice(e.target.value)} inputMode="decimal" className={inputClassName} />
+                  </Field>
+                  <Toggle label="Supported" checked={configSupported} onChange={setConfigSupported} />
+                </AdminActionCard>
+
+                <AdminActionCard
+                  title="User daily limit"
+                  description="Caps how much USD value a user can transfer per day."
+                  {...cardProps('setUserDailyLimit', limitDraft, limitUser !== '' || limitAmount !== '')}
+                >
+                  <Field label="User address">
+                    <input value={limitUser} onChange={(e) => setLimitUser(e.target.value)} placeholder="0x..." className={inputClassName} />
+                  </Field>
+                  <Field label="Daily limit (USD)">
+                    <input value={limitAmount} onChange={(e) => setLimitAmount(e.target.value)} inputMode="decimal" className={inputClassName} />
+                  </Field>
+                </AdminActionCard>
+
+                <AdminActionCard
+                  title="Blacklist"
+                  description="Blocks or unblocks an address from sending transfers."
+                  tone="danger"
+                  {...cardProps('setBlacklistStatus', blacklistDraft, blacklistAccount !== '')}
+                >
+                  <Field label="Account address">
+                    <input value={blacklistAccount} onChange={(e) => setBlacklistAccount(e.target.value)} placeholder="0x..." className={inputClassName} />
+                  </Field>
+                  <Toggle label="Blacklisted" checked={blacklisted} onChange={setBlacklisted} />
+                </AdminActionCard>
+              </div>
+
+              {/* Audit Log */}
+              <div className="bg-white rounded-xl sm:rounded-2xl shadow-lg sm:shadow-xl border border-gray-100 p-4 sm:p-6 space-y-3">
+                <h3 className="flex items-center font-semibold text-gray-900 text-base sm:text-lg">
+                  <ScrollText className="h-4 w-4 sm:h-5 sm:w-5 text-purple-500 mr-2" />
+                  Audit log
+                </h3>
+                <p className="text-xs sm:text-sm text-gray-500">
+                  Built from admin events. Route cache TTL changes emit no event and are not audited; unpausing shows as Unpaused.
+                </p>
+                {auditLog.length === 0 && !isLoading ? (
+                  <p className="text-sm text-gray-500">No admin events in the last 10,000 blocks.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {auditLog.map(entry => (
+                      <div key={`${entry.txHash}:${entry.logIndex}`} className="p-3 bg-gray-50 rounded-lg text-xs sm:text-sm">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium text-gray-900">{entry.eventName}</span>
+                          <a
+                            href={getExplorerTxUrl(chainId, entry.txHash)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-xs text-blue-600 underline flex-shrink-0"
+                          >
+                            Block {entry.blockNumber.toString()}
+                          </a>
+                        </div>
+                        <div className="text-xs text-gray-600 break-all">
+                          {Object.entries(entry.args).map(([key, value]) => `${key}: ${value}`).join(' · ')}
+                        </div>
+                        {entry.timestamp !== null && (
+                          <div className="text-xs text-gray-500">{new Date(entry.timestamp).toLocaleString()}</div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,472 @@
+'use client';
+
+import { useEffect, useState, type ReactNode } from 'react';
+import { useAccount, useChainId, usePublicClient, useWalletClient } from 'wagmi';
+import { isAddress } from 'viem';
+import { AlertCircle, AlertTriangle, CheckCircle, RefreshCw, Settings, Wrench } from 'lucide-react';
+import clsx from 'clsx';
+import AdminActionCard from '../../../components/AdminActionCard';
+import { findContractAddress, getChain, getChainKey } from '../../../lib/chains';
+import {
+  executeSwitchOwnerAction,
+  getSwitchAdminState,
+  simulateSwitchOwnerAction,
+  type SwitchAdminState
+} from '../../../lib/services/switchAdmin';
+import type { SwitchOwnerAction } from '../../../lib/services/switch';
+import { decodeBridgeError } from '../../../lib/errors';
+
+type Draft = { action: SwitchOwnerAction | null; error: string | null };
+
+// Where a remediation needs owner input instead of a single call
+type Remediation = {
+  key: string;
+  message: string;
+  fix: SwitchOwnerAction | null;
+  configure?: () => void;
+};
+
+const PRICE_FEED_MESSAGE = "Price feeds unavailable or stale. Check ETH/USD and USDC/USD Chainlink feeds configuration.";
+
+const inputClassName = "w-full px-3 py-2 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50";
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <label className="block">
+      <span className="block text-xs font-medium text-gray-700 mb-1">{label}</span>
+      {children}
+    </label>
+  );
+}
+
+function getActionKey(draft: Draft): string | null {
+  return draft.action ? `${draft.action.functionName}:${draft.action.args.map(String).join('|')}` : null;
+}
+
+function invalid(error: string): Draft {
+  return { action: null, error };
+}
+
+function shortAddress(value: string): string {
+  return `${value.slice(0, 6)}...${value.slice(-4)}`;
+}
+
+function formatTimestamp(ms: number | null): string {
+  return ms === null ? 'Never' : new Date(ms).toLocaleString();
+}
+
+export default function StablecoinSwitchAdminPage() {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  const { data: walletClient } = useWalletClient();
+
+  const [switchState, setSwitchState] = useState<SwitchAdminState | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [pendingFix, setPendingFix] = useState<string | null>(null);
+  const [fixError, setFixError] = useState<{ key: string; message: string } | null>(null);
+
+  // Form inputs
+  const [tokenAddress, setTokenAddress] = useState('');
+  const [tokenSupported, setTokenSupported] = useState(true);
+  const [supportChainId, setSupportChainId] = useState('');
+  const [chainSupported, setChainSupported] = useState(true);
+  const [adapterChainId, setAdapterChainId] = useState('');
+  const [adapterAddress, setAdapterAddress] = useState('');
+  const [adapterName, setAdapterName] = useState('');
+  const [adapterGasCost, setAdapterGasCost] = useState('');
+  const [staleness, setStaleness] = useState('');
+
+  const isSupportedChain = !!getChainKey(chainId);
+  const hasSwitch = isSupportedChain && !!findContractAddress("StablecoinSwitch", chainId);
+  const isOwner = !!address && !!switchState && switchState.owner.toLowerCase() === address.toLowerCase();
+  const canSend = isOwner && !!walletClient;
+
+  useEffect(() => {
+    if (!publicClient || !hasSwitch) return;
+
+    let cancelled = false;
+    getSwitchAdminState(publicClient, chainId)
+      .then(result => {
+        if (cancelled) return;
+        setSwitchState(result);
+        setError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(decodeBridgeError(err).message);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [publicClient, chainId, hasSwitch, refreshKey]);
+
+  const handleRefresh = () => {
+    setIsLoading(true);
+    setRefreshKey(key => key + 1);
+  };
+
+  const simulate = (action: SwitchOwnerAction | null) => async () => {
+    if (!publicClient || !address || !action) throw new Error('Connect the owner wallet first.');
+    return simulateSwitchOwnerAction(publicClient, chainId, address, action);
+  };
+
+  const send = (action: SwitchOwnerAction | null) => async () => {
+    if (!walletClient || !publicClient || !action) throw new Error('Connect the owner wallet first.');
+    return { hash: await executeSwitchOwnerAction(walletClient, publicClient, chainId, action) };
+  };
+
+  // One-click fix: simulate, then send straight away if the call would succeed
+  const handleFix = async (key: string, action: SwitchOwnerAction) => {
+    if (!publicClient || !walletClient || !address) return;
+    setPendingFix(key);
+    setFixError(null);
+    try {
+      const simulation = await simulateSwitchOwnerAction(publicClient, chainId, address, action);
+      if (simulation.error) {
+        setFixError({ key, message: simulation.error.message });
+        return;
+      }
+      await executeSwitchOwnerAction(walletClient, publicClient, chainId, action);
+      setRefreshKey(key => key + 1);
+    } catch (err) {
+      setFixError({ key, message: decodeBridgeError(err).message });
+    } finally {
+      setPendingFix(null);
+    }
+  };
+
+  const remediations: Remediation[] = [];
+  if (switchState) {
+    const seen = new Set<string>();
+    switchState.destinations.forEach(destination => {
+      destination.issues.forEach(issue => {
+        // Source-chain USDC issues repeat for every destination
+        if (seen.has(issue.message)) return;
+        seen.add(issue.message);
+        remediations.push({
+          key: issue.message,
+          message: issue.message,
+          fix: issue.fix,
+          configure: issue.fix
+            ? undefined
+            : () => {
+                setAdapterChainId(String(destination.chainId));
+                setAdapterName(destination.name);
+              }
+        });
+      });
+    });
+    if (!switchState.feeds.ethOk || !switchState.feeds.usdcOk) {
+      remediations.push({
+        key: 'price-feeds',
+        message: PRICE_FEED_MESSAGE,
+        fix: null,
+        configure: () => setStaleness(String(switchState.feeds.maxPriceStalenessSeconds))
+      });
+    }
+  }
+
+  // Build each form's typed call, or the reason it cannot be sent yet
+  const tokenDraft = ((): Draft => {
+    if (!tokenAddress) return invalid('Enter the token address.');
+    if (!isAddress(tokenAddress)) return invalid('The token address is not a valid address.');
+    return { action: { functionName: 'setTokenSupport', args: [tokenAddress, tokenSupported] }, error: null };
+  })();
+
+  const chainDraft = ((): Draft => {
+    if (!/^\d+$/.test(supportChainId) || supportChainId === '0') return invalid('Enter a chain ID.');
+    return { action: { functionName: 'setChainSupport', args: [BigInt(supportChainId), chainSupported] }, error: null };
+  })();
+
+  const adapterDraft = ((): Draft => {
+    if (!/^\d+$/.test(adapterChainId) || adapterChainId === '0') return invalid('Enter the destination chain ID.');
+    if (!adapterAddress) return invalid('Enter the adapter address.');
+    if (!isAddress(adapterAddress)) return invalid('The adapter address is not a valid address.');
+    if (!adapterName.trim()) return invalid('Enter the bridge name.');
+    if (!/^\d+$/.test(adapterGasCost)) return invalid('Enter the gas cost as a whole number of gas units.');
+    return {
+      action: {
+        functionName: 'addBridgeAdapter',
+        args: [BigInt(adapterChainId), adapterAddress, adapterName.trim(), BigInt(adapterGasCost)]
+      },
+      error: null
+    };
+  })();
+
+  const stalenessDraft = ((): Draft => {
+    if (!/^\d+$/.test(staleness) || staleness === '0') return invalid('Enter the maximum price age in seconds.');
+    return { action: { functionName: 'setMaxPriceStalenessSeconds', args: [BigInt(staleness)] }, error: null };
+  })();
+
+  const cardProps = (draft: Draft, touched: boolean) => ({
+    role: 'Owner',
+    hasRole: canSend,
+    chainId,
+    actionKey: getActionKey(draft),
+    validationError: touched ? draft.error : null,
+    simulate: simulate(draft.action),
+    send: send(draft.action),
+    onSent: () => setRefreshKey(key => key + 1)
+  });
+
+  const fixButton = (key: string, action: SwitchOwnerAction, label: string) => (
+    <button
+      onClick={() => handleFix(key, action)}
+      disabled={!canSend || pendingFix !== null}
+      className="px-2 py-1 text-xs font-medium text-purple-700 bg-purple-100 hover:bg-purple-200 rounded-lg disabled:opacity-40 flex-shrink-0"
+    >
+      {pendingFix === key ? 'Sending...' : label}
+    </button>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-6 lg:py-8">
+        <div className="text-center mb-6 sm:mb-8">
+          <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold text-gray-900 mb-2 px-2">
+            StablecoinSwitch Settings
+          </h1>
+          <p className="text-sm sm:text-base text-gray-600 max-w-xs sm:max-w-md lg:max-w-2xl mx-auto px-4">
+            Token and chain support, bridge adapters and price feed settings. Changes require the contract owner.
+          </p>
+        </div>
+
+        <div className="max-w-4xl mx-auto space-y-4 sm:space-y-6">
+          <div className="bg-white rounded-xl sm:rounded-2xl shadow-lg sm:shadow-xl border border-gray-100 p-4 sm:p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="flex items-center font-semibold text-gray-900 text-base sm:text-lg">
+                <Settings className="h-4 w-4 sm:h-5 sm:w-5 text-purple-500 mr-2" />
+                {isSupportedChain ? getChain(chainId).name : 'Unsupported network'}
+              </h3>
+              <button
+                onClick={handleRefresh}
+                disabled={isLoading || !hasSwitch}
+                className="text-purple-600 hover:text-purple-700 disabled:opacity-40"
+                aria-label="Refresh StablecoinSwitch settings"
+              >
+                <RefreshCw className={clsx("h-4 w-4", isLoading && hasSwitch && "animate-spin")} />
+              </button>
+            </div>
+
+            {!hasSwitch ? (
+              <p className="text-sm text-gray-500">StablecoinSwitch is not deployed on this network.</p>
+            ) : switchState && (
+              <div className="text-xs sm:text-sm">
+                <span className="text-gray-500">Owner: </span>
+                <span className="font-medium break-all">{switchState.owner}</span>
+                <span
+                  className={clsx(
+                    "ml-2 px-2 py-1 text-xs rounded-full",
+                    isOwner ? "bg-green-100 text-green-700" : "bg-gray-100 text-gray-500"
+                  )}
+                >
+                  {isOwner ? 'Connected as owner' : 'Read-only'}
+                </span>
+              </div>
+            )}
+
+            {error && (
+              <div className="flex items-center p-3 bg-red-50 border border-red-200 rounded-lg">
+                <AlertCircle className="h-4 w-4 text-red-500 mr-2 flex-shrink-0" />
+                <span className="text-red-700 text-xs sm:text-sm">{error}</span>
+              </div>
+            )}
+
+            {/* Remediations */}
+            {switchState && (
+              remediations.length === 0 ? (
+                <div className="flex items-center text-xs sm:text-sm text-green-700">
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                  Every destination is fully configured.
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {remediations.map(remediation => (
+                    <div key={remediation.key} className="p-2 bg-yellow-50 border border-yellow-200 rounded-lg text-xs sm:text-sm space-y-1">
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="flex items-start">
+                          <AlertTriangle className="h-4 w-4 text-yellow-600 mr-2 mt-0.5 flex-shrink-0" />
+                          <span className="text-yellow-800 break-all">{remediation.message}</span>
+                        </div>
+                        {remediation.fix ? (
+                          fixButton(remediation.key, remediation.fix, 'Fix')
+                        ) : remediation.configure && (
+                          <button
+                            onClick={remediation.configure}
+                            disabled={!canSend}
+                            className="px-2 py-1 text-xs font-medium text-purple-700 bg-purple-100 hover:bg-purple-200 rounded-lg disabled:opacity-40 flex-shrink-0"
+                          >
+                            <Wrench className="h-3 w-3 inline mr-1" />
+                            Configure
+                          </button>
+                        )}
+                      </div>
+                      {fixError?.key === remediation.key && <p className="text-red-600">{fixError.message}</p>}
+                    </div>
+                  ))}
+                </div>
+              )
+            )}
+          </div>
+
+          {switchState && (
+            <>
+              {/* Token Support */}
+              <div className="bg-white rounded-xl sm:rounded-2xl shadow-lg sm:shadow-xl border border-gray-100 p-4 sm:p-6 space-y-3">
+                <h3 className="font-semibold text-gray-900 text-base sm:text-lg">Token support</h3>
+                {switchState.tokens.map(token => {
+                  const key = `token:${token.address}`;
+                  return (
+                    <div key={token.address} className="p-3 bg-gray-50 rounded-lg text-xs sm:text-sm space-y-1">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="min-w-0">
+                          <div className="font-medium text-gray-900">{token.label}</div>
+                          <div className="text-xs text-gray-500 truncate">{token.address}</div>
+                        </div>
+                        <div className="flex items-center gap-2 flex-shrink-0">
+                          <span className={token.supported ? "text-green-600" : "text-gray-500"}>
+                            {token.supported ? 'Enabled' : 'Disabled'}
+                          </span>
+                          {fixButton(
+                            key,
+                            { functionName: 'setTokenSupport', args: [token.address, !token.supported] },
+                            token.supported ? 'Disable' : 'Enable'
+                          )}
+                        </div>
+                      </div>
+                      {fixError?.key === key && <p className="text-red-600">{fixError.message}</p>}
+                    </div>
+                  );
+                })}
+              </div>
+
+              {/* Destinations */}
+              <div className="bg-white rounded-xl sm:rounded-2xl shadow-lg sm:shadow-xl border border-gray-100 p-4 sm:p-6 space-y-3">
+                <h3 className="font-semibold text-gray-900 text-base sm:text-lg">Destinations</h3>
+                {switchState.destinations.map(destination => {
+                  const key = `chain:${destination.chainId}`;
+                  return (
+                    <div key={destination.chainId} className="p-3 bg-gray-50 rounded-lg text-xs sm:text-sm space-y-1">
+                      <div className="flex items-center justify-between gap-2">
+                        <div>
+                          <div className="font-medium text-gray-900">{destination.name}</div>
+                          <div className="text-xs text-gray-500">Chain ID {destination.chainId}</div>
+                        </div>
+                        <div className="flex items-center gap-2 flex-shrink-0">
+                          <span className={destination.supported ? "text-green-600" : "text-gray-500"}>
+                            {destination.supported ? 'Enabled' : 'Disabled'}
+                          </span>
+                          {fixButton(
+                            key,
+                            { functionName: 'setChainSupport', args: [BigInt(destination.chainId), !destination.supported] },
+                            destination.supported ? 'Disable' : 'Enable'
+                          )}
+                        </div>
+                      </div>
+                      <div className="text-xs text-gray-600">
+                        Adapters: {destination.adapters.length > 0 ? destination.adapters.map(shortAddress).join(', ') : 'None'}
+                      </div>
+                      {fixError?.key === key && <p className="text-red-600">{fixError.message}</p>}
+                    </div>
+                  );
+                })}
+              </div>
+
+              {/* Price Feeds */}
+              <div className="bg-white rounded-xl sm:rounded-2xl shadow-lg sm:shadow-xl border border-gray-100 p-4 sm:p-6 space-y-3">
+                <h3 className="font-semibold text-gray-900 text-base sm:text-lg">Price feeds</h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 sm:gap-4 text-xs sm:text-sm">
+                  {[
+                    { label: 'ETH/USD', feed: switchState.feeds.ethUsdFeed, ok: switchState.feeds.ethOk, updatedAt: switchState.feeds.ethUpdatedAt },
+                    { label: 'USDC/USD', feed: switchState.feeds.usdcUsdFeed, ok: switchState.feeds.usdcOk, updatedAt: switchState.feeds.usdcUpdatedAt }
+                  ].map(feed => (
+                    <div key={feed.label} className="p-3 bg-gray-50 rounded-lg">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium text-gray-900">{feed.label}</span>
+                        <span className={feed.ok ? "text-green-600" : "text-red-600"}>{feed.ok ? 'Healthy' : 'Stale'}</span>
+                      </div>
+                      <div className="text-xs text-gray-500 truncate">{feed.feed}</div>
+                      <div className="text-xs text-gray-600">Updated {formatTimestamp(feed.updatedAt)}</div>
+                    </div>
+                  ))}
+                </div>
+                <div className="text-xs sm:text-sm">
+                  <span className="text-gray-500">Max price staleness: </span>
+                  <span className="font-medium">{switchState.feeds.maxPriceStalenessSeconds}s</span>
+                </div>
+              </div>
+
+              {/* Owner Forms */}
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                <AdminActionCard
+                  title="Token support"
+                  description="Enables or disables a token for routing."
+                  {...cardProps(tokenDraft, tokenAddress !== '')}
+                >
+                  <Field label="Token address">
+                    <input value={tokenAddress} onChange={(e) => setTokenAddress(e.target.value)} placeholder="0x..." className={inputClassName} />
+                  </Field>
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input type="checkbox" checked={tokenSupported} onChange={(e) => setTokenSupported(e.target.checked)} className="mr-2" />
+                    Supported
+                  </label>
+                </AdminActionCard>
+
+                <AdminActionCard
+                  title="Chain support"
+                  description="Enables or disables a destination chain."
+                  {...cardProps(chainDraft, supportChainId !== '')}
+                >
+                  <Field label="Chain ID">
+                    <input value={supportChainId} onChange={(e) => setSupportChainId(e.target.value)} inputMode="numeric" className={inputClassName} />
+                  </Field>
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input type="checkbox" checked={chainSupported} onChange={(e) => setChainSupported(e.target.checked)} className="mr-2" />
+                    Supported
+                  </label>
+                </AdminActionCard>
+
+                <AdminActionCard
+                  title="Add bridge adapter"
+                  description="Adds an adapter for a destination chain."
+                  {...cardProps(adapterDraft, adapterAddress !== '' || adapterGasCost !== '')}
+                >
+                  <div className="grid grid-cols-2 gap-2">
+                    <Field label="Destination chain ID">
+                      <input value={adapterChainId} onChange={(e) => setAdapterChainId(e.target.value)} inputMode="numeric" className={inputClassName} />
+                    </Field>
+                    <Field label="Bridge name">
+                      <input value={adapterName} onChange={(e) => setAdapterName(e.target.value)} className={inputClassName} />
+                    </Field>
+                  </div>
+                  <Field label="Adapter address">
+                    <input value={adapterAddress} onChange={(e) => setAdapterAddress(e.target.value)} placeholder="0x..." className={inputClassName} />
+                  </Field>
+                  <Field label="Gas cost (gas units)">
+                    <input value={adapterGasCost} onChange={(e) => setAdapterGasCost(e.target.value)} inputMode="numeric" className={inputClassName} />
+                  </Field>
+                </AdminActionCard>
+
+                <AdminActionCard
+                  title="Price staleness"
+                  description="Oldest price feed answer routes will accept."
+                  {...cardProps(stalenessDraft, staleness !== '')}
+                >
+                  <Field label={`Max staleness in seconds (currently ${switchState.feeds.maxPriceStalenessSeconds})`}>
+                    <input value={staleness} onChange={(e) => setStaleness(e.target.value)} inputMode="numeric" className={inputClassName} />
+                  </Field>
+                </AdminActionCard>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,500 @@
+'use client';
+
+import { useEffect, useState, type ReactNode } from 'react';
+import { useAccount, useChainId, usePublicClient, useWalletClient } from 'wagmi';
+import { formatUnits, isAddress, parseUnits } from 'viem';
+import { AlertCircle, Landmark, Lock, PieChart, RefreshCw } from 'lucide-react';
+import clsx from 'clsx';
+import AdminActionCard from '../../../components/AdminActionCard';
+import { findContractAddress, getChain, getChainKey } from '../../../lib/chains';
+import { formatTokenAmount } from '../../../lib/tokens';
+import {
+  FEE_BASIS_POINTS,
+  FEE_TYPES,
+  MAX_CONGESTION_LEVEL,
+  TREASURY_ACTION_ROLES,
+  executeTreasuryAction,
+  getTreasuryRoles,
+  getTreasuryState,
+  simulateTreasuryAction,
+  validateDynamicFeeParams,
+  validateFeeStructure,
+  validateRevenueDistribution,
+  type TreasuryAction,
+  type TreasuryFunctionName,
+  type TreasuryRoles,
+  type TreasuryState
+} from '../../../lib/services/treasury';
+import type { FeeType } from '../../../lib/services/fees';
+import { decodeBridgeError } from '../../../lib/errors';
+
+type Draft = { action: TreasuryAction | null; error: string | null };
+
+const NO_ROLES: TreasuryRoles = { DEFAULT_ADMIN_ROLE: false, TREASURY_ROLE: false, FEE_MANAGER_ROLE: false };
+
+const inputClassName = "w-full px-3 py-2 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50";
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <label className="block">
+      <span className="block text-xs font-medium text-gray-700 mb-1">{label}</span>
+      {children}
+    </label>
+  );
+}
+
+function getActionKey(draft: Draft): string | null {
+  return draft.action ? `${draft.action.functionName}:${JSON.stringify(draft.action.args, (_, value) => typeof value === 'bigint' ? value.toString() : value)}` : null;
+}
+
+function invalid(error: string): Draft {
+  return { action: null, error };
+}
+
+function parseWhole(value: string, label: string): bigint | string {
+  return /^\d+$/.test(value) ? BigInt(value) : `Enter the ${label} as a whole number.`;
+}
+
+function parseDecimal(value: string, decimals: number, label: string): bigint | string {
+  if (!/^\d*\.?\d+$/.test(value)) return `Enter the ${label}.`;
+  return parseUnits(value, decimals);
+}
+
+function formatBps(bps: number): string {
+  return `${(bps / 100).toFixed(2)}%`;
+}
+
+export default function TreasuryPage() {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  const { data: walletClient } = useWalletClient();
+
+  const [loadedRoles, setLoadedRoles] = useState<{ key: string; roles: TreasuryRoles } | null>(null);
+  const [treasuryState, setTreasuryState] = useState<TreasuryState | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  // Form inputs
+  const [distributeToken, setDistributeToken] = useState('');
+  const [shareRecipient, setShareRecipient] = useState('');
+  const [sharePercent, setSharePercent] = useState('');
+  const [feeType, setFeeType] = useState<FeeType>('protocol');
+  const [baseFeeRate, setBaseFeeRate] = useState('');
+  const [minFee, setMinFee] = useState('');
+  const [maxFee, setMaxFee] = useState('');
+  const [congestionMultiplier, setCongestionMultiplier] = useState('');
+  const [feeActive, setFeeActive] = useState(true);
+  const [paramsChainId, setParamsChainId] = useState('');
+  const [baseGasPrice, setBaseGasPrice] = useState('');
+  const [congestionThreshold, setCongestionThreshold] = useState('');
+  const [maxMultiplier, setMaxMultiplier] = useState('');
+  const [adjustmentSpeed, setAdjustmentSpeed] = useState('');
+  const [levelChainId, setLevelChainId] = useState('');
+  const [congestionLevel, setCongestionLevel] = useState('');
+  const [newTreasury, setNewTreasury] = useState('');
+
+  const isSupportedChain = !!getChainKey(chainId);
+  const hasFeeManager = isSupportedChain && !!findContractAddress("FeeManager", chainId);
+  const rolesKey = `${chainId}:${address}`;
+  const roles = address && loadedRoles?.key === rolesKey ? loadedRoles.roles : NO_ROLES;
+  const hasAccess = roles.TREASURY_ROLE || roles.FEE_MANAGER_ROLE || roles.DEFAULT_ADMIN_ROLE;
+  const nativeCurrency = isSupportedChain ? getChain(chainId).nativeCurrency : { symbol: 'ETH', decimals: 18 };
+
+  useEffect(() => {
+    if (!publicClient || !address || !hasFeeManager) return;
+
+    let cancelled = false;
+    getTreasuryRoles(publicClient, chainId, address)
+      .then(result => {
+        if (!cancelled) setLoadedRoles({ key: `${chainId}:${address}`, roles: result });
+      })
+      .catch(err => {
+        if (!cancelled) setError(decodeBridgeError(err).message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [publicClient, address, chainId, hasFeeManager]);
+
+  useEffect(() => {
+    if (!publicClient || !hasFeeManager) return;
+
+    let cancelled = false;
+    getTreasuryState(publicClient, chainId)
+      .then(result => {
+        if (cancelled) return;
+        setTreasuryState(result);
+        setError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(decodeBridgeError(err).message);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [publicClient, chainId, hasFeeManager, refreshKey]);
+
+  const handleRefresh = () => {
+    setIsLoading(true);
+    setRefreshKey(key => key + 1);
+  };
+
+  // Fill the fee structure form with the on-chain values for a fee type
+  const loadFeeStructure = (type: FeeType) => {
+    setFeeType(type);
+    const structure = treasuryState?.feeStructures[type];
+    if (!structure) return;
+    setBaseFeeRate(structure.baseFeeRate.toString());
+    setMinFee(formatUnits(structure.minFeeAmount, nativeCurrency.decimals));
+    setMaxFee(formatUnits(structure.maxFeeAmount, nativeCurrency.decimals));
+    setCongestionMultiplier(structure.congestionMultiplier.toString());
+    setFeeActive(structure.isActive);
+  };
+
+  // Build each form's typed call, or the reason it cannot be sent yet
+  const selectedFee = treasuryState?.collectedFees.find(fee => fee.token.address === distributeToken);
+  const distributeDraft = ((): Draft => {
+    if (!selectedFee) return invalid('Choose a token to distribute.');
+    if (selectedFee.amount === BigInt(0)) return invalid(`No ${selectedFee.token.symbol} fees have been collected.`);
+    return { action: { functionName: 'distributeFees', args: [selectedFee.token.address] }, error: null };
+  })();
+
+  const shareDraft = ((): Draft => {
+    if (!shareRecipient) return invalid('Enter the recipient address.');
+    if (!isAddress(shareRecipient)) return invalid('The recipient is not a valid address.');
+    if (!/^\d+(\.\d{1,2})?$/.test(sharePercent)) return invalid('Enter the share as a percentage with up to two decimals.');
+    const percentageBps = Math.round(Number(sharePercent) * 100);
+    const validationError = validateRevenueDistribution(treasuryState?.distribution ?? [], shareRecipient, percentageBps);
+    if (validationError) return invalid(validationError);
+    return { action: { functionName: 'setRevenueDistribution', args: [shareRecipient, BigInt(percentageBps)] }, error: null };
+  })();
+
+  const feeStructureDraft = ((): Draft => {
+    const rate = parseWhole(baseFeeRate, 'base fee rate');
+    if (typeof rate === 'string') return invalid(rate);
+    const min = parseDecimal(minFee, nativeCurrency.decimals, 'minimum fee');
+    if (typeof min === 'string') return invalid(min);
+    const max = parseDecimal(maxFee, nativeCurrency.decimals, 'maximum fee');
+    if (typeof max === 'string') return invalid(max);
+    const multiplier = parseWhole(congestionMultiplier, 'congestion multiplier');
+    if (typeof multiplier === 'string') return invalid(multiplier);
+
+    const structure = { baseFeeRate: rate, minFeeAmount: min, maxFeeAmount: max, congestionMultiplier: multiplier, isActive: feeActive };
+    const validationError = validateFeeStructure(structure);
+    if (validationError) return invalid(validationError);
+    return { action: { functionName: 'updateFeeStructure', args: [feeType, structure] }, error: null };
+  })();
+
+  const dynamicParamsDraft = ((): Draft => {
+    const targetChain = parseWhole(paramsChainId || String(chainId), 'chain ID');
+    if (typeof targetChain === 'string') return invalid(targetChain);
+    const gasPrice = parseDecimal(baseGasPrice, 9, 'base gas price');
+    if (typeof gasPrice === 'string') return invalid(gasPrice);
+    const threshold = parseWhole(congestionThreshold, 'congestion threshold');
+    if (typeof threshold === 'string') return invalid(threshold);
+    const multiplier = parseWhole(maxMultiplier, 'max multiplier');
+    if (typeof multiplier === 'string') return invalid(multiplier);
+    const speed = parseWhole(adjustmentSpeed, 'adjustment speed');
+    if (typeof speed === 'string') return invalid(speed);
+
+    // lastUpdateBlock is overwritten by the contract
+    const params = { baseGasPrice: gasPrice, congestionThreshold: threshold, maxMultiplier: multiplier, adjustmentSpeed: speed, lastUpdateBlock: BigInt(0) };
+    const validationError = validateDynamicFeeParams(params);
+    if (validationError) return invalid(validationError);
+    return { action: { functionName: 'updateDynamicFeeParams', args: [targetChain, params] }, error: null };
+  })();
+
+  const congestionDraft = ((): Draft => {
+    const targetChain = parseWhole(levelChainId || String(chainId), 'chain ID');
+    if (typeof targetChain === 'string') return invalid(targetChain);
+    const level = parseWhole(congestionLevel, 'congestion level');
+    if (typeof level === 'string') return invalid(level);
+    if (level > BigInt(MAX_CONGESTION_LEVEL)) return invalid(`The congestion level cannot exceed ${MAX_CONGESTION_LEVEL}.`);
+    return { action: { functionName: 'updateCongestionLevel', args: [targetChain, level] }, error: null };
+  })();
+
+  const treasuryDraft = ((): Draft => {
+    if (!newTreasury) return invalid('Enter the treasury address.');
+    if (!isAddress(newTreasury)) return invalid('The treasury is not a valid address.');
+    if (/^0x0{40}$/.test(newTreasury)) return invalid('The treasury cannot be the zero address.');
+    return { action: { functionName: 'updateTreasury', args: [newTreasury] }, error: null };
+  })();
+
+  const cardProps = (functionName: TreasuryFunctionName, draft: Draft, touched: boolean) => {
+    const role = TREASURY_ACTION_ROLES[functionName];
+    return {
+      role,
+      hasRole: roles[role] && !!walletClient,
+      chainId,
+      actionKey: getActionKey(draft),
+      validationError: touched ? draft.error : null,
+      simulate: async () => {
+        if (!publicClient || !address || !draft.action) throw new Error('Connect a wallet first.');
+        return simulateTreasuryAction(publicClient, chainId, address, draft.action);
+      },
+      send: async () => {
+        if (!walletClient || !publicClient || !draft.action) throw new Error('Connect a wallet first.');
+        return executeTreasuryAction(walletClient, publicClient, chainId, draft.action);
+      },
+      onSent: () => setRefreshKey(key => key + 1)
+    };
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-6 lg:py-8">
+        <div className="text-center mb-6 sm:mb-8">
+          <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold text-gray-900 mb-2 px-2">
+            Fee Treasury
+          </h1>
+          <p className="text-sm sm:text-base text-gray-600 max-w-xs sm:max-w-md lg:max-w-2xl mx-auto px-4">
+            Collected protocol fees, the revenue split and fee settings of the FeeManager.
+          </p>
+        </div>
+
+        <div className="max-w-4xl mx-auto space-y-4 sm:space-y-6">
+          <div className="bg-white rounded-xl sm:rounded-2xl shadow-lg sm:shadow-xl border border-gray-100 p-4 sm:p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="flex items-center font-semibold text-gray-900 text-base sm:text-lg">
+                <Landmark className="h-4 w-4 sm:h-5 sm:w-5 text-purple-500 mr-2" />
+                {isSupportedChain ? getChain(chainId).name : 'Unsupported network'}
+              </h3>
+              <button
+                onClick={handleRefresh}
+                disabled={isLoading || !hasFeeManager}
+                className="text-purple-600 hover:text-purple-700 disabled:opacity-40"
+                aria-label="Refresh treasury"
+              >
+                <RefreshCw className={clsx("h-4 w-4", isLoading && hasFeeManager && "animate-spin")} />
+              </button>
+            </div>
+
+            {!hasFeeManager ? (
+              <p className="text-sm text-gray-500">The FeeManager is not deployed on this network.</p>
+            ) : !address ? (
+              <p className="text-sm text-gray-500">Connect a wallet with TREASURY_ROLE or FEE_MANAGER_ROLE.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(roles) as (keyof TreasuryRoles)[]).map(role => (
+                  <span
+                    key={role}
+                    className={clsx(
+                      "px-2 py-1 text-xs rounded-full",
+                      roles[role] ? "bg-green-100 text-green-700" : "bg-gray-100 text-gray-500"
+                    )}
+                  >
+                    {role}: {roles[role] ? 'granted' : 'not granted'}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {error && (
+              <div className="flex items-center p-3 bg-red-50 border border-red-200 rounded-lg">
+                <AlertCircle className="h-4 w-4 text-red-500 mr-2 flex-shrink-0" />
+                <span className="text-red-700 text-xs sm:text-sm">{error}</span>
+              </div>
+            )}
+
+            {hasFeeManager && address && loadedRoles?.key === rolesKey && !hasAccess && (
+              <div className="flex items-center p-3 bg-gray-50 border border-gray-200 rounded-lg text-xs sm:text-sm text-gray-600">
+                <Lock className="h-4 w-4 mr-2 flex-shrink-0" />
+                This wallet has no treasury or fee manager role on this network.
+              </div>
+            )}
+          </div>
+
+          {hasAccess && treasuryState && (
+            <>
+              {/* Collected Fees */}
+              <div className="bg-white rounded-xl sm:rounded-2xl shadow-lg sm:shadow-xl border border-gray-100 p-4 sm:p-6 space-y-3">
+                <h3 className="font-semibold text-gray-900 text-base sm:text-lg">Collected fees</h3>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                  {treasuryState.collectedFees.map(fee => (
+                    <div key={fee.token.address} className="p-3 bg-gray-50 rounded-lg text-xs sm:text-sm">
+                      <div className="text-gray-500">{fee.token.symbol}</div>
+                      <div className="font-medium text-gray-900">{formatTokenAmount(fee.amount, fee.token)}</div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Revenue Split */}
+              <div className="bg-white rounded-xl sm:rounded-2xl shadow-lg sm:shadow-xl border border-gray-100 p-4 sm:p-6 space-y-3">
+                <h3 className="flex items-center font-semibold text-gray-900 text-base sm:text-lg">
+                  <PieChart className="h-4 w-4 sm:h-5 sm:w-5 text-purple-500 mr-2" />
+                  Revenue split
+                </h3>
+                <div className="space-y-2 text-xs sm:text-sm">
+                  {treasuryState.distribution.map(share => (
+                    <div key={share.recipient} className="flex items-center justify-between gap-2">
+                      <span className="text-gray-600 truncate">{share.recipient}</span>
+                      <span className="font-medium flex-shrink-0">{formatBps(share.percentageBps)}</span>
+                    </div>
+                  ))}
+                  <div className="flex items-center justify-between gap-2 pt-2 border-t border-gray-200">
+                    <span className="text-gray-600 truncate">Treasury (remainder) {treasuryState.treasury}</span>
+                    <span className="font-semibold flex-shrink-0">{formatBps(treasuryState.treasuryShareBps)}</span>
+                  </div>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                <AdminActionCard
+                  title="Distribute fees"
+                  description="Pays out a token's collected fees by the revenue split; the remainder goes to the treasury."
+                  {...cardProps('distributeFees', distributeDraft, distributeToken !== '')}
+                >
+                  <Field label="Token">
+                    <select value={distributeToken} onChange={(e) => setDistributeToken(e.target.value)} className={inputClassName}>
+                      <option value="">Choose a token</option>
+                      {treasuryState.collectedFees.map(fee => (
+                        <option key={fee.token.address} value={fee.token.address}>
+                          {fee.token.symbol} ({formatTokenAmount(fee.amount, fee.token)})
+                        </option>
+                      ))}
+                    </select>
+                  </Field>
+                  {selectedFee && selectedFee.amount > BigInt(0) && (
+                    <div className="text-xs text-gray-600 space-y-1">
+                      {treasuryState.distribution.map(share => (
+                        <div key={share.recipient} className="flex justify-between">
+                          <span className="truncate mr-2">{share.recipient}</span>
+                          <span>
+                            {formatTokenAmount((selectedFee.amount * BigInt(share.percentageBps)) / BigInt(FEE_BASIS_POINTS), selectedFee.token)}
+                          </span>
+                        </div>
+                      ))}
+                      <div className="flex justify-between font-medium">
+                        <span>Treasury</span>
+                        <span>
+                          {formatTokenAmount(
+                            selectedFee.amount -
+                              treasuryState.distribution.reduce(
+                                (total, share) => total + (selectedFee.amount * BigInt(share.percentageBps)) / BigInt(FEE_BASIS_POINTS),
+                                BigInt(0)
+                              ),
+                            selectedFee.token
+                          )}
+                        </span>
+                      </div>
+                    </div>
+                  )}
+                </AdminActionCard>
+
+                <AdminActionCard
+                  title="Revenue share"
+                  description="Sets a recipient's share of distributed fees. A share of 0 removes the recipient."
+                  {...cardProps('setRevenueDistribution', shareDraft, shareRecipient !== '' || sharePercent !== '')}
+                >
+                  <Field label="Recipient address">
+                    <input value={shareRecipient} onChange={(e) => setShareRecipient(e.target.value)} placeholder="0x..." className={inputClassName} />
+                  </Field>
+                  <Field label="Share (%)">
+                    <input value={sharePercent} onChange={(e) => setSharePercent(e.target.value)} inputMode="decimal" className={inputClassName} />
+                  </Field>
+                </AdminActionCard>
+
+                <AdminActionCard
+                  title="Fee structure"
+                  description="Rates and bounds for a fee type."
+                  {...cardProps('updateFeeStructure', feeStructureDraft, baseFeeRate !== '' || minFee !== '' || maxFee !== '')}
+                >
+                  <div className="flex items-end gap-2">
+                    <Field label="Fee type">
+                      <select value={feeType} onChange={(e) => loadFeeStructure(e.target.value as FeeType)} className={inputClassName}>
+                        {FEE_TYPES.map(type => (
+                          <option key={type} value={type}>{type}</option>
+                        ))}
+                      </select>
+                    </Field>
+                    <button
+                      onClick={() => loadFeeStructure(feeType)}
+                      className="px-3 py-2 text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg flex-shrink-0"
+                    >
+                      Load current
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <Field label="Base fee rate (bps)">
+                      <input value={baseFeeRate} onChange={(e) => setBaseFeeRate(e.target.value)} inputMode="numeric" className={inputClassName} />
+                    </Field>
+                    <Field label="Congestion multiplier (bps)">
+                      <input value={congestionMultiplier} onChange={(e) => setCongestionMultiplier(e.target.value)} inputMode="numeric" className={inputClassName} />
+                    </Field>
+                    <Field label={`Min fee (${nativeCurrency.symbol})`}>
+                      <input value={minFee} onChange={(e) => setMinFee(e.target.value)} inputMode="decimal" className={inputClassName} />
+                    </Field>
+                    <Field label={`Max fee (${nativeCurrency.symbol})`}>
+                      <input value={maxFee} onChange={(e) => setMaxFee(e.target.value)} inputMode="decimal" className={inputClassName} />
+                    </Field>
+                  </div>
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input type="checkbox" checked={feeActive} onChange={(e) => setFeeActive(e.target.checked)} className="mr-2" />
+                    Active
+                  </label>
+                </AdminActionCard>
+
+                <AdminActionCard
+                  title="Dynamic fee parameters"
+                  description={`Congestion pricing inputs for a chain. Currently ${treasuryState.dynamicFeeParams.maxMultiplier.toString()} bps max multiplier above a ${treasuryState.dynamicFeeParams.congestionThreshold.toString()} congestion threshold on this chain.`}
+                  {...cardProps('updateDynamicFeeParams', dynamicParamsDraft, baseGasPrice !== '' || congestionThreshold !== '' || maxMultiplier !== '')}
+                >
+                  <div className="grid grid-cols-2 gap-2">
+                    <Field label="Chain ID">
+                      <input value={paramsChainId} onChange={(e) => setParamsChainId(e.target.value)} placeholder={String(chainId)} inputMode="numeric" className={inputClassName} />
+                    </Field>
+                    <Field label="Base gas price (gwei)">
+                      <input value={baseGasPrice} onChange={(e) => setBaseGasPrice(e.target.value)} inputMode="decimal" className={inputClassName} />
+                    </Field>
+                    <Field label="Congestion threshold (0-99)">
+                      <input value={congestionThreshold} onChange={(e) => setCongestionThreshold(e.target.value)} inputMode="numeric" className={inputClassName} />
+                    </Field>
+                    <Field label="Max multiplier (bps)">
+                      <input value={maxMultiplier} onChange={(e) => setMaxMultiplier(e.target.value)} inputMode="numeric" className={inputClassName} />
+                    </Field>
+                  </div>
+                  <Field label="Adjustment speed (bps per block)">
+                    <input value={adjustmentSpeed} onChange={(e) => setAdjustmentSpeed(e.target.value)} inputMode="numeric" className={inputClassName} />
+                  </Field>
+                </AdminActionCard>
+
+                <AdminActionCard
+                  title="Congestion level"
+                  description="Reports the current congestion level for a chain."
+                  {...cardProps('updateCongestionLevel', congestionDraft, congestionLevel !== '')}
+                >
+                  <div className="grid grid-cols-2 gap-2">
+                    <Field label="Chain ID">
+                      <input value={levelChainId} onChange={(e) => setLevelChainId(e.target.value)} placeholder={String(chainId)} inputMode="numeric" className={inputClassName} />
+                    </Field>
+                    <Field label={`Level (0-${MAX_CONGESTION_LEVEL})`}>
+                      <input value={congestionLevel} onChange={(e) => setCongestionLevel(e.target.value)} inputMode="numeric" className={inputClassName} />
+                    </Field>
+                  </div>
+                </AdminActionCard>
+
+                <AdminActionCard
+                  title="Treasury address"
+                  description="Receives whatever the revenue split leaves over."
+                  {...cardProps('updateTreasury', treasuryDraft, newTreasury !== '')}
+                >
+                  <Field label="New treasury">
+                    <input value={newTreasury} onChange={(e) => setNewTreasury(e.target.value)} placeholder={treasuryState.treasury} className={inputClassName} />
+                  </Field>
+                </AdminActionCard>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
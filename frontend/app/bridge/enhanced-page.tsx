@@ -8,54 +8,42 @@ import clsx from 'clsx';
 import NetworkSwitcher from '../../components/NetworkSwitcher';
 import TokenSelector from '../../components/TokenSelector';
 import TransactionSuccessModal from '../../components/TransactionSuccessModal';
-import { SUPPORTED_TOKENS, CHAIN_CONFIG } from '../../lib/addresses';
+import BridgeConfirmation from '../../components/BridgeConfirmation';
+import FeeBreakdown, { type FeeBreakdownItem } from '../../components/FeeBreakdown';
+import { CHAINS, CHAIN_KEYS, findContractAddress, getChainKey, type ChainKey } from '../../lib/chains';
+import { getCounterpartToken, getToken, parseTokenAmount, type TokenInfo } from '../../lib/tokens';
 import { 
   readOptimalPath, 
   estimateRouteGas, 
   routeTransaction, 
+  simulateRouteTransaction,
   ensureAllowance, 
   requireNetwork, 
   subscribeEvents,
   debugContractState,
-  constants 
+  getStablecoinSwitchAddress,
+  getUsdcForChain,
+  type RouteInfo
 } from '../../lib/services/switch';
+import type { Simulation } from '../../lib/services/simulation';
 import { StablecoinSwitchAbi } from '../../lib/abi/StablecoinSwitch';
+import { type HistoryTransaction } from '../../lib/services/transactionHistory';
+import { useTransactionHistory } from '../../lib/hooks/useTransactionHistory';
+import { decodeBridgeError, type BridgeErrorCode } from '../../lib/errors';
 
-// Token interface to match TokenSelector
-interface Token {
-  symbol: string;
-  name: string;
-  address: string;
-  decimals: number;
-  iconUrl: string;
-  chainId: number;
-}
-
-type Chain = "sepolia" | "arbitrumSepolia" | "arbitrumOne";
+// Token shape shared with TokenSelector
+type Token = TokenInfo;
 
-const CHAIN_ID: Record<Chain, number> = {
-  sepolia: 11155111,
-  arbitrumSepolia: 421614,
-  arbitrumOne: 42161,
-};
+// Networks where StablecoinSwitch is deployed
+const SWITCH_CHAINS = CHAIN_KEYS.filter(key => findContractAddress("StablecoinSwitch", CHAINS[key].id));
 
 interface Route {
   bridge: string;
   estimatedGasUSD: number;
+  bridgeFeeUSD: number;
   estimatedTimeSeconds: number;
 }
 
-interface Transaction {
-  id: string;
-  hash: string;
-  fromChain: Chain;
-  toChain: Chain;
-  token: string;
-  amount: string;
-  status: 'pending' | 'confirmed' | 'failed';
-  timestamp: number;
-}
-
 export default function EnhancedBridgePage() {
   const { address, isConnected } = useAccount();
   const chainId = useChainId();
@@ -64,8 +52,9 @@ export default function EnhancedBridgePage() {
 
   // Core bridge state
   const [amount, setAmount] = useState("");
-  const [fromChain, setFromChain] = useState<Chain>("sepolia");
-  const [toChain, setToChain] = useState<Chain>("arbitrumSepolia");
+  const [fromChain, setFromChain] = useState<ChainKey>("sepolia");
+  const [toChain, setToChain] = useState<ChainKey>("arbitrumSepolia");
+  const switchAddress = getStablecoinSwitchAddress(CHAINS[fromChain].id);
   const [selectedToken, setSelectedToken] = useState<Token | undefined>(undefined);
   const [toAddress, setToAddress] = useState("");
   
@@ -76,14 +65,17 @@ export default function EnhancedBridgePage() {
   const [isSwapping, setIsSwapping] = useState(false);
   const [isLoadingRoute, setIsLoadingRoute] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSimulating, setIsSimulating] = useState(false);
+  const [simulation, setSimulation] = useState<Simulation<RouteInfo> | null>(null);
   const [gasEstimate, setGasEstimate] = useState<bigint | null>(null);
   const [txHash, setTxHash] = useState<string | null>(null);
   const [txStatus, setTxStatus] = useState<string | null>(null);
   const [routeError, setRouteError] = useState<string | null>(null);
+  const [routeErrorCode, setRouteErrorCode] = useState<BridgeErrorCode | null>(null);
   const [adapterDetected, setAdapterDetected] = useState<boolean>(false);
   
   // Enhanced features
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const { transactions, addTransaction } = useTransactionHistory();
   const [showHistory, setShowHistory] = useState(false);
   const [balanceError, setBalanceError] = useState<string | null>(null);
   const [networkError, setNetworkError] = useState<string | null>(null);
@@ -92,17 +84,11 @@ export default function EnhancedBridgePage() {
   // Network validation
   useEffect(() => {
     if (isConnected && chainId) {
-      const supportedChains = [CHAIN_ID.sepolia, CHAIN_ID.arbitrumSepolia, CHAIN_ID.arbitrumOne];
-      if (!supportedChains.includes(chainId)) {
-        setNetworkError(`Unsupported network. Please switch to Sepolia, Arbitrum Sepolia, or Arbitrum One.`);
+      const currentChain = getChainKey(chainId);
+      if (!currentChain || !SWITCH_CHAINS.includes(currentChain)) {
+        setNetworkError(`Unsupported network. Please switch to ${SWITCH_CHAINS.map(key => CHAINS[key].name).join(', ')}.`);
       } else {
         setNetworkError(null);
-        const currentChain =
-          chainId === CHAIN_ID.sepolia
-            ? "sepolia"
-            : chainId === CHAIN_ID.arbitrumSepolia
-            ? "arbitrumSepolia"
-            : "arbitrumOne";
         if (fromChain !== currentChain) {
           setFromChain(currentChain);
         }
@@ -113,7 +99,7 @@ export default function EnhancedBridgePage() {
   // Auto-swap if same chain
   useEffect(() => {
     if (fromChain === toChain) {
-      setToChain(fromChain === "sepolia" ? "arbitrumSepolia" : "sepolia");
+      setToChain(SWITCH_CHAINS.find(key => key !== fromChain) ?? toChain);
     }
   }, [fromChain, toChain]);
 
@@ -124,12 +110,12 @@ export default function EnhancedBridgePage() {
 
   const needsApproval = useMemo(() => {
     // ETH (native token with zero address) doesn't need approval
-    if (selectedToken?.address === "0x0000000000000000000000000000000000000000") {
+    if (selectedToken?.isNative) {
       return false;
     }
-    // For ERC-20 tokens, check if there's an allowance error
-    return (routeError || "").toLowerCase().includes("allowance");
-  }, [routeError, selectedToken]);
+    // For ERC-20 tokens, check if the last error was caused by a missing allowance
+    return routeErrorCode === "INSUFFICIENT_ALLOWANCE" || routeErrorCode === "TRANSFER_FAILED";
+  }, [routeErrorCode, selectedToken]);
 
   // Live UI values for instant feedback
   const [estGas, setEstGas] = useState(0.25);
@@ -143,15 +129,19 @@ export default function EnhancedBridgePage() {
     setLoading(true);
     setIsLoadingRoute(true);
     setRouteError(null);
+    setRouteErrorCode(null);
     setBalanceError(null);
+    setSimulation(null); // A new quote needs a new pre-flight
 
     try {
-      const destChainId = CHAIN_ID[toChain];
-      const amountUnits = BigInt(Math.floor(Number(amount) * 1e6));
+      const destChainId = CHAINS[toChain].id;
+      // Quotes are priced in the selected token, or source-chain USDC before one is picked
+      const quoteToken = selectedToken ?? getToken("USDC", CHAINS[fromChain].id);
+      const amountUnits = parseTokenAmount(amount, quoteToken);
 
       // Pre-check: ensure destination chain is supported
       const isSupported = (await publicClient.readContract({
-        address: constants.contract,
+        address: switchAddress,
         abi: StablecoinSwitchAbi,
         functionName: "isChainSupported",
         args: [BigInt(destChainId)],
@@ -171,16 +161,15 @@ export default function EnhancedBridgePage() {
         {
           bridge: route.bridge,
           estimatedGasUSD: route.estimatedGasUSD,
+          bridgeFeeUSD: route.bridgeFeeUSD,
           estimatedTimeSeconds: route.estimatedTimeSeconds,
         },
       ]);
 
-      const toToken = toChain === "arbitrumSepolia"
-        ? (SUPPORTED_TOKENS.arbitrumSepolia.USDC as `0x${string}`)
-        : (SUPPORTED_TOKENS.sepolia.USDC as `0x${string}`);
+      const toToken = getToken("USDC", destChainId).address;
 
       const gas = await estimateRouteGas(publicClient, {
-        fromToken: constants.usdc,
+        fromToken: getUsdcForChain(CHAINS[fromChain].id),
         toToken: toToken,
         amount: amountUnits,
         toChainId: destChainId,
@@ -189,15 +178,16 @@ export default function EnhancedBridgePage() {
         chainId: chainId,
       });
       setGasEstimate(gas);
-    } catch (error: any) {
-      const message = String(error?.response?.data || error?.message || error);
-      setRouteError(message);
+    } catch (err) {
+      const error = decodeBridgeError(err);
+      setRouteError(error.message);
+      setRouteErrorCode(error.code);
       setRoutes([]);
     } finally {
       setLoading(false);
       setIsLoadingRoute(false);
     }
-  }, [address, amount, fromChain, toChain, publicClient, toAddress, speedPreference]);
+  }, [address, amount, fromChain, toChain, publicClient, toAddress, speedPreference, selectedToken, switchAddress]);
 
   // Auto-fetch when amount or chains change
   useEffect(() => {
@@ -226,11 +216,11 @@ export default function EnhancedBridgePage() {
     (async () => {
       if (!publicClient) return;
       try {
-        const destChainId = CHAIN_ID[toChain];
+        const destChainId = CHAINS[toChain].id;
         let detected = false;
         try {
           const adapters = (await publicClient.readContract({
-            address: constants.contract,
+            address: switchAddress,
             abi: StablecoinSwitchAbi,
             functionName: "getBridgeAdapters",
             args: [BigInt(destChainId)],
@@ -239,7 +229,7 @@ export default function EnhancedBridgePage() {
         } catch (_) {
           try {
             const single = (await publicClient.readContract({
-              address: constants.contract,
+              address: switchAddress,
               abi: StablecoinSwitchAbi,
               functionName: "getBridgeAdapter",
               args: [BigInt(destChainId)],
@@ -254,7 +244,7 @@ export default function EnhancedBridgePage() {
         setAdapterDetected(false);
       }
     })();
-  }, [publicClient, toChain]);
+  }, [publicClient, toChain, switchAddress]);
 
   // Dynamic best route
   const bestRoute = useMemo(() => {
@@ -277,6 +267,20 @@ export default function EnhancedBridgePage() {
     }, null as Route | null);
   }, [routes, speedPreference]);
 
+  // StablecoinSwitch quotes fees in USD; for a stablecoin that is also roughly what the recipient loses.
+  // It charges no FeeManager protocol fee, so none is listed.
+  const feeBreakdown: FeeBreakdownItem[] = bestRoute
+    ? [
+        { label: 'Adapter fee', value: `$${bestRoute.bridgeFeeUSD.toFixed(4)}` },
+        { label: 'Gas', value: `$${bestRoute.estimatedGasUSD.toFixed(4)}` },
+        {
+          label: 'Net received',
+          value: `≈ ${Math.max(0, Number(amount) - bestRoute.bridgeFeeUSD).toFixed(6)} ${selectedToken?.symbol ?? 'USDC'}`,
+          tone: 'total' as const
+        }
+      ]
+    : [];
+
   // Real-time dynamic display values
   useEffect(() => {
     const gas = 0.001 * speedPreference + 0.2;
@@ -294,6 +298,46 @@ export default function EnhancedBridgePage() {
   }, [speedPreference]);
 
   // Bridge Action
+  // Simulate routeTransaction and show the result before the wallet prompt
+  const handleReview = async () => {
+    if (!publicClient || !address || !selectedToken) return;
+    if (toAddress && !/^0x[a-fA-F0-9]{40}$/.test(toAddress)) {
+      alert("Recipient address is invalid.");
+      return;
+    }
+
+    const destChainId = CHAINS[toChain].id;
+    const toTokenAddress = getCounterpartToken(selectedToken, destChainId)?.address;
+    if (!toTokenAddress) {
+      alert(`${selectedToken.symbol} is not supported on ${toChain}`);
+      return;
+    }
+
+    setIsSimulating(true);
+    setRouteError(null);
+    setRouteErrorCode(null);
+    try {
+      const result = await simulateRouteTransaction(publicClient, {
+        fromToken: selectedToken.address,
+        toToken: toTokenAddress,
+        amount: parseTokenAmount(amount, selectedToken),
+        toChainId: destChainId,
+        priority: speedPreference >= 66 ? 1 : 0,
+        recipient: (toAddress || address) as `0x${string}`,
+        account: address as `0x${string}`,
+        chainId: chainId,
+      });
+      setSimulation(result);
+      if (result.error) setRouteErrorCode(result.error.code);
+    } catch (err) {
+      const error = decodeBridgeError(err);
+      setRouteError(error.message);
+      setRouteErrorCode(error.code);
+    } finally {
+      setIsSimulating(false);
+    }
+  };
+
   const handleBridge = async () => {
     try {
       if (!walletClient || !publicClient || !address) {
@@ -317,8 +361,8 @@ export default function EnhancedBridgePage() {
       }
 
       setIsSubmitting(true);
-      const destChainId = CHAIN_ID[toChain];
-      await requireNetwork(chainId, walletClient, CHAIN_ID[fromChain]);
+      const destChainId = CHAINS[toChain].id;
+      await requireNetwork(chainId, walletClient, CHAINS[fromChain].id);
 
       // Debug contract state before transaction
       try {
@@ -398,11 +442,11 @@ export default function EnhancedBridgePage() {
       }
 
       // Use the selected token's decimals for amount calculation
-      const amountUnits = BigInt(Math.floor(Number(amount) * Math.pow(10, selectedToken.decimals)));
+      const amountUnits = parseTokenAmount(amount, selectedToken);
 
       // Safety checks
       const isSupported = (await publicClient.readContract({
-        address: constants.contract,
+        address: switchAddress,
         abi: StablecoinSwitchAbi,
         functionName: "isChainSupported",
         args: [BigInt(destChainId)],
@@ -421,7 +465,7 @@ export default function EnhancedBridgePage() {
         publicClient, 
         walletClient, 
         address as `0x${string}`, 
-        constants.contract, 
+        switchAddress, 
         amountUnits,
         selectedToken.address as `0x${string}`
       );
@@ -430,19 +474,7 @@ export default function EnhancedBridgePage() {
       const recipient = (toAddress || address) as `0x${string}`;
 
       // Find the corresponding token on the destination chain
-      const toTokens = SUPPORTED_TOKENS[toChain];
-      const toTokenAddress = Object.values(toTokens).find(addr => {
-        // For ETH, both should be zero address
-        if (selectedToken.address === "0x0000000000000000000000000000000000000000") {
-          return addr === "0x0000000000000000000000000000000000000000";
-        }
-        // For other tokens, find by symbol (this is a simplified approach)
-        return addr === selectedToken.address || 
-               Object.keys(toTokens).find(symbol => 
-                 toTokens[symbol as keyof typeof toTokens] === addr && 
-                 symbol === selectedToken.symbol
-               );
-      }) as `0x${string}`;
+      const toTokenAddress = getCounterpartToken(selectedToken, destChainId)?.address;
 
       if (!toTokenAddress) {
         alert(`${selectedToken.symbol} is not supported on ${toChain}`);
@@ -451,7 +483,7 @@ export default function EnhancedBridgePage() {
       }
 
       const { hash, receipt } = await routeTransaction(walletClient, publicClient, {
-        fromToken: selectedToken.address as `0x${string}`,
+        fromToken: selectedToken.address,
         toToken: toTokenAddress,
         amount: amountUnits,
         toChainId: destChainId,
@@ -485,9 +517,10 @@ export default function EnhancedBridgePage() {
       );
       
       // Add to transaction history with CORRECT status
-      const newTransaction: Transaction = {
+      const newTransaction: HistoryTransaction = {
         id: hash,
         hash,
+        source: 'stablecoinSwitch',
         fromChain,
         toChain,
         token: selectedToken?.symbol || "",
@@ -495,7 +528,7 @@ export default function EnhancedBridgePage() {
         status: actualStatus,
         timestamp: Date.now(),
       };
-      setTransactions(prev => [newTransaction, ...prev]);
+      addTransaction(newTransaction);
       
       // Always show success modal regardless of transaction result
       setShowSuccessModal(true);
@@ -506,6 +539,7 @@ export default function EnhancedBridgePage() {
       setShowSuccessModal(true);
     } finally {
       setIsSubmitting(false);
+      setSimulation(null);
     }
   };
 
@@ -533,26 +567,28 @@ export default function EnhancedBridgePage() {
         return;
       }
       
-      await requireNetwork(chainId, walletClient, CHAIN_ID[fromChain]);
+      await requireNetwork(chainId, walletClient, CHAINS[fromChain].id);
       
       // Use the selected token's decimals for amount calculation
-      const amountUnits = BigInt(Math.floor(Number(amount) * Math.pow(10, selectedToken.decimals)));
+      const amountUnits = parseTokenAmount(amount, selectedToken);
       
       await ensureAllowance(
         publicClient, 
         walletClient, 
         address as `0x${string}`, 
-        constants.contract, 
+        switchAddress, 
         amountUnits,
         selectedToken.address as `0x${string}`
       );
       
       setRouteError(null);
+      setRouteErrorCode(null);
       alert("Token approved. You can now bridge.");
-    } catch (err: any) {
-      const msg = String(err?.message || err);
-      setRouteError(msg);
-      alert("Approve failed: " + msg);
+    } catch (err) {
+      const error = decodeBridgeError(err);
+      setRouteError(error.message);
+      setRouteErrorCode(error.code);
+      alert("Approve failed: " + error.message);
     }
   };
 
@@ -645,9 +681,11 @@ export default function EnhancedBridgePage() {
                         </div>
                       </div>
                     </div>
-                    <div className="text-xs text-gray-400 font-mono">
-                      {tx.hash.slice(0, 8)}...{tx.hash.slice(-6)}
-                    </div>
+                    {tx.hash && (
+                      <div className="text-xs text-gray-400 font-mono">
+                        {tx.hash.slice(0, 8)}...{tx.hash.slice(-6)}
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -717,11 +755,11 @@ export default function EnhancedBridgePage() {
                 <div className="p-4 bg-gray-50 rounded-xl">
                   <div className="flex items-center gap-3">
                     <img 
-                      src={CHAIN_CONFIG[toChain].icon} 
-                      alt={CHAIN_CONFIG[toChain].name}
+                      src={CHAINS[toChain].icon} 
+                      alt={CHAINS[toChain].name}
                       className="w-6 h-6"
                     />
-                    <span className="font-medium">{CHAIN_CONFIG[toChain].name}</span>
+                    <span className="font-medium">{CHAINS[toChain].name}</span>
                   </div>
                 </div>
               </div>
@@ -785,6 +823,12 @@ export default function EnhancedBridgePage() {
                 {"<"}
                 {( (bestRoute?.estimatedTimeSeconds ?? estTime * 60) / 60).toFixed(1)} min</span>
             </div>
+
+            {feeBreakdown.length > 0 && (
+              <div className="pt-3 border-t border-emerald-200">
+                <FeeBreakdown items={feeBreakdown} />
+              </div>
+            )}
           </div>
 
           {/* Errors */}
@@ -811,18 +855,38 @@ export default function EnhancedBridgePage() {
               </button>
             )}
 
-            <button
-              onClick={handleBridge}
-              disabled={!isConnected || !amount || loading || needsApproval || !!networkError}
-              className={clsx(
-                "w-full py-4 font-semibold rounded-xl transition-all flex items-center justify-center gap-2",
-                isConnected && amount && !loading && !needsApproval && !networkError
-                  ? "bg-emerald-600 hover:bg-emerald-700 text-white"
-                  : "bg-gray-300 text-gray-500 cursor-not-allowed"
-              )}
-            >
-              {isSubmitting ? "Bridging..." : loading ? "Finding Route..." : "Bridge Now"}
-            </button>
+            {simulation ? (
+              <BridgeConfirmation
+                simulation={simulation}
+                details={
+                  simulation.result
+                    ? [
+                        { label: 'Bridge', value: simulation.result.bridgeName },
+                        { label: 'Est. cost', value: `$${(Number(simulation.result.estimatedCostUsd) / 1e18).toFixed(4)}` },
+                        { label: 'Est. time', value: `${String(simulation.result.estimatedTimeMinutes)} min` },
+                        { label: 'Bridge gas', value: `${String(simulation.result.gasEstimate)} units` }
+                      ]
+                    : []
+                }
+                nativeCurrency={CHAINS[fromChain].nativeCurrency}
+                isSubmitting={isSubmitting}
+                onConfirm={handleBridge}
+                onCancel={() => setSimulation(null)}
+              />
+            ) : (
+              <button
+                onClick={handleReview}
+                disabled={!isConnected || !amount || loading || isSimulating || needsApproval || !!networkError}
+                className={clsx(
+                  "w-full py-4 font-semibold rounded-xl transition-all flex items-center justify-center gap-2",
+                  isConnected && amount && !loading && !isSimulating && !needsApproval && !networkError
+                    ? "bg-emerald-600 hover:bg-emerald-700 text-white"
+                    : "bg-gray-300 text-gray-500 cursor-not-allowed"
+                )}
+              >
+                {isSubmitting ? "Bridging..." : loading ? "Finding Route..." : isSimulating ? "Simulating..." : "Bridge Now"}
+              </button>
+            )}
           </div>
 
           {/* Status Information */}
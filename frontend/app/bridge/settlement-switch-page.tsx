@@ -1,81 +1,81 @@
 'use client';
 
-import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { useAccount, useChainId, usePublicClient, useWalletClient } from 'wagmi';
-import { ArrowUpDown, Clock, DollarSign, Zap, AlertCircle, CheckCircle, History, Route as RouteIcon, TrendingUp } from 'lucide-react';
+import { ArrowUpDown, Clock, DollarSign, Zap, AlertCircle, AlertTriangle, CheckCircle, History, RefreshCw, Route as RouteIcon, TrendingUp } from 'lucide-react';
 import clsx from 'clsx';
 
 import ChainSelector from '../../components/ChainSelector';
 import NetworkSwitcher from '../../components/NetworkSwitcher';
 import TokenSelector from '../../components/TokenSelector';
 import TransactionSuccessModal from '../../components/TransactionSuccessModal';
-import { SUPPORTED_TOKENS, CHAIN_CONFIG, CONTRACT_ADDRESSES, getContractAddress } from '../../lib/addresses';
-import { LayerZeroAdapterAbi } from '../../lib/abi/LayerZeroAdapter';
+import BatchBridgeBuilder, { type BatchSubmittedTransfer } from '../../components/BatchBridgeBuilder';
+import AllowanceDashboard from '../../components/AllowanceDashboard';
+import BridgeConfirmation, { type ConfirmationChange } from '../../components/BridgeConfirmation';
+import FeeBreakdown, { protocolFeeItems, type FeeBreakdownItem } from '../../components/FeeBreakdown';
+import FeeReceiptView from '../../components/FeeReceiptView';
+import { CHAINS, CHAIN_KEYS, findContractAddress, getChainKey, type ChainKey } from '../../lib/chains';
+import { NATIVE_TOKEN_ADDRESS, formatTokenAmount, getCounterpartToken, parseTokenAmount, type TokenInfo } from '../../lib/tokens';
 import { 
   findOptimalRoute,
   findMultipleRoutes,
-  bridgeWithAutoRoute,
+  getSupportingAdapters,
   executeBridge,
+  simulateExecuteBridge,
+  requoteRoute,
+  executeMultiPathBridge,
+  simulateMultiPathBridge,
+  requoteMultiPath,
+  exceedsRouteLiquidity,
+  findMultiPathRoute,
   getTransferStatus,
   getRegisteredAdapters,
   getBridgeAdapterName,
+  getLayerZeroMessagingFee,
+  isLayerZeroAdapter,
   formatRouteMetrics,
   createRoutePreferences,
   RoutingMode,
   TransferStatus,
   constants,
+  BATCH_BRIDGE_AVAILABLE,
+  type BatchExecutionResult,
   type BridgeRoute,
+  type ExpectedTransfer,
+  type MultiPathQuote,
+  type MultiPathRoute,
   type MultipleRoutesResult,
+  type RegisteredAdapters,
   type RoutePreferences
 } from '../../lib/services/settlementSwitch';
+import { trackTransfer } from '../../lib/services/transferTracker';
+import type { Simulation } from '../../lib/services/simulation';
+import { diffMultiPathLegs, diffRouteQuotes, isQuoteExpired, type QuoteChange, type QuoteStamp } from '../../lib/services/quotes';
+import { watchRouteCache } from '../../lib/services/routeCache';
+import { quoteProtocolFee, type ProtocolFeeQuote } from '../../lib/services/fees';
+import { getBridgeHealth, getBridgeHealthWarning, watchBridgeHealth } from '../../lib/services/bridgeHealth';
+import { toHistoryStatus, type HistoryTransaction } from '../../lib/services/transactionHistory';
+import { useTransactionHistory } from '../../lib/hooks/useTransactionHistory';
+import { decodeBridgeError } from '../../lib/errors';
 
-// Token interface to match TokenSelector
-interface Token {
-  symbol: string;
-  name: string;
-  address: string;
-  decimals: number;
-  iconUrl: string;
-  chainId: number;
-}
-
-type Chain = "sepolia" | "arbitrumSepolia" | "arbitrumOne" | "mainnet";
-
-const CHAIN_ID: Record<Chain, number> = {
-  sepolia: 11155111,
-  arbitrumSepolia: 421614,
-  arbitrumOne: 42161,
-  mainnet: 1,
-};
+// Token shape shared with TokenSelector
+type Token = TokenInfo;
 
 interface RouteOption {
   route: BridgeRoute;
   bridgeName: string;
   metrics: {
     gasCostETH: number;
-    bridgeFeeETH: number;
-    totalCostETH: number;
+    bridgeFee: number;
+    totalCost: number;
     estimatedTimeMinutes: number;
     successRatePercent: number;
-    liquidityAvailableETH: number;
+    liquidityAvailable: number;
     congestionLevel: number;
   };
   isRecommended: boolean;
 }
 
-interface Transaction {
-  id: string;
-  hash: string;
-  transferId?: string;
-  fromChain: Chain;
-  toChain: Chain;
-  token: string;
-  amount: string;
-  bridge: string;
-  status: 'pending' | 'confirmed' | 'failed';
-  timestamp: number;
-}
-
 export default function SettlementSwitchBridgePage() {
   const { address, isConnected } = useAccount();
   const chainId = useChainId();
@@ -84,8 +84,8 @@ export default function SettlementSwitchBridgePage() {
 
   // Core bridge state
   const [amount, setAmount] = useState("");
-  const [fromChain, setFromChain] = useState<Chain>("sepolia");
-  const [toChain, setToChain] = useState<Chain>("arbitrumSepolia");
+  const [fromChain, setFromChain] = useState<ChainKey>("sepolia");
+  const [toChain, setToChain] = useState<ChainKey>("arbitrumSepolia");
   const [selectedToken, setSelectedToken] = useState<Token | undefined>(undefined);
   const [toAddress, setToAddress] = useState("");
   
@@ -93,9 +93,20 @@ export default function SettlementSwitchBridgePage() {
   const [routeOptions, setRouteOptions] = useState<RouteOption[]>([]);
   const [selectedRouteIndex, setSelectedRouteIndex] = useState(0);
   const [routingMode, setRoutingMode] = useState<RoutingMode>(RoutingMode.BALANCED);
+  const [useSplit, setUseSplit] = useState(false);
+  const [splitQuote, setSplitQuote] = useState<MultiPathQuote | null>(null);
+  const [isLoadingSplit, setIsLoadingSplit] = useState(false);
   const [loading, setLoading] = useState(false);
   const [isLoadingRoute, setIsLoadingRoute] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSimulating, setIsSimulating] = useState(false);
+  const [simulation, setSimulation] = useState<Simulation<ExpectedTransfer> | null>(null);
+  const [messagingFee, setMessagingFee] = useState<bigint | null>(null); // LayerZero native fee, paid on top of the amount
+  const [protocolFee, setProtocolFee] = useState<ProtocolFeeQuote | null>(null); // FeeManager fee for the connected account
+  const [routeQuote, setRouteQuote] = useState<QuoteStamp | null>(null); // When and at which block routeOptions were quoted
+  const [quoteChanges, setQuoteChanges] = useState<QuoteChange[]>([]);
+  // Pre-flight and per-leg changes for a split whose expired quote was refreshed
+  const [splitReview, setSplitReview] = useState<{ simulation: Simulation<readonly `0x${string}`[]>; changes: ConfirmationChange[] } | null>(null);
   const [txHash, setTxHash] = useState<string | null>(null);
   const [transferId, setTransferId] = useState<string | null>(null);
   const [routeError, setRouteError] = useState<string | null>(null);
@@ -104,35 +115,52 @@ export default function SettlementSwitchBridgePage() {
   const [isCheckingPair, setIsCheckingPair] = useState<boolean>(false);
   
   // Enhanced features
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const { transactions, addTransaction, updateTransaction } = useTransactionHistory();
   const [showHistory, setShowHistory] = useState(false);
+  const [receiptTransactionId, setReceiptTransactionId] = useState<string | null>(null);
   const [showRouteComparison, setShowRouteComparison] = useState(false);
+  const [showBatchBuilder, setShowBatchBuilder] = useState(false);
+  const [showApprovals, setShowApprovals] = useState(false);
   const [balanceError, setBalanceError] = useState<string | null>(null);
   const [networkError, setNetworkError] = useState<string | null>(null);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const [isNetworkChanging, setIsNetworkChanging] = useState(false);
-  const [registeredAdapters, setRegisteredAdapters] = useState<{adapters: string[], names: string[], enabled: boolean[]}>({
-    adapters: [], names: [], enabled: []
+  const [healthWarnings, setHealthWarnings] = useState<Map<string, string>>(new Map()); // lowercased adapter -> warning
+  const [healthRefreshKey, setHealthRefreshKey] = useState(0);
+  const [registeredAdapters, setRegisteredAdapters] = useState<RegisteredAdapters>({
+    adapters: [], names: [], enabled: [], healthy: [], supportedChains: []
   });
+  const transferTrackers = useRef<Map<string, () => void>>(new Map());
+  const activeAdapterCount = registeredAdapters.adapters.filter(
+    (_, index) => registeredAdapters.enabled[index] && registeredAdapters.healthy[index]
+  ).length;
+
+  // Stop transfer trackers on unmount
+  useEffect(() => {
+    const trackers = transferTrackers.current;
+    return () => {
+      trackers.forEach(stop => stop());
+      trackers.clear();
+    };
+  }, []);
+
+  // Drop remembered quotes whenever the switch updates its route cache
+  useEffect(() => {
+    if (!publicClient || !getChainKey(chainId)) return;
+    return watchRouteCache(publicClient, chainId);
+  }, [publicClient, chainId]);
 
   // Network validation with change detection
   useEffect(() => {
     if (isConnected && chainId) {
-      const supportedChains = [CHAIN_ID.sepolia, CHAIN_ID.arbitrumSepolia, CHAIN_ID.arbitrumOne, CHAIN_ID.mainnet];
+      const currentChain = getChainKey(chainId);
       
       setIsNetworkChanging(false);
       
-      if (!supportedChains.includes(chainId)) {
-        setNetworkError(`Unsupported network. Please switch to Sepolia, Arbitrum Sepolia, Arbitrum One, or Ethereum Mainnet.`);
+      if (!currentChain) {
+        setNetworkError(`Unsupported network. Please switch to ${CHAIN_KEYS.map(key => CHAINS[key].name).join(', ')}.`);
       } else {
         setNetworkError(null);
-        let currentChain: Chain;
-        
-        if (chainId === CHAIN_ID.sepolia) currentChain = "sepolia";
-        else if (chainId === CHAIN_ID.arbitrumSepolia) currentChain = "arbitrumSepolia";
-        else if (chainId === CHAIN_ID.arbitrumOne) currentChain = "arbitrumOne";
-        else if (chainId === CHAIN_ID.mainnet) currentChain = "mainnet";
-        else currentChain = "sepolia"; // Fallback
         
         if (fromChain !== currentChain) {
           setFromChain(currentChain);
@@ -153,6 +181,33 @@ export default function SettlementSwitchBridgePage() {
     }
   }, [publicClient, chainId]);
 
+  // Load bridge health so route cards can flag unhealthy adapters; registry events trigger a reload
+  useEffect(() => {
+    if (!publicClient || !getChainKey(chainId) || !findContractAddress("BridgeRegistry", chainId)) return;
+
+    let cancelled = false;
+    getBridgeHealth(publicClient, chainId)
+      .then(health => {
+        if (cancelled) return;
+        const warnings = new Map<string, string>();
+        health.forEach(bridge => {
+          const warning = getBridgeHealthWarning(bridge);
+          if (warning) warnings.set(bridge.adapter.toLowerCase(), warning);
+        });
+        setHealthWarnings(warnings);
+      })
+      .catch(err => console.warn("Failed to load bridge health:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [publicClient, chainId, healthRefreshKey]);
+
+  useEffect(() => {
+    if (!publicClient || !getChainKey(chainId)) return;
+    return watchBridgeHealth(publicClient, chainId, () => setHealthRefreshKey(key => key + 1));
+  }, [publicClient, chainId]);
+
   // Token selection callback
   const handleTokenSelect = useCallback((token: Token) => {
     setSelectedToken(token);
@@ -172,45 +227,32 @@ export default function SettlementSwitchBridgePage() {
       setIsPairSupported(null);
 
       try {
-        const srcChain = CHAIN_ID[fromChain];
-        const dstChain = CHAIN_ID[toChain];
-
-        // Resolve LayerZero adapter for source chain; fallback to Sepolia if not configured yet
-        const resolvedAdapter = getContractAddress('LayerZeroAdapter', srcChain);
-        const layerZeroAdapter = (resolvedAdapter && resolvedAdapter.length === 42
-          ? resolvedAdapter
-          : CONTRACT_ADDRESSES.sepolia.LayerZeroAdapter) as `0x${string}`;
-
-        // Resolve token addresses (ETH uses zero address)
-        const tokenInAddress = selectedToken.symbol === 'ETH'
-          ? '0x0000000000000000000000000000000000000000'
-          : (SUPPORTED_TOKENS as any)[fromChain][selectedToken.symbol];
-        const tokenOutAddress = selectedToken.symbol === 'ETH'
-          ? '0x0000000000000000000000000000000000000000'
-          : (SUPPORTED_TOKENS as any)[toChain][selectedToken.symbol];
+        const srcChain = CHAINS[fromChain].id;
+        const dstChain = CHAINS[toChain].id;
+
+        // Resolve the same asset on the destination chain
+        const tokenOut = getCounterpartToken(selectedToken, dstChain);
 
         // If token out not found on destination chain, immediately block
-        if (!tokenOutAddress) {
+        if (!tokenOut) {
           setIsPairSupported(false);
           setPairError('Selected token is not available on destination chain.');
           return;
         }
 
-        const supported = await publicClient.readContract({
-          address: layerZeroAdapter,
-          abi: LayerZeroAdapterAbi,
-          functionName: 'supportsRoute',
-          args: [
-            tokenInAddress as `0x${string}`,
-            tokenOutAddress as `0x${string}`,
-            BigInt(srcChain),
-            BigInt(dstChain)
-          ]
-        });
+        // A pair is supported if any adapter on the source chain can bridge it
+        const supportingAdapters = await getSupportingAdapters(
+          publicClient,
+          selectedToken.symbol,
+          tokenOut.symbol,
+          srcChain,
+          dstChain
+        );
+        const supported = supportingAdapters.length > 0;
 
         if (!supported) {
           setIsPairSupported(false);
-          setPairError('LayerZero does not support this route. Please choose a supported pair.');
+          setPairError('No bridge adapter supports this route. Please choose a supported pair.');
         } else {
           setIsPairSupported(true);
           setPairError(null);
@@ -228,6 +270,35 @@ export default function SettlementSwitchBridgePage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [fromChain, toChain, selectedToken, publicClient]);
 
+  // Quote a split across adapters for the current inputs
+  const fetchSplitQuote = useCallback(async () => {
+    if (!publicClient || !selectedToken || !amount || Number(amount) <= 0) return;
+
+    setIsLoadingSplit(true);
+    setRouteError(null);
+    setSplitReview(null);
+
+    try {
+      const quote = await findMultiPathRoute(
+        publicClient,
+        selectedToken.symbol,
+        selectedToken.symbol,
+        parseTokenAmount(amount, selectedToken),
+        CHAINS[fromChain].id,
+        CHAINS[toChain].id,
+        createRoutePreferences(routingMode),
+        chainId
+      );
+      setSplitQuote(quote);
+    } catch (err) {
+      setRouteError(decodeBridgeError(err).message);
+      setSplitQuote(null);
+      setUseSplit(false);
+    } finally {
+      setIsLoadingSplit(false);
+    }
+  }, [amount, fromChain, toChain, selectedToken, publicClient, routingMode, chainId]);
+
   // Fetch multiple routes for comparison
   const fetchRoutes = useCallback(async () => {
     if (!amount || Number(amount) <= 0) return;
@@ -239,9 +310,11 @@ export default function SettlementSwitchBridgePage() {
     setIsLoadingRoute(true);
     setRouteError(null);
     setBalanceError(null);
+    setSimulation(null); // A new quote needs a new pre-flight
+    setSplitReview(null);
 
     try {
-      const amountUnits = BigInt(Math.floor(Number(amount) * Math.pow(10, selectedToken.decimals)));
+      const amountUnits = parseTokenAmount(amount, selectedToken);
       const preferences = createRoutePreferences(routingMode);
       
       // Get multiple routes for comparison
@@ -250,32 +323,55 @@ export default function SettlementSwitchBridgePage() {
         selectedToken.symbol,
         selectedToken.symbol, // Same token on destination
         amountUnits,
-        CHAIN_ID[fromChain],
-        CHAIN_ID[toChain],
+        CHAINS[fromChain].id,
+        CHAINS[toChain].id,
         3, // Max 3 routes
         preferences,
         chainId
       );
 
       // Format routes for display
+      const bridgeNames = await Promise.all(
+        result.routes.map(route => getBridgeAdapterName(publicClient, route.adapter, chainId))
+      );
       const formattedRoutes: RouteOption[] = result.routes.map((route, index) => ({
         route,
-        bridgeName: getBridgeAdapterName(route.adapter),
-        metrics: formatRouteMetrics(route.metrics),
+        bridgeName: bridgeNames[index],
+        metrics: formatRouteMetrics(route.metrics, selectedToken),
         isRecommended: route.adapter === result.bestRoute.adapter
       }));
 
       setRouteOptions(formattedRoutes);
+      setRouteQuote({ fetchedAt: result.fetchedAt, blockNumber: result.blockNumber, expiresAt: result.expiresAt });
+
+      // LayerZero routes also pay its messaging fee in the native token
+      const layerZeroAdapter = findContractAddress("LayerZeroAdapter", CHAINS[fromChain].id);
+      setMessagingFee(
+        layerZeroAdapter
+          ? await getLayerZeroMessagingFee(publicClient, layerZeroAdapter, CHAINS[toChain].id).catch(() => null)
+          : null
+      );
+      // The switch collects FeeManager's protocol fee in the native token, after the payer's discount
+      setProtocolFee(
+        await quoteProtocolFee(publicClient, amountUnits, CHAINS[fromChain].id, address).catch(() => null)
+      );
+      setSplitQuote(null);
+      // Default to splitting when no single bridge has enough liquidity for the full amount
+      const shouldSplit = formattedRoutes.length > 1 && exceedsRouteLiquidity(result.bestRoute);
+      setUseSplit(shouldSplit);
+      if (shouldSplit) {
+        fetchSplitQuote();
+      }
       
       // Auto-select the best route
       const bestRouteIndex = formattedRoutes.findIndex(r => r.isRecommended);
       setSelectedRouteIndex(bestRouteIndex >= 0 ? bestRouteIndex : 0);
       
-    } catch (error: any) {
-      const message = String(error?.message || error);
+    } catch (err) {
+      const error = decodeBridgeError(err);
       
       // Handle specific network change errors
-      if (message.includes('network') && message.includes('change')) {
+      if (error.code === 'NETWORK_CHANGED') {
         setRouteError("Network changed during request. Please try again.");
         setIsNetworkChanging(true);
         // Retry after a short delay
@@ -286,14 +382,14 @@ export default function SettlementSwitchBridgePage() {
           }
         }, 2000);
       } else {
-        setRouteError(message);
+        setRouteError(error.message);
       }
       setRouteOptions([]);
     } finally {
       setLoading(false);
       setIsLoadingRoute(false);
     }
-  }, [amount, fromChain, toChain, selectedToken, publicClient, routingMode, chainId, isNetworkChanging]);
+  }, [amount, fromChain, toChain, selectedToken, publicClient, routingMode, chainId, isNetworkChanging, fetchSplitQuote, address]);
 
   // Auto-fetch when parameters change
   useEffect(() => {
@@ -305,6 +401,91 @@ export default function SettlementSwitchBridgePage() {
     return () => clearTimeout(timer);
   }, [fetchRoutes]);
 
+  // Simulate the transfer and show the result before the wallet prompt
+  // An expired quote is refreshed from the same bridge first; the result says whether signing can go ahead unattended
+  const handleReview = async (): Promise<{ simulation: Simulation<ExpectedTransfer>; changes: QuoteChange[]; route: BridgeRoute } | null> => {
+    if (!publicClient || !address || !selectedToken || routeOptions.length === 0) return null;
+
+    const shownRoute = routeOptions[selectedRouteIndex]?.route;
+    if (!shownRoute) return null;
+
+    setIsSimulating(true);
+    setRouteError(null);
+    try {
+      let routeToSign = shownRoute;
+      if (routeQuote && isQuoteExpired(routeQuote)) {
+        const { route: freshRoute, ...stamp } = await requoteRoute(
+          publicClient,
+          shownRoute,
+          createRoutePreferences(routingMode),
+          chainId
+        );
+        routeToSign = freshRoute;
+        setRouteQuote(stamp);
+        setRouteOptions(options => options.map((option, index) =>
+          index === selectedRouteIndex
+            ? { ...option, route: freshRoute, metrics: formatRouteMetrics(freshRoute.metrics, selectedToken) }
+            : option
+        ));
+      }
+
+      const result = await simulateExecuteBridge(publicClient, routeToSign, toAddress || address, address, "0x", chainId);
+      // Compare what the user was shown with the route that will actually be signed
+      const changes = diffRouteQuotes(shownRoute, routeToSign);
+      setSimulation(result);
+      setQuoteChanges(changes);
+      return { simulation: result, changes, route: routeToSign };
+    } catch (err) {
+      setRouteError(decodeBridgeError(err).message);
+      return null;
+    } finally {
+      setIsSimulating(false);
+    }
+  };
+
+  const formatQuoteChange = (change: QuoteChange): ConfirmationChange => {
+    const token = selectedToken ?? { decimals: 18, symbol: '' };
+    switch (change.field) {
+      case 'amountOut':
+        return { label: 'Recipient gets', before: `${formatTokenAmount(change.before, token)} ${token.symbol}`, after: `${formatTokenAmount(change.after, token)} ${token.symbol}`, worse: change.worse };
+      case 'bridgeFee':
+        return { label: 'Bridge fee', before: `${formatTokenAmount(change.before, token)} ${token.symbol}`, after: `${formatTokenAmount(change.after, token)} ${token.symbol}`, worse: change.worse };
+      case 'estimatedTimeMinutes':
+        return { label: 'Est. time', before: `${String(change.before)} min`, after: `${String(change.after)} min`, worse: change.worse };
+    }
+  };
+
+  // Re-quote every leg of an expired split and simulate it, as handleReview does for a single route
+  const handleSplitReview = async (): Promise<{ simulation: Simulation<readonly `0x${string}`[]>; changes: QuoteChange[]; multiPath: MultiPathRoute } | null> => {
+    if (!publicClient || !address || !selectedToken || !splitQuote) return null;
+
+    setIsSimulating(true);
+    setRouteError(null);
+    try {
+      const freshQuote = await requoteMultiPath(publicClient, splitQuote, createRoutePreferences(routingMode), chainId);
+      setSplitQuote(freshQuote);
+
+      const result = await simulateMultiPathBridge(publicClient, freshQuote.multiPath, toAddress || address, address, "0x", chainId);
+      // Compare each leg the user was shown with the leg that will actually be signed
+      const legChanges = diffMultiPathLegs(splitQuote.legs, freshQuote.legs);
+      setSplitReview({
+        simulation: result,
+        changes: legChanges.flatMap((changes, index) =>
+          changes.map(change => {
+            const formatted = formatQuoteChange(change);
+            return { ...formatted, label: `${splitQuote.legs[index].bridgeName}: ${formatted.label}` };
+          })
+        )
+      });
+      return { simulation: result, changes: legChanges.flat(), multiPath: freshQuote.multiPath };
+    } catch (err) {
+      setRouteError(decodeBridgeError(err).message);
+      return null;
+    } finally {
+      setIsSimulating(false);
+    }
+  };
+
   // Execute bridge transaction
   const handleBridge = async () => {
     if (!walletClient || !publicClient || !address || !selectedToken || routeOptions.length === 0) return;
@@ -312,6 +493,23 @@ export default function SettlementSwitchBridgePage() {
       setRouteError("Network is changing, please wait and try again.");
       return;
     }
+
+    // Never sign a quote older than the route cache TTL. A re-reviewed quote replaces the expired one;
+    // routeOptions and splitQuote in this closure still hold the old routes
+    let multiPathToSend = splitQuote?.multiPath;
+    if (useSplit && splitQuote && isQuoteExpired(splitQuote)) {
+      const review = await handleSplitReview();
+      // Stop so the user can look at any leg that moved; an unchanged split goes straight on
+      if (!review || review.simulation.error || review.changes.length > 0) return;
+      multiPathToSend = review.multiPath;
+    }
+    let routeToSend = routeOptions[selectedRouteIndex].route;
+    if (!useSplit && routeQuote && isQuoteExpired(routeQuote)) {
+      const review = await handleReview();
+      // Stop so the user can look at anything that moved; an unchanged quote goes straight on
+      if (!review || review.simulation.error || review.changes.length > 0) return;
+      routeToSend = review.route;
+    }
     
     setIsSubmitting(true);
     setRouteError(null);
@@ -319,30 +517,80 @@ export default function SettlementSwitchBridgePage() {
     try {
       const selectedRoute = routeOptions[selectedRouteIndex];
       const recipient = toAddress || address;
-      const amountUnits = BigInt(Math.floor(Number(amount) * Math.pow(10, selectedToken.decimals)));
+
+      if (useSplit && multiPathToSend) {
+        const { hash, legs } = await executeMultiPathBridge(
+          walletClient,
+          publicClient,
+          multiPathToSend,
+          recipient,
+          address,
+          "0x", // The service approves the switch when the allowance is short
+          chainId
+        );
+
+        setTxHash(hash);
+        setTransferId(legs[0]?.transferId ?? null);
+
+        // Each leg is its own transfer, so record and track them separately
+        const legBridgeNames = await Promise.all(
+          legs.map(leg => getBridgeAdapterName(publicClient, leg.adapter, chainId))
+        );
+        legs.forEach((leg, index) => {
+          const legTransaction: HistoryTransaction = {
+            id: leg.transferId,
+            hash,
+            transferId: leg.transferId,
+            adapter: leg.adapter,
+            source: 'settlementSwitch',
+            fromChain,
+            toChain,
+            token: selectedToken.symbol,
+            amount: formatTokenAmount(leg.amount, selectedToken),
+            bridge: legBridgeNames[index],
+            status: 'pending',
+            timestamp: Date.now()
+          };
+          addTransaction(legTransaction);
+
+          const stopTracking = trackTransfer({
+            transferId: leg.transferId,
+            srcChainId: CHAINS[fromChain].id,
+            dstChainId: CHAINS[toChain].id,
+            adapter: leg.adapter,
+            onStatusChange: ({ status }) => updateTransaction(legTransaction.id, { status: toHistoryStatus(status) }),
+            onError: (err) => console.warn("Transfer tracking error:", err)
+          });
+          transferTrackers.current.set(legTransaction.id, stopTracking);
+        });
+
+        setShowSuccessModal(true);
+        setAmount("");
+        setRouteOptions([]);
+        setSplitQuote(null);
+        return;
+      }
       
-      // Use bridgeWithAutoRoute for simplicity, or executeBridge for more control
-      const hash = await bridgeWithAutoRoute(
+      // Send the route the user picked, so the recorded bridge is the one that carries the transfer
+      const { hash, transferId: newTransferId } = await executeBridge(
         walletClient,
         publicClient,
-        selectedToken.symbol,
-        selectedToken.symbol,
-        amountUnits,
-        CHAIN_ID[fromChain],
-        CHAIN_ID[toChain],
+        routeToSend,
         recipient,
         address,
-        createRoutePreferences(routingMode),
-        "0x", // No permit data
+        "0x",
         chainId
       );
 
       setTxHash(hash);
+      setTransferId(newTransferId);
       
       // Add to transaction history
-      const newTransaction: Transaction = {
-        id: Date.now().toString(),
+      const newTransaction: HistoryTransaction = {
+        id: newTransferId,
         hash,
+        transferId: newTransferId,
+        source: 'settlementSwitch',
         fromChain,
         toChain,
         token: selectedToken.symbol,
@@ -352,32 +600,83 @@ export default function SettlementSwitchBridgePage() {
         timestamp: Date.now()
       };
       
-      setTransactions(prev => [newTransaction, ...prev]);
+      addTransaction(newTransaction);
       setShowSuccessModal(true);
+
+      // Follow the transfer across both chains so the history panel updates
+      const stopTracking = trackTransfer({
+        transferId: newTransferId,
+        srcChainId: CHAINS[fromChain].id,
+        dstChainId: CHAINS[toChain].id,
+        onStatusChange: ({ status }) => updateTransaction(newTransaction.id, { status: toHistoryStatus(status) }),
+        onError: (err) => console.warn("Transfer tracking error:", err)
+      });
+      transferTrackers.current.set(newTransaction.id, stopTracking);
       
       // Reset form
       setAmount("");
       setRouteOptions([]);
       
-    } catch (error: any) {
-      console.error("Bridge transaction failed:", error);
-      const message = String(error?.message || error);
+    } catch (err) {
+      console.error("Bridge transaction failed:", err);
+      const error = decodeBridgeError(err);
       
       // Handle specific network change errors
-      if (message.includes('network') && message.includes('change')) {
+      if (error.code === 'NETWORK_CHANGED') {
         setRouteError("Network changed during transaction. Please verify your network and try again.");
         setIsNetworkChanging(true);
         setTimeout(() => setIsNetworkChanging(false), 3000);
-      } else if (error?.code === -32603) {
-        setRouteError("Network request rejected. Please check your network connection and try again.");
+      } else if (error.code === 'USER_REJECTED' || error.code === 'RPC_FAILURE') {
+        setRouteError(error.message);
       } else {
-        setRouteError(`Transaction failed: ${message}`);
+        setRouteError(`Transaction failed: ${error.message}`);
       }
     } finally {
       setIsSubmitting(false);
+      setSimulation(null);
+      setSplitReview(null);
     }
   };
 
+  // Record and track every transfer from a submitted batch
+  const handleBatchSubmitted = async (result: BatchExecutionResult, transfers: BatchSubmittedTransfer[]) => {
+    setTxHash(result.hash);
+
+    const bridgeNames = publicClient
+      ? await Promise.all(transfers.map(transfer => getBridgeAdapterName(publicClient, transfer.adapter, chainId)))
+      : transfers.map(() => 'Unknown Bridge');
+
+    transfers.forEach((transfer, index) => {
+      const batchTransaction: HistoryTransaction = {
+        id: transfer.transferId,
+        hash: result.hash,
+        transferId: transfer.transferId,
+        adapter: transfer.adapter,
+        source: 'settlementSwitch',
+        fromChain,
+        toChain: transfer.toChain,
+        token: transfer.tokenSymbol,
+        amount: transfer.amount,
+        bridge: bridgeNames[index],
+        status: 'pending',
+        timestamp: Date.now()
+      };
+      addTransaction(batchTransaction);
+
+      const stopTracking = trackTransfer({
+        transferId: transfer.transferId,
+        srcChainId: CHAINS[fromChain].id,
+        dstChainId: CHAINS[transfer.toChain].id,
+        adapter: transfer.adapter,
+        onStatusChange: ({ status }) => updateTransaction(batchTransaction.id, { status: toHistoryStatus(status) }),
+        onError: (err) => console.warn("Transfer tracking error:", err)
+      });
+      transferTrackers.current.set(batchTransaction.id, stopTracking);
+    });
+
+    setShowHistory(true);
+  };
+
   // Swap chains
   const handleSwapChains = () => {
     setFromChain(toChain);
@@ -385,7 +684,36 @@ export default function SettlementSwitchBridgePage() {
   };
 
   const selectedRoute = routeOptions[selectedRouteIndex];
-  const canBridge = amount && Number(amount) > 0 && selectedToken && routeOptions.length > 0 && !isSubmitting && !isNetworkChanging && isPairSupported !== false;
+  const nativeCurrency = CHAINS[fromChain].nativeCurrency;
+  const formatNative = (value: bigint) => `${formatTokenAmount(value, nativeCurrency)} ${nativeCurrency.symbol}`;
+  // Only LayerZero routes pay the messaging fee, and LayerZero's bridgeFee already includes it
+  const routeMessagingFee = selectedRoute && isLayerZeroAdapter(selectedRoute.route.adapter, CHAINS[fromChain].id)
+    ? messagingFee
+    : null;
+  const adapterFee = selectedRoute
+    ? selectedRoute.route.metrics.bridgeFee - (routeMessagingFee ?? BigInt(0))
+    : BigInt(0);
+  // Only SettlementSwitch.executeBridge charges the protocol fee; split transfers do not
+  const chargedProtocolFee = useSplit ? null : protocolFee;
+  // Native fees sent with the transfer on top of the amount (gas is listed separately)
+  const nativeFees = (chargedProtocolFee?.fee ?? BigInt(0)) + (routeMessagingFee ?? BigInt(0));
+  const youPay = selectedRoute && selectedToken
+    ? selectedToken.address === NATIVE_TOKEN_ADDRESS
+      ? formatNative(selectedRoute.route.amountIn + nativeFees)
+      : `${formatTokenAmount(selectedRoute.route.amountIn, selectedToken)} ${selectedToken.symbol}` +
+        (nativeFees > BigInt(0) ? ` + ${formatNative(nativeFees)}` : '')
+    : '';
+  const feeBreakdown: FeeBreakdownItem[] = selectedRoute && selectedToken
+    ? [
+        { label: 'Adapter fee', value: `${formatTokenAmount(adapterFee > BigInt(0) ? adapterFee : BigInt(0), selectedToken)} ${selectedToken.symbol}` },
+        ...(chargedProtocolFee ? protocolFeeItems(chargedProtocolFee, nativeCurrency) : []),
+        { label: 'Gas', value: formatNative(selectedRoute.route.metrics.estimatedGasCost) },
+        ...(routeMessagingFee !== null ? [{ label: 'LayerZero messaging fee', value: formatNative(routeMessagingFee) }] : []),
+        { label: 'You pay (excl. gas)', value: youPay, tone: 'total' as const },
+        { label: 'Net received', value: `${formatTokenAmount(selectedRoute.route.amountOut, selectedToken)} ${selectedToken.symbol}`, tone: 'total' as const }
+      ]
+    : [];
+  const canBridge = amount && Number(amount) > 0 && selectedToken && routeOptions.length > 0 && !isSubmitting && !isNetworkChanging && isPairSupported !== false && (!useSplit || splitQuote !== null);
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -432,41 +760,57 @@ export default function SettlementSwitchBridgePage() {
               <h3 className="font-semibold text-gray-900 text-base sm:text-lg">Available Bridge Adapters</h3>
               <div className="flex items-center text-xs sm:text-sm text-gray-500">
                 <CheckCircle className="h-3 w-3 sm:h-4 sm:w-4 mr-1 text-green-500" />
-                1 Active
+                {activeAdapterCount} Active
               </div>
             </div>
             
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2 sm:gap-3">
-              {/* LayerZero - Active */}
-              <div className="flex items-center justify-between p-2 sm:p-3 bg-purple-200 border border-purple-300 rounded-lg">
-                <div className="flex items-center">
-                  <div className="w-2 h-2 bg-purple-500 rounded-full mr-2 sm:mr-3 flex-shrink-0"></div>
-                  <span className="font-medium text-black-900 text-sm sm:text-base">LayerZero</span>
-                </div>
-                <CheckCircle className="h-3 w-3 sm:h-4 sm:w-4 text-purple-500 flex-shrink-0" />
-              </div>
-              
-              {/* Coming Soon bridges */}
-              <div className="flex items-center justify-between p-2 sm:p-3 bg-gray-50 border border-gray-200 rounded-lg">
-                <div className="flex items-center">
-                  <div className="w-2 h-2 bg-gray-400 rounded-full mr-2 sm:mr-3 flex-shrink-0"></div>
-                  <span className="font-medium text-gray-600 text-sm sm:text-base">Connext</span>
-                </div>
-                <Clock className="h-3 w-3 sm:h-4 sm:w-4 text-gray-400 flex-shrink-0" />
-              </div>
-              
-              <div className="flex items-center justify-between p-2 sm:p-3 bg-gray-50 border border-gray-200 rounded-lg sm:col-span-2 lg:col-span-1">
-                <div className="flex items-center">
-                  <div className="w-2 h-2 bg-gray-400 rounded-full mr-2 sm:mr-3 flex-shrink-0"></div>
-                  <span className="font-medium text-gray-600 text-sm sm:text-base">Across</span>
-                </div>
-                <Clock className="h-3 w-3 sm:h-4 sm:w-4 text-gray-400 flex-shrink-0" />
+            {registeredAdapters.adapters.length === 0 ? (
+              <p className="text-xs sm:text-sm text-gray-600 text-center px-2">
+                No bridge adapters are registered on this network.
+              </p>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2 sm:gap-3">
+                {registeredAdapters.adapters.map((adapter, index) => {
+                  const isActive = registeredAdapters.enabled[index] && registeredAdapters.healthy[index];
+                  const chains = registeredAdapters.supportedChains[index];
+                  return (
+                    <div
+                      key={adapter}
+                      title={adapter}
+                      className={clsx(
+                        "p-2 sm:p-3 border rounded-lg",
+                        isActive ? "bg-purple-200 border-purple-300" : "bg-gray-50 border-gray-200"
+                      )}
+                    >
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center min-w-0">
+                          <div className={clsx(
+                            "w-2 h-2 rounded-full mr-2 sm:mr-3 flex-shrink-0",
+                            isActive ? "bg-purple-500" : registeredAdapters.enabled[index] ? "bg-yellow-500" : "bg-gray-400"
+                          )}></div>
+                          <span className={clsx(
+                            "font-medium text-sm sm:text-base truncate",
+                            isActive ? "text-black-900" : "text-gray-600"
+                          )}>
+                            {registeredAdapters.names[index] || 'Unknown Bridge'}
+                          </span>
+                        </div>
+                        {isActive ? (
+                          <CheckCircle className="h-3 w-3 sm:h-4 sm:w-4 text-purple-500 flex-shrink-0" />
+                        ) : (
+                          <span className="text-xs text-gray-500 flex-shrink-0 ml-2">
+                            {registeredAdapters.enabled[index] ? 'Unhealthy' : 'Disabled'}
+                          </span>
+                        )}
+                      </div>
+                      {chains.length > 0 && (
+                        <div className="text-xs text-gray-500 mt-1 truncate">{chains.join(', ')}</div>
+                      )}
+                    </div>
+                  );
+                })}
               </div>
-            </div>
-            
-            <p className="text-xs sm:text-sm text-gray-600 mt-3 sm:mt-4 text-center px-2">
-              LayerZero provides fast, secure cross-chain transfers. Additional bridges launching soon.
-            </p>
+            )}
           </div>
         </div>
 
@@ -510,7 +854,7 @@ export default function SettlementSwitchBridgePage() {
                     <div className="flex-1">
                       <ChainSelector
                         selectedChain={fromChain}
-                        onChainSelect={(chain: string) => setFromChain(chain as Chain)}
+                        onChainSelect={setFromChain}
                         disabled={isSubmitting}
                       />
                     </div>
@@ -573,7 +917,7 @@ export default function SettlementSwitchBridgePage() {
                     <div className="flex-1">
                       <ChainSelector
                         selectedChain={toChain}
-                        onChainSelect={(chain: string) => setToChain(chain as Chain)}
+                        onChainSelect={setToChain}
                         disabled={isSubmitting}
                       />
                     </div>
@@ -646,7 +990,7 @@ export default function SettlementSwitchBridgePage() {
                           <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 sm:gap-4 text-xs sm:text-sm">
                             <div>
                               <span className="text-gray-500">Cost:</span>
-                              <div className="font-medium">{option.metrics.totalCostETH.toFixed(6)} ETH</div>
+                              <div className="font-medium">{option.metrics.totalCost.toFixed(6)} {selectedToken?.symbol}</div>
                             </div>
                             <div>
                               <span className="text-gray-500">Time:</span>
@@ -654,9 +998,15 @@ export default function SettlementSwitchBridgePage() {
                             </div>
                             <div>
                               <span className="text-gray-500">Liquidity:</span>
-                              <div className="font-medium">{option.metrics.liquidityAvailableETH.toFixed(2)} ETH</div>
+                              <div className="font-medium">{option.metrics.liquidityAvailable.toFixed(2)} {selectedToken?.symbol}</div>
                             </div>
                           </div>
+                          {healthWarnings.has(option.route.adapter.toLowerCase()) && (
+                            <div className="mt-2 flex items-start text-xs sm:text-sm text-yellow-800">
+                              <AlertTriangle className="h-3 w-3 sm:h-4 sm:w-4 text-yellow-600 mr-1 mt-0.5 flex-shrink-0" />
+                              <span>{healthWarnings.get(option.route.adapter.toLowerCase())}</span>
+                            </div>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -674,9 +1024,16 @@ export default function SettlementSwitchBridgePage() {
                               : "border-gray-200 hover:border-gray-300"
                           )}
                         >
-                          <div className="font-medium text-sm sm:text-base">{option.bridgeName}</div>
+                          <div className="flex items-center justify-center font-medium text-sm sm:text-base">
+                            {option.bridgeName}
+                            {healthWarnings.has(option.route.adapter.toLowerCase()) && (
+                              <span title={healthWarnings.get(option.route.adapter.toLowerCase())}>
+                                <AlertTriangle className="h-3 w-3 sm:h-4 sm:w-4 text-yellow-600 ml-1" />
+                              </span>
+                            )}
+                          </div>
                           <div className="text-xs sm:text-sm text-gray-600">
-                            {option.metrics.totalCostETH.toFixed(6)} ETH
+                            {option.metrics.totalCost.toFixed(6)} {selectedToken?.symbol}
                           </div>
                         </button>
                       ))}
@@ -697,15 +1054,77 @@ export default function SettlementSwitchBridgePage() {
                       <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 sm:gap-4 text-xs sm:text-sm">
                         <div className="flex items-center">
                           <DollarSign className="h-3 w-3 sm:h-4 sm:w-4 text-gray-400 mr-1" />
-                          <span>Total Cost: {selectedRoute.metrics.totalCostETH.toFixed(6)} ETH</span>
+                          <span>Total Cost: {selectedRoute.metrics.totalCost.toFixed(6)} {selectedToken?.symbol}</span>
                         </div>
                         <div className="flex items-center">
                           <Clock className="h-3 w-3 sm:h-4 sm:w-4 text-gray-400 mr-1" />
                           <span>Est. Time: {selectedRoute.metrics.estimatedTimeMinutes} min</span>
                         </div>
+                        {routeQuote && (
+                          <div className="flex items-center text-gray-500">
+                            <RefreshCw className="h-3 w-3 sm:h-4 sm:w-4 text-gray-400 mr-1" />
+                            <span>
+                              Quoted at block {String(routeQuote.blockNumber)}, refreshed before signing after {new Date(routeQuote.expiresAt).toLocaleTimeString()}
+                            </span>
+                          </div>
+                        )}
+                      </div>
+                      <div className="mt-3 pt-3 border-t border-gray-200">
+                        <FeeBreakdown items={feeBreakdown} />
                       </div>
                     </div>
                   )}
+
+                  {/* Multi-path Split */}
+                  {routeOptions.length > 1 && (
+                    <div className="mt-4 p-3 sm:p-4 border border-gray-200 rounded-lg">
+                      <label className="flex items-center justify-between cursor-pointer">
+                        <span className="flex items-center font-medium text-gray-900 text-sm sm:text-base">
+                          <RouteIcon className="h-4 w-4 text-purple-500 mr-2" />
+                          Split across bridges
+                        </span>
+                        <input
+                          type="checkbox"
+                          checked={useSplit}
+                          onChange={(e) => {
+                            setUseSplit(e.target.checked);
+                            if (e.target.checked && !splitQuote) fetchSplitQuote();
+                          }}
+                          disabled={isSubmitting || isLoadingSplit}
+                          className="h-4 w-4 text-purple-600 rounded"
+                        />
+                      </label>
+                      {selectedRoute && exceedsRouteLiquidity(selectedRoute.route) && (
+                        <p className="mt-2 text-xs sm:text-sm text-yellow-700">
+                          {selectedRoute.bridgeName} only has {selectedRoute.metrics.liquidityAvailable.toFixed(2)} {selectedToken?.symbol} available. Splitting spreads the amount across several bridges.
+                        </p>
+                      )}
+                      {useSplit && isLoadingSplit && (
+                        <p className="mt-2 text-xs sm:text-sm text-gray-600">Quoting split...</p>
+                      )}
+                      {useSplit && splitQuote && selectedToken && (
+                        <div className="mt-3 space-y-2">
+                          {splitQuote.legs.map((leg, index) => (
+                            <div key={index} className="flex items-center justify-between text-xs sm:text-sm">
+                              <span className="text-gray-700">
+                                {leg.bridgeName} ({leg.sharePercent.toFixed(1)}%)
+                                {leg.exceedsLiquidity && (
+                                  <span className="ml-2 text-yellow-700">low liquidity</span>
+                                )}
+                              </span>
+                              <span className="font-medium">
+                                {formatTokenAmount(leg.amount, selectedToken)} {selectedToken.symbol}
+                              </span>
+                            </div>
+                          ))}
+                          <div className="pt-2 border-t border-gray-100 grid grid-cols-1 sm:grid-cols-2 gap-2 text-xs sm:text-sm text-gray-600">
+                            <span>Total Cost: {formatTokenAmount(splitQuote.multiPath.totalCost, selectedToken)} {selectedToken.symbol}</span>
+                            <span>Est. Time: {splitQuote.multiPath.maxTime.toString()} min (slowest leg)</span>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
                 </div>
               </div>
             )}
@@ -722,25 +1141,108 @@ export default function SettlementSwitchBridgePage() {
 
             {/* Bridge Button */}
             <div className="border-t border-gray-100 p-4 sm:p-6">
+              {useSplit && splitReview && splitQuote && selectedToken ? (
+                <BridgeConfirmation
+                  simulation={splitReview.simulation}
+                  changes={splitReview.changes}
+                  details={[
+                    { label: 'Bridges', value: splitQuote.legs.map(leg => leg.bridgeName).join(', ') },
+                    { label: 'You send', value: `${formatTokenAmount(splitQuote.multiPath.totalAmount, selectedToken)} ${selectedToken.symbol}` },
+                    {
+                      label: 'Recipient gets',
+                      value: `${formatTokenAmount(splitQuote.legs.reduce((total, leg) => total + leg.expectedAmountOut, BigInt(0)), selectedToken)} ${selectedToken.symbol}`
+                    },
+                    { label: 'Recipient', value: toAddress || address || '' },
+                    ...(splitReview.simulation.result ? [{ label: 'Transfers', value: String(splitReview.simulation.result.length) }] : [])
+                  ]}
+                  nativeCurrency={CHAINS[fromChain].nativeCurrency}
+                  isSubmitting={isSubmitting}
+                  onConfirm={handleBridge}
+                  onCancel={() => setSplitReview(null)}
+                />
+              ) : simulation && selectedToken ? (
+                <BridgeConfirmation
+                  simulation={simulation}
+                  changes={quoteChanges.map(formatQuoteChange)}
+                  details={[
+                    { label: 'Bridge', value: routeOptions[selectedRouteIndex]?.bridgeName ?? 'LayerZero' },
+                    { label: 'You send', value: `${formatTokenAmount(parseTokenAmount(amount, selectedToken), selectedToken)} ${selectedToken.symbol}` },
+                    ...(routeMessagingFee !== null
+                      ? [{ label: 'LayerZero fee', value: formatNative(routeMessagingFee) }]
+                      : []),
+                    ...(chargedProtocolFee ? [{ label: 'Protocol fee', value: formatNative(chargedProtocolFee.fee) }] : []),
+                    ...(simulation.result
+                      ? [
+                          { label: 'Recipient gets', value: `${formatTokenAmount(simulation.result.route.amountOut, selectedToken)} ${selectedToken.symbol}` },
+                          { label: 'Recipient', value: simulation.result.recipient },
+                          { label: 'Transfer ID', value: `${simulation.result.transferId.slice(0, 10)}...${simulation.result.transferId.slice(-8)}` }
+                        ]
+                      : [])
+                  ]}
+                  nativeCurrency={CHAINS[fromChain].nativeCurrency}
+                  isSubmitting={isSubmitting}
+                  onConfirm={handleBridge}
+                  onCancel={() => setSimulation(null)}
+                />
+              ) : (
+                <button
+                  // Split transfers go straight to the wallet; their gas estimate still stops reverting legs
+                  onClick={useSplit ? handleBridge : handleReview}
+                  disabled={!canBridge || isLoadingRoute || isSimulating}
+                  className={clsx(
+                    "w-full py-3 sm:py-4 px-4 sm:px-6 rounded-lg font-semibold text-white transition-colors text-sm sm:text-base",
+                    canBridge && !isLoadingRoute && !isSimulating
+                      ? "bg-purple-600 hover:bg-purple-700"
+                      : "bg-gray-300 cursor-not-allowed"
+                  )}
+                >
+                  {isSubmitting ? (
+                    "Processing..."
+                  ) : isLoadingRoute ? (
+                    "Finding Routes..."
+                  ) : isSimulating ? (
+                    "Simulating..."
+                  ) : (
+                    `Bridge ${amount || "0"} ${selectedToken?.symbol || ""}`
+                  )}
+                </button>
+              )}
+            </div>
+          </div>
+
+          {/* Batch Builder; hidden while the contract's batch call cannot succeed */}
+          {BATCH_BRIDGE_AVAILABLE && (
+            <div className="mt-4 sm:mt-6 bg-white rounded-2xl shadow-xl border border-gray-100 overflow-hidden mx-2 sm:mx-0">
+              {showBatchBuilder ? (
+                <BatchBridgeBuilder
+                  fromChain={fromChain}
+                  routingMode={routingMode}
+                  disabled={isSubmitting || isNetworkChanging}
+                  onSubmitted={handleBatchSubmitted}
+                />
+              ) : (
+                <button
+                  onClick={() => setShowBatchBuilder(true)}
+                  className="w-full p-4 sm:p-6 text-left text-purple-600 hover:text-purple-700 text-sm sm:text-base font-medium"
+                >
+                  Sending to several recipients? Build a batch and sign once.
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* Token Approvals */}
+          <div className="mt-4 sm:mt-6 bg-white rounded-2xl shadow-xl border border-gray-100 overflow-hidden mx-2 sm:mx-0">
+            {showApprovals ? (
+              <AllowanceDashboard />
+            ) : (
               <button
-                onClick={handleBridge}
-                disabled={!canBridge || isLoadingRoute}
-                className={clsx(
-                  "w-full py-3 sm:py-4 px-4 sm:px-6 rounded-lg font-semibold text-white transition-colors text-sm sm:text-base",
-                  canBridge && !isLoadingRoute
-                    ? "bg-purple-600 hover:bg-purple-700"
-                    : "bg-gray-300 cursor-not-allowed"
-                )}
+                onClick={() => setShowApprovals(true)}
+                className="w-full p-4 sm:p-6 text-left text-purple-600 hover:text-purple-700 text-sm sm:text-base font-medium"
               >
-                {isSubmitting ? (
-                  "Processing..."
-                ) : isLoadingRoute ? (
-                  "Finding Routes..."
-                ) : (
-                  `Bridge ${amount || "0"} ${selectedToken?.symbol || ""}`
-                )}
+                Review and revoke token approvals
               </button>
-            </div>
+            )}
           </div>
 
           {/* Transaction History */}
@@ -761,27 +1263,38 @@ export default function SettlementSwitchBridgePage() {
                 <div className="p-4 sm:p-6">
                   <div className="space-y-3">
                     {transactions.slice(0, 5).map((tx) => (
-                      <div key={tx.id} className="flex flex-col sm:flex-row sm:items-center justify-between p-3 bg-gray-50 rounded-lg gap-2 sm:gap-0">
-                        <div>
-                          <div className="font-medium text-gray-900 text-sm sm:text-base">
-                            {tx.amount} {tx.token}
-                          </div>
-                          <div className="text-xs sm:text-sm text-gray-600">
-                            {tx.fromChain} → {tx.toChain} via {tx.bridge}
-                          </div>
-                        </div>
-                        <div className="text-left sm:text-right">
-                          <div className={clsx(
-                            "text-xs sm:text-sm font-medium",
-                            tx.status === 'confirmed' ? "text-green-600" :
-                            tx.status === 'failed' ? "text-red-600" : "text-yellow-600"
-                          )}>
-                            {tx.status}
+                      <div key={tx.id} className="p-3 bg-gray-50 rounded-lg">
+                        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 sm:gap-0">
+                          <div>
+                            <div className="font-medium text-gray-900 text-sm sm:text-base">
+                              {tx.amount} {tx.token}
+                            </div>
+                            <div className="text-xs sm:text-sm text-gray-600">
+                              {tx.fromChain} → {tx.toChain}{tx.bridge ? ` via ${tx.bridge}` : ''}
+                            </div>
                           </div>
-                          <div className="text-xs text-gray-500">
-                            {new Date(tx.timestamp).toLocaleTimeString()}
+                          <div className="text-left sm:text-right">
+                            <div className={clsx(
+                              "text-xs sm:text-sm font-medium",
+                              tx.status === 'confirmed' ? "text-green-600" :
+                              tx.status === 'failed' ? "text-red-600" : "text-yellow-600"
+                            )}>
+                              {tx.status}
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              {new Date(tx.timestamp).toLocaleTimeString()}
+                            </div>
+                            {tx.transferId && (
+                              <button
+                                onClick={() => setReceiptTransactionId(receiptTransactionId === tx.id ? null : tx.id)}
+                                className="text-xs text-blue-600 hover:text-blue-700"
+                              >
+                                {receiptTransactionId === tx.id ? 'Hide receipt' : 'Fee receipt'}
+                              </button>
+                            )}
                           </div>
                         </div>
+                        {receiptTransactionId === tx.id && <FeeReceiptView transaction={tx} />}
                       </div>
                     ))}
                   </div>
@@ -0,0 +1,230 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useChainId, usePublicClient } from 'wagmi';
+import { Activity, AlertCircle, AlertTriangle, CheckCircle, Power, RefreshCw } from 'lucide-react';
+import clsx from 'clsx';
+import { getChain, getChainKey, getExplorerTxUrl } from '@/lib/chains';
+import {
+  getBridgeHealth,
+  getBridgeHealthConfig,
+  getBridgeHealthWarning,
+  watchBridgeHealth,
+  type BridgeHealth,
+  type BridgeHealthConfig
+} from '@/lib/services/bridgeHealth';
+import { decodeBridgeError } from '@/lib/errors';
+
+function formatDuration(seconds: number): string {
+  if (seconds <= 0) return '—';
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function formatTimestamp(ms: number | null): string {
+  return ms === null ? 'Never' : new Date(ms).toLocaleString();
+}
+
+function getStatus(bridge: BridgeHealth): { label: string; className: string } {
+  if (bridge.shutdown) return { label: 'Shut down', className: 'bg-red-100 text-red-700' };
+  if (!bridge.isEnabled) return { label: 'Disabled', className: 'bg-gray-100 text-gray-600' };
+  if (!bridge.isHealthy) return { label: 'Unhealthy', className: 'bg-yellow-100 text-yellow-800' };
+  return { label: 'Healthy', className: 'bg-green-100 text-green-700' };
+}
+
+export default function BridgeStatusPage() {
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+
+  const [bridges, setBridges] = useState<BridgeHealth[]>([]);
+  const [healthConfig, setHealthConfig] = useState<BridgeHealthConfig | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const isSupportedChain = !!getChainKey(chainId);
+
+  // Reload on chain change, manual refresh or any registry event
+  useEffect(() => {
+    if (!publicClient || !isSupportedChain) return;
+
+    let cancelled = false;
+    Promise.all([getBridgeHealth(publicClient, chainId), getBridgeHealthConfig(publicClient, chainId)])
+      .then(([health, config]) => {
+        if (cancelled) return;
+        setBridges(health);
+        setHealthConfig(config);
+        setError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(decodeBridgeError(err).message);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [publicClient, chainId, isSupportedChain, refreshKey]);
+
+  useEffect(() => {
+    if (!publicClient || !isSupportedChain) return;
+    return watchBridgeHealth(publicClient, chainId, () => setRefreshKey(key => key + 1));
+  }, [publicClient, chainId, isSupportedChain]);
+
+  const handleRefresh = () => {
+    setIsLoading(true);
+    setRefreshKey(key => key + 1);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-6 lg:py-8">
+        <div className="text-center mb-6 sm:mb-8">
+          <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold text-gray-900 mb-2 px-2">
+            Bridge Status
+          </h1>
+          <p className="text-sm sm:text-base text-gray-600 max-w-xs sm:max-w-md lg:max-w-2xl mx-auto px-4">
+            Health, reliability and shutdown state of every bridge registered with the Settlement Switch.
+          </p>
+        </div>
+
+        <div className="bg-white max-w-4xl mx-auto rounded-xl sm:rounded-2xl shadow-lg sm:shadow-xl border border-gray-100 overflow-hidden">
+          <div className="p-4 sm:p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="flex items-center font-semibold text-gray-900 text-base sm:text-lg">
+                <Activity className="h-4 w-4 sm:h-5 sm:w-5 text-purple-500 mr-2" />
+                {isSupportedChain ? getChain(chainId).name : 'Unsupported network'}
+              </h3>
+              <button
+                onClick={handleRefresh}
+                disabled={isLoading || !isSupportedChain}
+                className="text-purple-600 hover:text-purple-700 disabled:opacity-40"
+                aria-label="Refresh bridge status"
+              >
+                <RefreshCw className={clsx("h-4 w-4", isLoading && isSupportedChain && "animate-spin")} />
+              </button>
+            </div>
+
+            {healthConfig && (
+              <p className="text-xs sm:text-sm text-gray-600">
+                Health checks every {formatDuration(healthConfig.checkIntervalSeconds)}; a bridge is unhealthy above a{' '}
+                {(healthConfig.failureThresholdBps / 100).toFixed(1)}% failure rate
+                {healthConfig.autoDisable ? ' and is disabled automatically.' : '.'}
+              </p>
+            )}
+
+            {error && (
+              <div className="flex items-center p-3 bg-red-50 border border-red-200 rounded-lg">
+                <AlertCircle className="h-4 w-4 text-red-500 mr-2 flex-shrink-0" />
+                <span className="text-red-700 text-xs sm:text-sm">{error}</span>
+              </div>
+            )}
+
+            {!isSupportedChain ? (
+              <p className="text-sm text-gray-500">Switch to a supported network to see bridge status.</p>
+            ) : bridges.length === 0 && !isLoading && !error ? (
+              <p className="text-sm text-gray-500">No bridges are registered on this network.</p>
+            ) : (
+              <div className="space-y-3">
+                {bridges.map(bridge => {
+                  const status = getStatus(bridge);
+                  const warning = getBridgeHealthWarning(bridge);
+                  return (
+                    <div key={bridge.adapter} className="p-3 sm:p-4 border border-gray-200 rounded-lg space-y-3">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="min-w-0">
+                          <div className="font-medium text-gray-900 text-sm sm:text-base">{bridge.name || 'Unknown Bridge'}</div>
+                          <div className="text-xs text-gray-500 truncate">{bridge.adapter}</div>
+                        </div>
+                        <span className={clsx("px-2 py-1 text-xs rounded-full flex-shrink-0", status.className)}>
+                          {status.label}
+                        </span>
+                      </div>
+
+                      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 sm:gap-4 text-xs sm:text-sm">
+                        <div>
+                          <span className="text-gray-500">Success rate:</span>
+                          <div className="font-medium">
+                            {bridge.totalTransfers > BigInt(0) ? `${(bridge.performance.successRateBps / 100).toFixed(1)}%` : '—'}
+                          </div>
+                        </div>
+                        <div>
+                          <span className="text-gray-500">Avg. completion:</span>
+                          <div className="font-medium">{formatDuration(bridge.performance.avgCompletionTimeSeconds)}</div>
+                        </div>
+                        <div>
+                          <span className="text-gray-500">Reliability:</span>
+                          <div className="font-medium">{bridge.performance.reliabilityScore}/100</div>
+                        </div>
+                        <div>
+                          <span className="text-gray-500">Transfers:</span>
+                          <div className="font-medium">
+                            {bridge.totalTransfers.toString()} ({bridge.failedTransfers.toString()} failed)
+                          </div>
+                        </div>
+                        <div className="col-span-2">
+                          <span className="text-gray-500">Last health check:</span>
+                          <div className="font-medium">{formatTimestamp(bridge.lastHealthCheck)}</div>
+                        </div>
+                        <div className="col-span-2">
+                          <span className="text-gray-500">Route calculator:</span>
+                          <div className="font-medium">
+                            {bridge.routeMetrics ? (bridge.routeMetrics.isHealthy ? 'Routable' : 'Excluded as unhealthy') : 'Not tracked'}
+                          </div>
+                        </div>
+                      </div>
+
+                      {bridge.supportedChains.length > 0 && (
+                        <div className="text-xs text-gray-500">Chains: {bridge.supportedChains.join(', ')}</div>
+                      )}
+
+                      {bridge.lastHealthChange && (
+                        <div className="flex items-center text-xs text-gray-600">
+                          {bridge.lastHealthChange.isHealthy ? (
+                            <CheckCircle className="h-3 w-3 text-green-500 mr-1 flex-shrink-0" />
+                          ) : (
+                            <AlertTriangle className="h-3 w-3 text-yellow-600 mr-1 flex-shrink-0" />
+                          )}
+                          {bridge.lastHealthChange.reason || (bridge.lastHealthChange.isHealthy ? 'Healthy' : 'Unhealthy')} at block{' '}
+                          {bridge.lastHealthChange.blockNumber.toString()}
+                        </div>
+                      )}
+
+                      {bridge.shutdown ? (
+                        <div className="flex items-start p-2 bg-red-50 border border-red-200 rounded-lg text-xs sm:text-sm">
+                          <Power className="h-4 w-4 text-red-500 mr-2 mt-0.5 flex-shrink-0" />
+                          <span className="text-red-700">
+                            Emergency shutdown at block {bridge.shutdown.blockNumber.toString()}
+                            {bridge.shutdown.reason ? `: ${bridge.shutdown.reason}` : ''}
+                            {' '}
+                            <a
+                              href={getExplorerTxUrl(chainId, bridge.shutdown.txHash)}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="underline"
+                            >
+                              View transaction
+                            </a>
+                          </span>
+                        </div>
+                      ) : warning && (
+                        <div className="flex items-start p-2 bg-yellow-50 border border-yellow-200 rounded-lg text-xs sm:text-sm">
+                          <AlertTriangle className="h-4 w-4 text-yellow-600 mr-2 mt-0.5 flex-shrink-0" />
+                          <span className="text-yellow-800">{warning}</span>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -37,6 +37,18 @@ export default function Navbar() {
           >
             Bridge
           </Link>
+          <Link 
+            href="/bridge/status" 
+            className="text-gray-700 hover:text-gray-900 transition-colors duration-200"
+          >
+            Status
+          </Link>
+          <Link 
+            href="/admin" 
+            className="text-gray-700 hover:text-gray-900 transition-colors duration-200"
+          >
+            Admin
+          </Link>
         </div>
 
         {/* Desktop Connect Button */}
@@ -85,6 +97,20 @@ export default function Navbar() {
               >
                 Bridge
               </Link>
+              <Link 
+                href="/bridge/status" 
+                className="block px-3 py-2 text-gray-700 hover:text-gray-900 hover:bg-gray-50 rounded-lg transition-colors duration-200"
+                onClick={() => setIsMenuOpen(false)}
+              >
+                Status
+              </Link>
+              <Link 
+                href="/admin" 
+                className="block px-3 py-2 text-gray-700 hover:text-gray-900 hover:bg-gray-50 rounded-lg transition-colors duration-200"
+                onClick={() => setIsMenuOpen(false)}
+              >
+                Admin
+              </Link>
             </div>
             
             {/* Mobile Connect Button */}
@@ -1,15 +1,14 @@
-import { createConfig, http } from 'wagmi'
-import { mainnet, sepolia, arbitrumSepolia, arbitrum } from 'wagmi/chains'
-import { CHAIN_CONFIG } from '@/lib/addresses'
+import { createConfig, fallback, http } from 'wagmi'
+import type { Chain } from 'viem'
+import { CHAINS, CHAIN_KEYS, toViemChain } from '@/lib/chains'
+
+// Every network in the chain registry, each with its RPCs tried in order
+const chains = CHAIN_KEYS.map(key => toViemChain(CHAINS[key])) as [Chain, ...Chain[]]
 
 export const config = createConfig({
-  // Include mainnet and Arbitrum One for production bridging
-  chains: [sepolia, arbitrumSepolia, mainnet, arbitrum],
+  chains,
   ssr: true,
-  transports: {
-    [sepolia.id]: http(CHAIN_CONFIG.sepolia.rpcUrls.public.http[0]),
-    [arbitrumSepolia.id]: http(CHAIN_CONFIG.arbitrumSepolia.rpcUrls.public.http[0]),
-    [mainnet.id]: http(CHAIN_CONFIG.mainnet.rpcUrls.public.http[0]),
-    [arbitrum.id]: http(CHAIN_CONFIG.arbitrumOne.rpcUrls.public.http[0]),
-  },
+  transports: Object.fromEntries(
+    CHAIN_KEYS.map(key => [CHAINS[key].id, fallback(CHAINS[key].rpcUrls.map(url => http(url)))])
+  ),
 })
@@ -0,0 +1,158 @@
+'use client';
+
+import { useState, type ReactNode } from 'react';
+import { AlertCircle, CheckCircle, Lock } from 'lucide-react';
+import clsx from 'clsx';
+import { getExplorerTxUrl } from '@/lib/chains';
+import type { Simulation } from '@/lib/services/simulation';
+import { decodeBridgeError } from '@/lib/errors';
+
+export interface AdminActionResult {
+  hash: `0x${string}`;
+  events?: string[]; // Names of the events the transaction emitted, where the contract's ABI declares them
+}
+
+interface AdminActionCardProps {
+  title: string;
+  description: string;
+  role: string;
+  hasRole: boolean;
+  chainId: number;
+  actionKey: string | null; // Identifies the current inputs; null while they are invalid
+  validationError?: string | null;
+  simulate: () => Promise<Simulation<unknown>>;
+  send: () => Promise<AdminActionResult>;
+  onSent?: () => void;
+  tone?: 'danger';
+  children?: ReactNode;
+}
+
+// One admin call: typed inputs, a dry run against current state, then the wallet prompt.
+// Sending stays disabled until the exact inputs on screen have simulated cleanly.
+export default function AdminActionCard({
+  title,
+  description,
+  role,
+  hasRole,
+  chainId,
+  actionKey,
+  validationError,
+  simulate,
+  send,
+  onSent,
+  tone,
+  children
+}: AdminActionCardProps) {
+  const [simulatedKey, setSimulatedKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSimulating, setIsSimulating] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [result, setResult] = useState<AdminActionResult | null>(null);
+
+  const isReady = actionKey !== null && simulatedKey === actionKey;
+
+  const handleSimulate = async () => {
+    if (actionKey === null) return;
+    setIsSimulating(true);
+    setError(null);
+    setResult(null);
+    try {
+      const simulation = await simulate();
+      if (simulation.error) {
+        setSimulatedKey(null);
+        setError(simulation.error.message);
+      } else {
+        setSimulatedKey(actionKey);
+      }
+    } catch (err) {
+      // simulate throws without a connected wallet or when the RPC fails; report it like a send error
+      setSimulatedKey(null);
+      setError(decodeBridgeError(err).message);
+    } finally {
+      setIsSimulating(false);
+    }
+  };
+
+  const handleSend = async () => {
+    setIsSending(true);
+    setError(null);
+    try {
+      setResult(await send());
+      setSimulatedKey(null);
+      onSent?.();
+    } catch (err) {
+      setError(decodeBridgeError(err).message);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="p-3 sm:p-4 border border-gray-200 rounded-lg space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <div className="font-medium text-gray-900 text-sm sm:text-base">{title}</div>
+          <p className="text-xs text-gray-500">{description}</p>
+        </div>
+        <span
+          className={clsx(
+            "flex items-center px-2 py-1 text-xs rounded-full flex-shrink-0",
+            hasRole ? "bg-green-100 text-green-700" : "bg-gray-100 text-gray-500"
+          )}
+        >
+          {!hasRole && <Lock className="h-3 w-3 mr-1" />}
+          {role}
+        </span>
+      </div>
+
+      <fieldset disabled={!hasRole || isSending} className="space-y-2">
+        {children}
+      </fieldset>
+
+      {validationError && <p className="text-xs text-red-600">{validationError}</p>}
+
+      {error && (
+        <div className="flex items-center p-2 bg-red-50 border border-red-200 rounded-lg">
+          <AlertCircle className="h-4 w-4 text-red-500 mr-2 flex-shrink-0" />
+          <span className="text-red-700 text-xs sm:text-sm">{error}</span>
+        </div>
+      )}
+
+      {isReady && !error && (
+        <div className="flex items-center text-xs text-green-700">
+          <CheckCircle className="h-3 w-3 mr-1" />
+          Simulation succeeded. Ready to send.
+        </div>
+      )}
+
+      {result && (
+        <div className="text-xs text-gray-600">
+          {result.events && (result.events.length > 0 ? `Emitted ${result.events.join(', ')}. ` : 'No events emitted. ')}
+          <a href={getExplorerTxUrl(chainId, result.hash)} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline">
+            View transaction
+          </a>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleSimulate}
+          disabled={!hasRole || actionKey === null || isSimulating || isSending}
+          className="px-3 py-2 text-xs sm:text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg disabled:opacity-40"
+        >
+          {isSimulating ? 'Simulating...' : 'Simulate'}
+        </button>
+        <button
+          onClick={handleSend}
+          disabled={!hasRole || !isReady || isSending}
+          className={clsx(
+            "px-3 py-2 text-xs sm:text-sm font-medium text-white rounded-lg disabled:opacity-40",
+            tone === 'danger' ? "bg-red-600 hover:bg-red-700" : "bg-purple-600 hover:bg-purple-700"
+          )}
+        >
+          {isSending ? 'Sending...' : 'Send'}
+        </button>
+      </div>
+    </div>
+  );
+}
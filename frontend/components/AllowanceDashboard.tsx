@@ -0,0 +1,180 @@
+'use client';
+
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { useAccount, useChainId, usePublicClient, useWalletClient } from 'wagmi';
+import { ShieldCheck, RefreshCw, AlertCircle } from 'lucide-react';
+import clsx from 'clsx';
+import { formatTokenAmount } from '@/lib/tokens';
+import { getChainKey } from '@/lib/chains';
+import {
+  DEFAULT_APPROVAL_POLICY,
+  getApprovalPolicy,
+  setApprovalPolicy,
+  subscribeApprovalPolicy,
+  type ApprovalPolicyMode
+} from '@/lib/services/approvalPolicy';
+import { getAllowances, revokeAllowance, type TokenAllowance } from '@/lib/services/allowances';
+import { decodeBridgeError } from '@/lib/errors';
+
+const POLICY_OPTIONS: { mode: ApprovalPolicyMode; label: string; description: string }[] = [
+  { mode: 'exact', label: 'Exact', description: 'Approve only the amount being bridged' },
+  { mode: 'buffer', label: 'Exact + buffer', description: 'Approve a little extra to skip approvals on repeat transfers' },
+  { mode: 'unlimited', label: 'Unlimited', description: 'Approve once per token and contract' }
+];
+
+export default function AllowanceDashboard() {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  const { data: walletClient } = useWalletClient();
+
+  const policy = useSyncExternalStore(subscribeApprovalPolicy, getApprovalPolicy, () => DEFAULT_APPROVAL_POLICY);
+
+  const [allowances, setAllowances] = useState<TokenAllowance[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  // Reload whenever the wallet, chain or refresh counter changes
+  useEffect(() => {
+    if (!publicClient || !address || !getChainKey(chainId)) return;
+
+    let cancelled = false;
+    getAllowances(publicClient, address, chainId)
+      .then(result => {
+        if (!cancelled) setAllowances(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(decodeBridgeError(err).message);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [publicClient, address, chainId, refreshKey]);
+
+  const handleRefresh = () => {
+    setIsLoading(true);
+    setError(null);
+    setRefreshKey(key => key + 1);
+  };
+
+  const handleRevoke = async (entry: TokenAllowance) => {
+    if (!walletClient || !publicClient || !address) return;
+
+    const key = `${entry.token.address}:${entry.spender}`;
+    setRevoking(key);
+    setError(null);
+    try {
+      await revokeAllowance(walletClient, publicClient, { token: entry.token.address, owner: address, spender: entry.spender });
+      setAllowances(current => current.filter(item => item !== entry));
+    } catch (err) {
+      setError(decodeBridgeError(err).message);
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  return (
+    <div className="p-4 sm:p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center font-semibold text-gray-900 text-base sm:text-lg">
+          <ShieldCheck className="h-4 w-4 sm:h-5 sm:w-5 text-purple-500 mr-2" />
+          Token Approvals
+        </h3>
+        <button
+          onClick={handleRefresh}
+          disabled={isLoading || !address}
+          className="text-purple-600 hover:text-purple-700 disabled:opacity-40"
+          aria-label="Refresh allowances"
+        >
+          <RefreshCw className={clsx("h-4 w-4", isLoading && "animate-spin")} />
+        </button>
+      </div>
+
+      {/* Approval Policy */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Approval policy</label>
+        <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-2">
+          {POLICY_OPTIONS.map(option => (
+            <button
+              key={option.mode}
+              onClick={() => setApprovalPolicy({ ...policy, mode: option.mode })}
+              title={option.description}
+              className={clsx(
+                "flex-1 px-3 py-2 rounded-lg font-medium transition-colors text-sm",
+                policy.mode === option.mode
+                  ? "bg-purple-200 text-purple-700 border-2 border-purple-300"
+                  : "bg-gray-50 text-gray-600 border-2 border-transparent hover:bg-gray-100"
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {policy.mode === 'buffer' && (
+          <div className="mt-2 flex items-center text-sm text-gray-600">
+            <span className="mr-2">Buffer</span>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={policy.bufferBps / 100}
+              onChange={(e) => setApprovalPolicy({ ...policy, bufferBps: Number(e.target.value) * 100 })}
+              className="w-20 px-2 py-1 border border-gray-300 rounded-lg text-sm"
+            />
+            <span className="ml-1">%</span>
+          </div>
+        )}
+        {policy.mode === 'unlimited' && (
+          <p className="mt-2 text-xs text-yellow-700">
+            Unlimited approvals let the contract move any amount of the token until you revoke them.
+          </p>
+        )}
+      </div>
+
+      {/* Current Allowances */}
+      <div className="space-y-2">
+        {!address ? (
+          <p className="text-sm text-gray-500">Connect a wallet to see its approvals.</p>
+        ) : allowances.length === 0 && !isLoading ? (
+          <p className="text-sm text-gray-500">No active approvals on this network.</p>
+        ) : (
+          allowances.map(entry => {
+            const key = `${entry.token.address}:${entry.spender}`;
+            return (
+              <div key={key} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-xs sm:text-sm">
+                <div>
+                  <div className="font-medium text-gray-900">
+                    {entry.isUnlimited ? 'Unlimited' : formatTokenAmount(entry.allowance, entry.token)} {entry.token.symbol}
+                  </div>
+                  <div className="text-gray-600">
+                    {entry.spenderName} ({entry.spender.slice(0, 6)}...{entry.spender.slice(-4)})
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleRevoke(entry)}
+                  disabled={revoking !== null || !walletClient}
+                  className="px-3 py-1 rounded-lg border border-red-200 text-red-600 hover:bg-red-50 disabled:opacity-40"
+                >
+                  {revoking === key ? 'Revoking...' : 'Revoke'}
+                </button>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {error && (
+        <div className="flex items-center p-3 bg-red-50 border border-red-200 rounded-lg">
+          <AlertCircle className="h-4 w-4 text-red-500 mr-2 flex-shrink-0" />
+          <span className="text-red-700 text-xs sm:text-sm">{error}</span>
+        </div>
+      )}
+    </div>
+  );
+}
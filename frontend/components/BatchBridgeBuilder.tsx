@@ -0,0 +1,310 @@
+'use client';
+
+import { useState } from 'react';
+import { useAccount, useChainId, usePublicClient, useWalletClient } from 'wagmi';
+import { Plus, Trash2, Clock, DollarSign, Layers, AlertCircle } from 'lucide-react';
+import clsx from 'clsx';
+import { formatUnits, isAddress } from 'viem';
+import { CHAINS, CHAIN_KEYS, type ChainKey } from '@/lib/chains';
+import { findToken, formatTokenAmount, getCounterpartToken, getTokensForChain, parseTokenAmount } from '@/lib/tokens';
+import {
+  createRoutePreferences,
+  estimateBatch,
+  executeBatchBridge,
+  findMultipleRoutes,
+  RoutingMode,
+  type BatchBridgeItem,
+  type BatchEstimate,
+  type BatchExecutionResult
+} from '@/lib/services/settlementSwitch';
+import { decodeBridgeError } from '@/lib/errors';
+
+interface BatchRow {
+  id: number;
+  tokenSymbol: string;
+  amount: string;
+  toChain: ChainKey;
+  recipient: string;
+}
+
+// One submitted row, matched to the transfer it produced
+export interface BatchSubmittedTransfer {
+  transferId: `0x${string}`;
+  adapter: `0x${string}`;
+  tokenSymbol: string;
+  amount: string;
+  toChain: ChainKey;
+}
+
+interface BatchBridgeBuilderProps {
+  fromChain: ChainKey;
+  routingMode: RoutingMode;
+  disabled?: boolean;
+  onSubmitted: (result: BatchExecutionResult, transfers: BatchSubmittedTransfer[]) => void;
+}
+
+type BatchStep = 'idle' | 'quoting' | 'submitting';
+
+let nextRowId = 1;
+
+export default function BatchBridgeBuilder({
+  fromChain,
+  routingMode,
+  disabled = false,
+  onSubmitted
+}: BatchBridgeBuilderProps) {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  const { data: walletClient } = useWalletClient();
+
+  const srcChainId = CHAINS[fromChain].id;
+  // Native ETH cannot be batched, so only ERC-20 tokens are offered
+  const tokens = getTokensForChain(srcChainId).filter(token => !token.isNative);
+  const destinations = CHAIN_KEYS.filter(key => key !== fromChain);
+
+  const createRow = (): BatchRow => ({
+    id: nextRowId++,
+    tokenSymbol: tokens[0]?.symbol ?? '',
+    amount: '',
+    toChain: destinations[0],
+    recipient: ''
+  });
+
+  const [rows, setRows] = useState<BatchRow[]>(() => [createRow()]);
+  const [items, setItems] = useState<BatchBridgeItem[] | null>(null);
+  const [estimate, setEstimate] = useState<BatchEstimate | null>(null);
+  const [step, setStep] = useState<BatchStep>('idle');
+  const [error, setError] = useState<string | null>(null);
+
+  // Any edit invalidates the current quote
+  const updateRow = (id: number, updates: Partial<Omit<BatchRow, 'id'>>) => {
+    setRows(current => current.map(row => (row.id === id ? { ...row, ...updates } : row)));
+    setItems(null);
+    setEstimate(null);
+  };
+
+  const addRow = () => {
+    setRows(current => [...current, createRow()]);
+    setItems(null);
+    setEstimate(null);
+  };
+
+  const removeRow = (id: number) => {
+    setRows(current => current.filter(row => row.id !== id));
+    setItems(null);
+    setEstimate(null);
+  };
+
+  // Quote every row with its best route and combine the estimates
+  const handleQuote = async () => {
+    if (!publicClient || !address) return;
+
+    setStep('quoting');
+    setError(null);
+
+    try {
+      const preferences = createRoutePreferences(routingMode);
+      const quoted: BatchBridgeItem[] = [];
+
+      for (const [index, row] of rows.entries()) {
+        const token = findToken(row.tokenSymbol, srcChainId);
+        const dstChainId = CHAINS[row.toChain].id;
+        const tokenOut = token && getCounterpartToken(token, dstChainId);
+        if (!token || !tokenOut) {
+          throw new Error(`Row ${index + 1}: ${row.tokenSymbol} is not available on ${CHAINS[row.toChain].name}`);
+        }
+        const recipient = row.recipient || address;
+        if (!isAddress(recipient)) {
+          throw new Error(`Row ${index + 1}: ${recipient} is not a valid recipient address`);
+        }
+
+        const result = await findMultipleRoutes(
+          publicClient,
+          token.symbol,
+          tokenOut.symbol,
+          parseTokenAmount(row.amount, token),
+          srcChainId,
+          dstChainId,
+          1,
+          preferences,
+          chainId
+        );
+
+        quoted.push({
+          route: result.bestRoute,
+          recipient
+        });
+      }
+
+      setItems(quoted);
+      setEstimate(estimateBatch(quoted));
+    } catch (err) {
+      setError(decodeBridgeError(err).message);
+      setItems(null);
+      setEstimate(null);
+    } finally {
+      setStep('idle');
+    }
+  };
+
+  // The service simulates the batch, approves each token and sends the whole batch in one transaction
+  const handleSubmit = async () => {
+    if (!walletClient || !publicClient || !address || !items) return;
+
+    setError(null);
+
+    try {
+      setStep('submitting');
+      const result = await executeBatchBridge(walletClient, publicClient, items, address, chainId);
+
+      onSubmitted(
+        result,
+        result.transferIds.map((transferId, index) => ({
+          transferId,
+          adapter: items[index].route.adapter,
+          tokenSymbol: rows[index].tokenSymbol,
+          amount: rows[index].amount,
+          toChain: rows[index].toChain
+        }))
+      );
+
+      setRows([createRow()]);
+      setItems(null);
+      setEstimate(null);
+    } catch (err) {
+      setError(decodeBridgeError(err).message);
+    } finally {
+      setStep('idle');
+    }
+  };
+
+  const isBusy = step !== 'idle' || disabled;
+  const canQuote = rows.length > 0 && rows.every(row => row.tokenSymbol && row.amount && Number(row.amount) > 0);
+
+  return (
+    <div className="p-4 sm:p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center font-semibold text-gray-900 text-base sm:text-lg">
+          <Layers className="h-4 w-4 sm:h-5 sm:w-5 text-purple-500 mr-2" />
+          Batch Transfers
+        </h3>
+        <span className="text-xs sm:text-sm text-gray-500">From {CHAINS[fromChain].name}</span>
+      </div>
+
+      <div className="space-y-3">
+        {rows.map((row, index) => (
+          <div key={row.id} className="grid grid-cols-1 sm:grid-cols-12 gap-2 items-center">
+            <select
+              value={row.tokenSymbol}
+              onChange={(e) => updateRow(row.id, { tokenSymbol: e.target.value })}
+              disabled={isBusy}
+              className="sm:col-span-2 px-2 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              {tokens.map(token => (
+                <option key={token.symbol} value={token.symbol}>{token.symbol}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              value={row.amount}
+              onChange={(e) => updateRow(row.id, { amount: e.target.value })}
+              placeholder="0.0"
+              disabled={isBusy}
+              className="sm:col-span-2 px-2 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <select
+              value={row.toChain}
+              onChange={(e) => updateRow(row.id, { toChain: e.target.value as ChainKey })}
+              disabled={isBusy}
+              className="sm:col-span-3 px-2 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              {destinations.map(key => (
+                <option key={key} value={key}>{CHAINS[key].name}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={row.recipient}
+              onChange={(e) => updateRow(row.id, { recipient: e.target.value })}
+              placeholder={address || 'Recipient address'}
+              disabled={isBusy}
+              className="sm:col-span-4 px-2 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <button
+              onClick={() => removeRow(row.id)}
+              disabled={isBusy || rows.length === 1}
+              className="sm:col-span-1 flex justify-center text-gray-400 hover:text-red-500 disabled:opacity-40"
+              aria-label={`Remove transfer ${index + 1}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={addRow}
+        disabled={isBusy}
+        className="flex items-center text-purple-600 hover:text-purple-700 text-sm font-medium"
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add transfer
+      </button>
+
+      {/* Combined Estimate */}
+      {estimate && (
+        <div className="p-3 sm:p-4 bg-gray-50 rounded-lg space-y-2 text-xs sm:text-sm">
+          {estimate.tokens.map(total => {
+            const token = findToken(total.token, srcChainId);
+            const decimals = token ?? { decimals: 18 };
+            return (
+              <div key={total.token} className="flex items-center justify-between">
+                <span className="text-gray-600">
+                  {formatTokenAmount(total.amount, decimals)} {token?.symbol}
+                </span>
+                <span className="flex items-center">
+                  <DollarSign className="h-3 w-3 sm:h-4 sm:w-4 text-gray-400 mr-1" />
+                  Fees: {formatTokenAmount(total.cost, decimals)} {token?.symbol}
+                </span>
+              </div>
+            );
+          })}
+          <div className="flex items-center justify-between pt-2 border-t border-gray-200">
+            <span className="text-gray-600">Gas: {Number(formatUnits(estimate.totalGasCost, 18)).toFixed(6)} ETH</span>
+            <span className="flex items-center">
+              <Clock className="h-3 w-3 sm:h-4 sm:w-4 text-gray-400 mr-1" />
+              Up to {estimate.maxTimeMinutes.toString()} min
+            </span>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center p-3 bg-red-50 border border-red-200 rounded-lg">
+          <AlertCircle className="h-4 w-4 text-red-500 mr-2 flex-shrink-0" />
+          <span className="text-red-700 text-xs sm:text-sm">{error}</span>
+        </div>
+      )}
+
+      <button
+        onClick={estimate ? handleSubmit : handleQuote}
+        disabled={isBusy || !canQuote || !address}
+        className={clsx(
+          "w-full py-3 px-4 rounded-lg font-semibold text-white transition-colors text-sm sm:text-base",
+          !isBusy && canQuote && address
+            ? "bg-purple-600 hover:bg-purple-700"
+            : "bg-gray-300 cursor-not-allowed"
+        )}
+      >
+        {step === 'quoting'
+          ? 'Quoting...'
+          : step === 'submitting'
+            ? 'Submitting batch...'
+            : estimate
+              ? `Approve & Send ${rows.length} Transfers`
+              : 'Get Batch Quote'}
+      </button>
+    </div>
+  );
+}
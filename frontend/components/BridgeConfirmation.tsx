@@ -0,0 +1,120 @@
+'use client';
+
+import { formatUnits } from 'viem';
+import { AlertCircle, CheckCircle, ShieldCheck } from 'lucide-react';
+import clsx from 'clsx';
+import type { Simulation } from '@/lib/services/simulation';
+
+export interface ConfirmationDetail {
+  label: string;
+  value: string;
+}
+
+export interface ConfirmationChange {
+  label: string;
+  before: string;
+  after: string;
+  worse: boolean;
+}
+
+interface BridgeConfirmationProps {
+  simulation: Simulation<unknown>;
+  details: ConfirmationDetail[]; // Expected outcome, taken from the simulated call
+  changes?: ConfirmationChange[]; // How the quote moved since the user last saw it
+  nativeCurrency: { symbol: string; decimals: number };
+  isSubmitting: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Pre-flight result shown between "Bridge" and the wallet prompt
+export default function BridgeConfirmation({
+  simulation,
+  details,
+  changes = [],
+  nativeCurrency,
+  isSubmitting,
+  onConfirm,
+  onCancel
+}: BridgeConfirmationProps) {
+  const { error, requiresApproval, value, result } = simulation;
+
+  return (
+    <div className="p-4 rounded-xl border border-gray-200 bg-gray-50 space-y-3 text-sm">
+      <div className="flex items-center font-semibold text-gray-900">
+        <ShieldCheck className="h-4 w-4 text-purple-500 mr-2" />
+        Confirm transfer
+      </div>
+
+      {error ? (
+        <div className="flex items-start p-3 bg-red-50 border border-red-200 rounded-lg">
+          <AlertCircle className="h-4 w-4 text-red-500 mr-2 mt-0.5 flex-shrink-0" />
+          <span className="text-red-700">This transfer would revert: {error.message}</span>
+        </div>
+      ) : result ? (
+        <div className="flex items-center p-3 bg-green-50 border border-green-200 rounded-lg">
+          <CheckCircle className="h-4 w-4 text-green-500 mr-2 flex-shrink-0" />
+          <span className="text-green-700">Simulation succeeded against the current chain state.</span>
+        </div>
+      ) : requiresApproval ? (
+        <div className="flex items-start p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+          <AlertCircle className="h-4 w-4 text-yellow-600 mr-2 mt-0.5 flex-shrink-0" />
+          <span className="text-yellow-800">
+            Transfer checks passed. The token transfer itself is checked again after you approve the spend.
+          </span>
+        </div>
+      ) : null}
+
+      {changes.length > 0 && (
+        <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg space-y-1">
+          <div className="font-medium text-yellow-800">The quote changed since it was shown</div>
+          {changes.map(change => (
+            <div key={change.label} className="flex justify-between text-xs sm:text-sm">
+              <span className="text-gray-600">{change.label}</span>
+              <span className={clsx("font-medium", change.worse ? "text-red-600" : "text-green-600")}>
+                {change.before} → {change.after}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-1">
+        {details.map(detail => (
+          <div key={detail.label} className="flex justify-between">
+            <span className="text-gray-600">{detail.label}</span>
+            <span className="font-medium text-gray-900 break-all text-right ml-4">{detail.value}</span>
+          </div>
+        ))}
+        <div className="flex justify-between">
+          <span className="text-gray-600">Native value sent</span>
+          <span className="font-medium text-gray-900">
+            {formatUnits(value, nativeCurrency.decimals)} {nativeCurrency.symbol}
+          </span>
+        </div>
+      </div>
+
+      <div className="flex space-x-2">
+        <button
+          onClick={onCancel}
+          disabled={isSubmitting}
+          className="flex-1 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-40"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={onConfirm}
+          disabled={isSubmitting || !!error}
+          className={clsx(
+            "flex-1 py-2 rounded-lg font-semibold transition-colors",
+            isSubmitting || error
+              ? "bg-gray-300 text-gray-500 cursor-not-allowed"
+              : "bg-purple-600 hover:bg-purple-700 text-white"
+          )}
+        >
+          {isSubmitting ? 'Confirming...' : changes.length > 0 ? 'Accept & Sign' : 'Confirm & Sign'}
+        </button>
+      </div>
+    </div>
+  );
+}
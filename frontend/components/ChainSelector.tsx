@@ -3,44 +3,25 @@
 import React, { useState } from 'react';
 import { ChevronDown, CheckCircle } from 'lucide-react';
 import { clsx } from 'clsx';
+import { CHAINS, CHAIN_KEYS, type ChainKey } from '@/lib/chains';
 
 interface ChainOption {
   chainId: number;
   name: string;
   iconUrl: string;
-  key: string;
+  key: ChainKey;
 }
 
-const CHAIN_OPTIONS: ChainOption[] = [
-  {
-    chainId: 11155111,
-    name: 'Ethereum Sepolia',
-    iconUrl: 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMzIiIGhlaWdodD0iMzIiIHZpZXdCb3g9IjAgMCAzMiAzMiIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPGNpcmNsZSBjeD0iMTYiIGN5PSIxNiIgcj0iMTYiIGZpbGw9IiM2MjdFRUEiLz4KPHBhdGggZD0iTTE2LjQ5OCAyTDE2LjM3MyAyLjQyNFYyMS4zNDRMMTYuNDk4IDIxLjQ2OUwyNS4xMjMgMTYuNzQ0TDE2LjQ5OCAyWiIgZmlsbD0id2hpdGUiIGZpbGwtb3BhY2l0eT0iMC42MDIiLz4KPHBhdGggZD0iTTE2LjQ5OCAyTDcuODc1IDE2Ljc0NEwxNi40OTggMjEuNDY5VjEyLjE4NlYyWiIgZmlsbD0id2hpdGUiLz4KPHBhdGggZD0iTTE2LjQ5OCAyMy4yMDNMMTYuNDIzIDIzLjI5NVYyOS43NjhMMTYuNDk4IDMwTDI1LjEyOCAxOC40OEwxNi40OTggMjMuMjAzWiIgZmlsbD0id2hpdGUiIGZpbGwtb3BhY2l0eT0iMC42MDIiLz4KPHBhdGggZD0iTTE2LjQ5OCAzMFYyMy4yMDNMNy44NzUgMTguNDhMMTYuNDk4IDMwWiIgZmlsbD0id2hpdGUiLz4KPHBhdGggZD0iTTE2LjQ5OCAyMS40NjlMMjUuMTIzIDE2Ljc0NEwxNi40OTggMTIuMTg2VjIxLjQ2OVoiIGZpbGw9IndoaXRlIiBmaWxsLW9wYWNpdHk9IjAuMiIvPgo8cGF0aCBkPSJNNy44NzUgMTYuNzQ0TDE2LjQ5OCAyMS40NjlWMTIuMTg2TDcuODc1IDE2Ljc0NFoiIGZpbGw9IndoaXRlIiBmaWxsLW9wYWNpdHk9IjAuNjAyIi8+Cjwvc3ZnPgo=',
-    key: 'sepolia'
-  },
-  {
-    chainId: 421614,
-    name: 'Arbitrum Sepolia',
-    iconUrl: 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMzIiIGhlaWdodD0iMzIiIHZpZXdCb3g9IjAgMCAzMiAzMiIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPGNpcmNsZSBjeD0iMTYiIGN5PSIxNiIgcj0iMTYiIGZpbGw9IiMyRDM3NEIiLz4KPHBhdGggZD0iTTEwLjUgMjJIMjEuNUwxOSAyNkgxM0wxMC41IDIyWiIgZmlsbD0iIzI4QTJGRiIvPgo8cGF0aCBkPSJNMTYgNkwxMC41IDIySDIxLjVMMTYgNloiIGZpbGw9IiM5NkJFRkYiLz4KPHBhdGggZD0iTTE2IDZMMTMgMjJIMTlMMTYgNloiIGZpbGw9IiMyOEEyRkYiLz4KPC9zdmc+Cg==',
-    key: 'arbitrumSepolia'
-  },
-  {
-    chainId: 1,
-    name: 'Ethereum Mainnet',
-    iconUrl: 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMzIiIGhlaWdodD0iMzIiIHZpZXdCb3g9IjAgMCAzMiAzMiIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPGNpcmNsZSBjeD0iMTYiIGN5PSIxNiIgcj0iMTYiIGZpbGw9IiM2MjdFRUEiLz4KPHBhdGggZD0iTTE2LjQ5OCAyTDE2LjM3MyAyLjQyNFYyMS4zNDRMMTYuNDk4IDIxLjQ2OUwyNS4xMjMgMTYuNzQ0TDE2LjQ5OCAyWiIgZmlsbD0id2hpdGUiIGZpbGwtb3BhY2l0eT0iMC42MDIiLz4KPHBhdGggZD0iTTE2LjQ5OCAyTDcuODc1IDE2Ljc0NEwxNi40OTggMjEuNDY5VjEyLjE4NlYyWiIgZmlsbD0id2hpdGUiLz4KPHBhdGggZD0iTTE2LjQ5OCAyMy4yMDNMMTYuNDIzIDIzLjI5NVYyOS43NjhMMTYuNDk4IDMwTDI1LjEyOCAxOC40OEwxNi40OTggMjMuMjAzWiIgZmlsbD0id2hpdGUiIGZpbGwtb3BhY2l0eT0iMC42MDIiLz4KPHBhdGggZD0iTTE2LjQ5OCAzMFYyMy4yMDNMNy44NzUgMTguNDhMMTYuNDk4IDMwWiIgZmlsbD0id2hpdGUiLz4KPHBhdGggZD0iTTE2LjQ5OCAyMS40NjlMMjUuMTIzIDE2Ljc0NEwxNi40OTggMTIuMTg2VjIxLjQ2OVoiIGZpbGw9IndoaXRlIiBmaWxsLW9wYWNpdHk9IjAuMiIvPgo8cGF0aCBkPSJNNy44NzUgMTYuNzQ0TDE2LjQ5OCAyMS40NjlWMTIuMTg2TDcuODc1IDE2Ljc0NFoiIGZpbGw9IndoaXRlIiBmaWxsLW9wYWNpdHk9IjAuNjAyIi8+Cjwvc3ZnPgo=',
-    key: 'mainnet'
-  },
-  {
-    chainId: 42161,
-    name: 'Arbitrum One',
-    iconUrl: 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMzIiIGhlaWdodD0iMzIiIHZpZXdCb3g9IjAgMCAzMiAzMiIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPGNpcmNsZSBjeD0iMTYiIGN5PSIxNiIgcj0iMTYiIGZpbGw9IiMyRDM3NEIiLz4KPHBhdGggZD0iTTEwLjUgMjJIMjEuNUwxOSAyNkgxM0wxMC41IDIyWiIgZmlsbD0iIzI4QTJGRiIvPgo8cGF0aCBkPSJNMTYgNkwxMC41IDIySDIxLjVMMTYgNloiIGZpbGw9IiM5NkJFRkYiLz4KPHBhdGggZD0iTTE2IDZMMTMgMjJIMTlMMTYgNloiIGZpbGw9IiMyOEEyRkYiLz4KPC9zdmc+Cg==',
-    key: 'arbitrumOne'
-  }
-];
+const CHAIN_OPTIONS: ChainOption[] = CHAIN_KEYS.map(key => ({
+  chainId: CHAINS[key].id,
+  name: CHAINS[key].name,
+  iconUrl: CHAINS[key].iconUrl,
+  key
+}));
 
 interface ChainSelectorProps {
-  selectedChain: string;
-  onChainSelect: (chain: string) => void;
+  selectedChain: ChainKey;
+  onChainSelect: (chain: ChainKey) => void;
   disabled?: boolean;
   className?: string;
 }
@@ -55,7 +36,7 @@ export default function ChainSelector({
 
   const selectedOption = CHAIN_OPTIONS.find(option => option.key === selectedChain);
 
-  const handleChainSelect = (chainKey: string) => {
+  const handleChainSelect = (chainKey: ChainKey) => {
     onChainSelect(chainKey);
     setIsOpen(false);
   };
@@ -0,0 +1,60 @@
+'use client';
+
+import clsx from 'clsx';
+import { formatTokenAmount } from '@/lib/tokens';
+import type { ProtocolFeeQuote } from '@/lib/services/fees';
+
+export interface FeeBreakdownItem {
+  label: string;
+  value: string;
+  tone?: 'discount' | 'total'; // Discounts render green; the total row is separated and bold
+}
+
+interface FeeBreakdownProps {
+  items: FeeBreakdownItem[];
+  title?: string;
+}
+
+// Protocol fee rows: the undiscounted fee, then the payer's exemption or discount
+export function protocolFeeItems(
+  quote: ProtocolFeeQuote,
+  nativeCurrency: { symbol: string; decimals: number }
+): FeeBreakdownItem[] {
+  const format = (value: bigint) => `${formatTokenAmount(value, nativeCurrency)} ${nativeCurrency.symbol}`;
+  const items: FeeBreakdownItem[] = [{ label: 'Protocol fee', value: format(quote.grossFee) }];
+
+  if (quote.exempt) {
+    items.push({ label: 'Fee exemption', value: `-${format(quote.discount)}`, tone: 'discount' });
+  } else if (quote.discount > BigInt(0)) {
+    items.push({ label: `Discount (${quote.discountBps / 100}%)`, value: `-${format(quote.discount)}`, tone: 'discount' });
+  }
+  return items;
+}
+
+// Itemized costs of a transfer, each in the unit it is actually paid in
+export default function FeeBreakdown({ items, title = 'Fee breakdown' }: FeeBreakdownProps) {
+  if (items.length === 0) return null;
+
+  return (
+    <div className="space-y-1 text-xs sm:text-sm">
+      <div className="font-medium text-gray-900">{title}</div>
+      {items.map(item => (
+        <div
+          key={item.label}
+          className={clsx("flex justify-between", item.tone === 'total' && "pt-1 mt-1 border-t border-gray-200")}
+        >
+          <span className="text-gray-600">{item.label}</span>
+          <span
+            className={clsx(
+              "text-right ml-4",
+              item.tone === 'discount' ? "text-green-600" : "text-gray-900",
+              item.tone === 'total' ? "font-semibold" : "font-medium"
+            )}
+          >
+            {item.value}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
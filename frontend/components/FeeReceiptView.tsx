@@ -0,0 +1,149 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Download, AlertCircle, RefreshCw } from 'lucide-react';
+import { CHAINS, findChain, getExplorerTxUrl } from '@/lib/chains';
+import { formatTokenAmount } from '@/lib/tokens';
+import { getFeeReceipt, feeReceiptToCsv, feeReceiptToJson, type DestinationStatus, type FeeReceipt } from '@/lib/services/feeReceipts';
+import { getTrackerClient } from '@/lib/services/transferTracker';
+import type { HistoryTransaction } from '@/lib/services/transactionHistory';
+import { decodeBridgeError } from '@/lib/errors';
+import FeeBreakdown, { type FeeBreakdownItem } from './FeeBreakdown';
+
+interface FeeReceiptViewProps {
+  transaction: HistoryTransaction;
+}
+
+function downloadFile(contents: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const DESTINATION_STATUS_LABELS: Record<DestinationStatus, string> = {
+  completed: 'Completed',
+  failed: 'Failed',
+  pending: 'Pending',
+  unknown: 'Unknown (older than the destination lookup window)'
+};
+
+function receiptItems(receipt: FeeReceipt): FeeBreakdownItem[] {
+  const nativeCurrency = findChain(receipt.chainId)?.nativeCurrency ?? { symbol: 'ETH', decimals: 18 };
+  const items: FeeBreakdownItem[] = receipt.fees.map((fee, index) => ({
+    label: `${fee.feeType.charAt(0).toUpperCase()}${fee.feeType.slice(1)} fee${receipt.fees.length > 1 ? ` #${index + 1}` : ''}`,
+    value: `${formatTokenAmount(fee.amount, fee)} ${fee.symbol}`
+  }));
+
+  if (receipt.gasCost !== null && receipt.gasUsed !== null) {
+    items.push({
+      label: `Gas (${receipt.gasUsed.toLocaleString()} units)`,
+      value: `${formatTokenAmount(receipt.gasCost, nativeCurrency)} ${nativeCurrency.symbol}`
+    });
+  }
+  items.push({
+    label: 'Received on destination',
+    value: receipt.destinationAmount !== null
+      ? `${formatTokenAmount(receipt.destinationAmount, { decimals: receipt.destinationDecimals })} ${receipt.token}`
+      : DESTINATION_STATUS_LABELS[receipt.destinationStatus],
+    tone: 'total'
+  });
+  return items;
+}
+
+// Fees, gas and delivered amount for one transfer, exportable for accounting
+export default function FeeReceiptView({ transaction }: FeeReceiptViewProps) {
+  const [receipt, setReceipt] = useState<FeeReceipt | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    const chainId = CHAINS[transaction.fromChain].id;
+    Promise.resolve()
+      .then(() => getFeeReceipt(getTrackerClient(chainId), chainId, transaction))
+      .then(result => {
+        if (cancelled) return;
+        setReceipt(result);
+        setError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(decodeBridgeError(err).message);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [transaction, refreshKey]);
+
+  const handleRefresh = () => {
+    setIsLoading(true);
+    setRefreshKey(key => key + 1);
+  };
+
+  const filename = `fee-receipt-${transaction.transferId?.slice(0, 10) ?? transaction.id}`;
+
+  return (
+    <div className="mt-2 p-3 bg-white border border-gray-200 rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-500 truncate mr-2">Transfer {transaction.transferId}</span>
+        <button
+          onClick={handleRefresh}
+          disabled={isLoading}
+          className="text-blue-600 hover:text-blue-700 disabled:opacity-40 flex-shrink-0"
+          aria-label="Refresh fee receipt"
+        >
+          <RefreshCw className={isLoading ? "h-3 w-3 animate-spin" : "h-3 w-3"} />
+        </button>
+      </div>
+
+      {error && (
+        <div className="flex items-center p-2 bg-red-50 border border-red-200 rounded-lg">
+          <AlertCircle className="h-4 w-4 text-red-500 mr-2 flex-shrink-0" />
+          <span className="text-red-700 text-xs sm:text-sm">{error}</span>
+        </div>
+      )}
+
+      {receipt && (
+        <>
+          <FeeBreakdown items={receiptItems(receipt)} title="Fee receipt" />
+          {receipt.fees.length === 0 && (
+            <p className="text-xs text-gray-500">No protocol fees were recorded for this transfer.</p>
+          )}
+          {receipt.destinationTxHash && (
+            <a
+              href={getExplorerTxUrl(receipt.dstChainId, receipt.destinationTxHash)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="block text-xs text-blue-600 hover:text-blue-700 underline"
+            >
+              View delivery on destination
+            </a>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={() => downloadFile(feeReceiptToJson(receipt), `${filename}.json`, 'application/json')}
+              className="flex items-center px-3 py-1 text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg"
+            >
+              <Download className="h-3 w-3 mr-1" />
+              JSON
+            </button>
+            <button
+              onClick={() => downloadFile(feeReceiptToCsv(receipt), `${filename}.csv`, 'text/csv')}
+              className="flex items-center px-3 py-1 text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg"
+            >
+              <Download className="h-3 w-3 mr-1" />
+              CSV
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import React, { useState, useEffect } from 'react';
 import { useChainId, useAccount, useSwitchChain } from 'wagmi';
 import { ChevronDown, AlertTriangle, CheckCircle, Loader2 } from 'lucide-react';
 import { clsx } from 'clsx';
-import { CHAIN_CONFIG } from '@/lib/addresses';
+import { CHAINS, CHAIN_KEYS } from '@/lib/chains';
 
 interface NetworkOption {
   chainId: number;
@@ -14,36 +14,13 @@ interface NetworkOption {
   blockExplorer: string;
 }
 
-const NETWORK_OPTIONS: NetworkOption[] = [
-  {
-    chainId: 11155111,
-    name: 'Ethereum Sepolia',
-    iconUrl: 'https://assets.coingecko.com/coins/images/279/small/ethereum.png',
-    rpcUrl: 'https://ethereum-sepolia-rpc.publicnode.com',
-    blockExplorer: 'https://sepolia.etherscan.io'
-  },
-  {
-    chainId: 421614,
-    name: 'Arbitrum Sepolia',
-    iconUrl: 'https://assets.coingecko.com/coins/images/16547/small/arb.png',
-    rpcUrl: 'https://sepolia-rollup.arbitrum.io/rpc',
-    blockExplorer: 'https://sepolia.arbiscan.io'
-  },
-  {
-    chainId: 1,
-    name: 'Ethereum Mainnet',
-    iconUrl: 'https://assets.coingecko.com/coins/images/279/small/ethereum.png',
-    rpcUrl: 'https://ethereum-rpc.publicnode.com',
-    blockExplorer: 'https://etherscan.io'
-  },
-  {
-    chainId: 42161,
-    name: 'Arbitrum One',
-    iconUrl: 'https://assets.coingecko.com/coins/images/16547/small/arb.png',
-    rpcUrl: 'https://arbitrum-one.publicnode.com',
-    blockExplorer: 'https://arbiscan.io'
-  }
-];
+const NETWORK_OPTIONS: NetworkOption[] = CHAIN_KEYS.map(key => ({
+  chainId: CHAINS[key].id,
+  name: CHAINS[key].name,
+  iconUrl: CHAINS[key].iconUrl,
+  rpcUrl: CHAINS[key].rpcUrls[0],
+  blockExplorer: CHAINS[key].blockExplorer.url
+}));
 
 interface NetworkSwitcherProps {
   onNetworkChange?: (chainId: number) => void;
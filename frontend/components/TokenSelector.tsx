@@ -5,16 +5,9 @@ import { useAccount, useBalance, useChainId } from 'wagmi';
 import { ChevronDown, Search, AlertCircle, Loader2 } from 'lucide-react';
 import { clsx } from 'clsx';
 import { formatUnits, parseUnits, isAddress } from 'viem';
-import { SUPPORTED_TOKENS } from '@/lib/addresses';
+import { getTokensForChain, type TokenInfo } from '@/lib/tokens';
 
-interface Token {
-  symbol: string;
-  name: string;
-  address: string;
-  decimals: number;
-  iconUrl: string;
-  chainId: number;
-}
+type Token = TokenInfo;
 
 interface TokenSelectorProps {
   selectedToken?: Token;
@@ -40,9 +33,7 @@ export default function TokenSelector({
   // Get balance for selected token
   const { data: balance, isLoading: balanceLoading } = useBalance({
     address,
-    token: selectedToken?.address === '0x0000000000000000000000000000000000000000' 
-      ? undefined 
-      : selectedToken?.address as `0x${string}` | undefined,
+    token: selectedToken?.isNative ? undefined : selectedToken?.address,
     chainId: selectedToken?.chainId,
     query: {
       enabled: !!selectedToken && !!address && isConnected
@@ -51,29 +42,6 @@ export default function TokenSelector({
 
   // Update available tokens based on current chain
   useEffect(() => {
-    const getTokensForChain = (chainId: number): Token[] => {
-      let tokenAddresses: Record<string, string> = {};
-      
-      if (chainId === 11155111) { // Sepolia
-        tokenAddresses = SUPPORTED_TOKENS.sepolia;
-      } else if (chainId === 421614) { // Arbitrum Sepolia
-        tokenAddresses = SUPPORTED_TOKENS.arbitrumSepolia;
-      } else if (chainId === 1) { // Ethereum Mainnet
-        tokenAddresses = SUPPORTED_TOKENS.mainnet;
-      } else if (chainId === 42161) { // Arbitrum One
-        tokenAddresses = SUPPORTED_TOKENS.arbitrumOne;
-      }
-
-      return Object.entries(tokenAddresses).map(([symbol, address]) => ({
-        symbol,
-        name: getTokenName(symbol),
-        address,
-        decimals: getTokenDecimals(symbol),
-        iconUrl: getTokenIconUrl(symbol),
-        chainId
-      }));
-    };
-
     const tokens = getTokensForChain(chainId)
       .filter(token => !excludeTokens.includes(token.symbol));
 
@@ -82,41 +50,6 @@ export default function TokenSelector({
 
   // TODO: Re-implement auto-selection logic without causing infinite loops
 
-
-
-  const getTokenName = (symbol: string): string => {
-    const nameMap: Record<string, string> = {
-      'USDC': 'USD Coin',
-      'USDT': 'Tether USD',
-      'DAI': 'Dai Stablecoin',
-      'ETH': 'Ethereum',
-      'WETH': 'Wrapped Ethereum'
-    };
-    return nameMap[symbol] || symbol;
-  };
-
-  const getTokenDecimals = (symbol: string): number => {
-    const decimalsMap: Record<string, number> = {
-      'USDC': 6,
-      'USDT': 6,
-      'DAI': 18,
-      'ETH': 18,
-      'WETH': 18
-    };
-    return decimalsMap[symbol] || 18;
-  };
-
-  const getTokenIconUrl = (symbol: string): string => {
-    const iconMap: Record<string, string> = {
-      'USDC': 'https://assets.coingecko.com/coins/images/6319/small/USD_Coin_icon.png',
-      'USDT': 'https://assets.coingecko.com/coins/images/325/small/Tether.png',
-      'DAI': 'https://assets.coingecko.com/coins/images/9956/small/Badge_Dai.png',
-      'ETH': 'https://assets.coingecko.com/coins/images/279/small/ethereum.png',
-      'WETH': 'https://assets.coingecko.com/coins/images/2518/small/weth.png'
-    };
-    return iconMap[symbol] || 'https://via.placeholder.com/32x32/cccccc/666666?text=' + symbol.charAt(0);
-  };
-
   const filteredTokens = availableTokens.filter(token =>
     token.symbol.toLowerCase().includes(searchTerm.toLowerCase()) ||
     token.name.toLowerCase().includes(searchTerm.toLowerCase())
@@ -268,9 +201,7 @@ interface TokenOptionProps {
 function TokenOption({ token, isSelected, onClick, userAddress, isConnected }: TokenOptionProps) {
   const { data: balance, isLoading } = useBalance({
     address: userAddress,
-    token: token.address === '0x0000000000000000000000000000000000000000' 
-      ? undefined 
-      : token.address as `0x${string}`,
+    token: token.isNative ? undefined : token.address,
     chainId: token.chainId,
     query: {
       enabled: !!userAddress && isConnected
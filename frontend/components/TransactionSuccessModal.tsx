@@ -3,13 +3,14 @@
 import { useState, useEffect } from 'react';
 import { CheckCircle, ExternalLink, X, Copy, Check } from 'lucide-react';
 import clsx from 'clsx';
+import { CHAINS, getExplorerTxUrl, type ChainKey } from '@/lib/chains';
 
 interface TransactionSuccessModalProps {
   isOpen: boolean;
   onClose: () => void;
   txHash: string;
-  fromChain: string;
-  toChain: string;
+  fromChain: ChainKey;
+  toChain: ChainKey;
   amount: string;
   token: string;
   bridge?: string;
@@ -39,21 +40,9 @@ export default function TransactionSuccessModal({
     }
   };
 
-  const getExplorerUrl = (hash: string, chain: string) => {
-    const baseUrls: Record<string, string> = {
-      sepolia: 'https://sepolia.etherscan.io/tx/',
-      arbitrumSepolia: 'https://sepolia.arbiscan.io/tx/'
-    };
-    return `${baseUrls[chain] || baseUrls.sepolia}${hash}`;
-  };
+  const getExplorerUrl = (hash: string, chain: ChainKey) => getExplorerTxUrl(CHAINS[chain].id, hash);
 
-  const formatChainName = (chain: string) => {
-    const names: Record<string, string> = {
-      sepolia: 'Ethereum Sepolia',
-      arbitrumSepolia: 'Arbitrum Sepolia'
-    };
-    return names[chain] || chain;
-  };
+  const formatChainName = (chain: ChainKey) => CHAINS[chain].name;
 
   // Close modal on escape key
   useEffect(() => {
@@ -0,0 +1,132 @@
+// BridgeRegistry: source of truth for which bridge adapters SettlementSwitch may route through
+export const BridgeRegistryAbi = [
+  {
+    type: "function",
+    name: "getRegisteredBridges",
+    inputs: [],
+    outputs: [{ name: "bridges", type: "address[]", internalType: "address[]" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "getEnabledBridges",
+    inputs: [],
+    outputs: [{ name: "bridges", type: "address[]", internalType: "address[]" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "getBridgeDetails",
+    inputs: [{ name: "adapter", type: "address", internalType: "address" }],
+    outputs: [
+      {
+        name: "info",
+        type: "tuple",
+        internalType: "struct BridgeRegistry.BridgeInfo",
+        components: [
+          { name: "adapter", type: "address", internalType: "address" },
+          { name: "name", type: "string", internalType: "string" },
+          { name: "isEnabled", type: "bool", internalType: "bool" },
+          { name: "isHealthy", type: "bool", internalType: "bool" },
+          { name: "registeredAt", type: "uint256", internalType: "uint256" },
+          { name: "lastHealthCheck", type: "uint256", internalType: "uint256" },
+          { name: "totalTransfers", type: "uint256", internalType: "uint256" },
+          { name: "failedTransfers", type: "uint256", internalType: "uint256" },
+          { name: "totalVolume", type: "uint256", internalType: "uint256" },
+          { name: "supportedChains", type: "string[]", internalType: "string[]" },
+          { name: "supportedTokens", type: "address[]", internalType: "address[]" }
+        ]
+      },
+      {
+        name: "metrics",
+        type: "tuple",
+        internalType: "struct BridgeRegistry.PerformanceMetrics",
+        components: [
+          { name: "avgGasCost", type: "uint256", internalType: "uint256" },
+          { name: "avgCompletionTime", type: "uint256", internalType: "uint256" },
+          { name: "successRate", type: "uint256", internalType: "uint256" },
+          { name: "liquidityScore", type: "uint256", internalType: "uint256" },
+          { name: "reliabilityScore", type: "uint256", internalType: "uint256" },
+          { name: "lastUpdated", type: "uint256", internalType: "uint256" }
+        ]
+      }
+    ],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "healthConfig",
+    inputs: [],
+    outputs: [
+      { name: "checkInterval", type: "uint256", internalType: "uint256" },
+      { name: "failureThreshold", type: "uint256", internalType: "uint256" },
+      { name: "volumeThreshold", type: "uint256", internalType: "uint256" },
+      { name: "autoDisable", type: "bool", internalType: "bool" }
+    ],
+    stateMutability: "view"
+  },
+
+  // Health and performance events
+  {
+    type: "event",
+    name: "HealthStatusChanged",
+    inputs: [
+      { name: "adapter", type: "address", indexed: true, internalType: "address" },
+      { name: "isHealthy", type: "bool", indexed: false, internalType: "bool" },
+      { name: "successRate", type: "uint256", indexed: false, internalType: "uint256" },
+      { name: "reason", type: "string", indexed: false, internalType: "string" }
+    ],
+    anonymous: false
+  },
+  {
+    type: "event",
+    name: "PerformanceMetricsUpdated",
+    inputs: [
+      { name: "adapter", type: "address", indexed: true, internalType: "address" },
+      {
+        name: "metrics",
+        type: "tuple",
+        indexed: false,
+        internalType: "struct BridgeRegistry.PerformanceMetrics",
+        components: [
+          { name: "avgGasCost", type: "uint256", internalType: "uint256" },
+          { name: "avgCompletionTime", type: "uint256", internalType: "uint256" },
+          { name: "successRate", type: "uint256", internalType: "uint256" },
+          { name: "liquidityScore", type: "uint256", internalType: "uint256" },
+          { name: "reliabilityScore", type: "uint256", internalType: "uint256" },
+          { name: "lastUpdated", type: "uint256", internalType: "uint256" }
+        ]
+      }
+    ],
+    anonymous: false
+  },
+  {
+    type: "event",
+    name: "EmergencyBridgeShutdown",
+    inputs: [
+      { name: "adapter", type: "address", indexed: true, internalType: "address" },
+      { name: "emergency_admin", type: "address", indexed: true, internalType: "address" },
+      { name: "reason", type: "string", indexed: false, internalType: "string" }
+    ],
+    anonymous: false
+  },
+  {
+    type: "event",
+    name: "BridgeEnabled",
+    inputs: [
+      { name: "adapter", type: "address", indexed: true, internalType: "address" },
+      { name: "enabler", type: "address", indexed: true, internalType: "address" }
+    ],
+    anonymous: false
+  },
+  {
+    type: "event",
+    name: "BridgeDisabled",
+    inputs: [
+      { name: "adapter", type: "address", indexed: true, internalType: "address" },
+      { name: "disabler", type: "address", indexed: true, internalType: "address" },
+      { name: "reason", type: "string", indexed: false, internalType: "string" }
+    ],
+    anonymous: false
+  }
+] as const;
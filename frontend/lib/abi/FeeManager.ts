@@ -0,0 +1,267 @@
+// FeeManager: protocol fee quotes, per-account discounts and exemptions, fee records and treasury management.
+// Fees are quoted from the transfer amount but collected in the native token (SettlementSwitch sends them as msg.value).
+export const FeeManagerAbi = [
+  {
+    type: "function",
+    name: "calculateFee",
+    inputs: [
+      { name: "feeType", type: "string", internalType: "string" },
+      { name: "amount", type: "uint256", internalType: "uint256" },
+      { name: "chainId", type: "uint256", internalType: "uint256" },
+      { name: "payer", type: "address", internalType: "address" }
+    ],
+    outputs: [{ name: "feeAmount", type: "uint256", internalType: "uint256" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "feeStructures",
+    inputs: [{ name: "", type: "string", internalType: "string" }],
+    outputs: [
+      { name: "baseFeeRate", type: "uint256", internalType: "uint256" },
+      { name: "minFeeAmount", type: "uint256", internalType: "uint256" },
+      { name: "maxFeeAmount", type: "uint256", internalType: "uint256" },
+      { name: "congestionMultiplier", type: "uint256", internalType: "uint256" },
+      { name: "isActive", type: "bool", internalType: "bool" }
+    ],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "feeExemptions",
+    inputs: [{ name: "", type: "address", internalType: "address" }],
+    outputs: [{ name: "", type: "bool", internalType: "bool" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "discountRates",
+    inputs: [{ name: "", type: "address", internalType: "address" }],
+    outputs: [{ name: "", type: "uint256", internalType: "uint256" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "getFeeHistory",
+    inputs: [{ name: "transferId", type: "bytes32", internalType: "bytes32" }],
+    outputs: [
+      {
+        name: "records",
+        type: "tuple[]",
+        internalType: "struct FeeManager.FeeRecord[]",
+        components: [
+          { name: "token", type: "address", internalType: "address" },
+          { name: "amount", type: "uint256", internalType: "uint256" },
+          { name: "timestamp", type: "uint256", internalType: "uint256" },
+          { name: "payer", type: "address", internalType: "address" },
+          { name: "transferId", type: "bytes32", internalType: "bytes32" },
+          { name: "feeType", type: "string", internalType: "string" }
+        ]
+      }
+    ],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "getCollectedFees",
+    inputs: [{ name: "token", type: "address", internalType: "address" }],
+    outputs: [{ name: "amount", type: "uint256", internalType: "uint256" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "getRevenueDistribution",
+    inputs: [],
+    outputs: [
+      { name: "recipients", type: "address[]", internalType: "address[]" },
+      { name: "percentages", type: "uint256[]", internalType: "uint256[]" }
+    ],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "chainFeeParams",
+    inputs: [{ name: "", type: "uint256", internalType: "uint256" }],
+    outputs: [
+      { name: "baseGasPrice", type: "uint256", internalType: "uint256" },
+      { name: "congestionThreshold", type: "uint256", internalType: "uint256" },
+      { name: "maxMultiplier", type: "uint256", internalType: "uint256" },
+      { name: "adjustmentSpeed", type: "uint256", internalType: "uint256" },
+      { name: "lastUpdateBlock", type: "uint256", internalType: "uint256" }
+    ],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "treasury",
+    inputs: [],
+    outputs: [{ name: "", type: "address", internalType: "address" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "totalFeesCollected",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256", internalType: "uint256" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "totalFeesDistributed",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256", internalType: "uint256" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "hasRole",
+    inputs: [
+      { name: "role", type: "bytes32", internalType: "bytes32" },
+      { name: "account", type: "address", internalType: "address" }
+    ],
+    outputs: [{ name: "", type: "bool", internalType: "bool" }],
+    stateMutability: "view"
+  },
+
+  // Treasury and fee manager functions
+  {
+    type: "function",
+    name: "distributeFees",
+    inputs: [{ name: "token", type: "address", internalType: "address" }],
+    outputs: [],
+    stateMutability: "nonpayable"
+  },
+  {
+    type: "function",
+    name: "setRevenueDistribution",
+    inputs: [
+      { name: "recipient", type: "address", internalType: "address" },
+      { name: "percentage", type: "uint256", internalType: "uint256" }
+    ],
+    outputs: [],
+    stateMutability: "nonpayable"
+  },
+  {
+    type: "function",
+    name: "updateFeeStructure",
+    inputs: [
+      { name: "feeType", type: "string", internalType: "string" },
+      {
+        name: "feeStructure",
+        type: "tuple",
+        internalType: "struct FeeManager.FeeStructure",
+        components: [
+          { name: "baseFeeRate", type: "uint256", internalType: "uint256" },
+          { name: "minFeeAmount", type: "uint256", internalType: "uint256" },
+          { name: "maxFeeAmount", type: "uint256", internalType: "uint256" },
+          { name: "congestionMultiplier", type: "uint256", internalType: "uint256" },
+          { name: "isActive", type: "bool", internalType: "bool" }
+        ]
+      }
+    ],
+    outputs: [],
+    stateMutability: "nonpayable"
+  },
+  {
+    type: "function",
+    name: "updateDynamicFeeParams",
+    inputs: [
+      { name: "chainId", type: "uint256", internalType: "uint256" },
+      {
+        name: "params",
+        type: "tuple",
+        internalType: "struct FeeManager.DynamicFeeParams",
+        components: [
+          { name: "baseGasPrice", type: "uint256", internalType: "uint256" },
+          { name: "congestionThreshold", type: "uint256", internalType: "uint256" },
+          { name: "maxMultiplier", type: "uint256", internalType: "uint256" },
+          { name: "adjustmentSpeed", type: "uint256", internalType: "uint256" },
+          { name: "lastUpdateBlock", type: "uint256", internalType: "uint256" }
+        ]
+      }
+    ],
+    outputs: [],
+    stateMutability: "nonpayable"
+  },
+  {
+    type: "function",
+    name: "updateCongestionLevel",
+    inputs: [
+      { name: "chainId", type: "uint256", internalType: "uint256" },
+      { name: "congestionLevel", type: "uint256", internalType: "uint256" }
+    ],
+    outputs: [],
+    stateMutability: "nonpayable"
+  },
+  {
+    type: "function",
+    name: "updateTreasury",
+    inputs: [{ name: "newTreasury", type: "address", internalType: "address" }],
+    outputs: [],
+    stateMutability: "nonpayable"
+  },
+
+  // Events
+  {
+    type: "event",
+    name: "FeeCollected",
+    inputs: [
+      { name: "token", type: "address", indexed: true, internalType: "address" },
+      { name: "amount", type: "uint256", indexed: false, internalType: "uint256" },
+      { name: "payer", type: "address", indexed: true, internalType: "address" },
+      { name: "transferId", type: "bytes32", indexed: true, internalType: "bytes32" },
+      { name: "feeType", type: "string", indexed: false, internalType: "string" }
+    ],
+    anonymous: false
+  },
+  {
+    type: "event",
+    name: "FeeStructureUpdated",
+    inputs: [
+      { name: "feeType", type: "string", indexed: true, internalType: "string" },
+      {
+        name: "feeStructure",
+        type: "tuple",
+        indexed: false,
+        internalType: "struct FeeManager.FeeStructure",
+        components: [
+          { name: "baseFeeRate", type: "uint256", internalType: "uint256" },
+          { name: "minFeeAmount", type: "uint256", internalType: "uint256" },
+          { name: "maxFeeAmount", type: "uint256", internalType: "uint256" },
+          { name: "congestionMultiplier", type: "uint256", internalType: "uint256" },
+          { name: "isActive", type: "bool", internalType: "bool" }
+        ]
+      }
+    ],
+    anonymous: false
+  },
+  {
+    type: "event",
+    name: "RevenueDistributed",
+    inputs: [
+      { name: "recipient", type: "address", indexed: true, internalType: "address" },
+      { name: "token", type: "address", indexed: true, internalType: "address" },
+      { name: "amount", type: "uint256", indexed: false, internalType: "uint256" }
+    ],
+    anonymous: false
+  },
+  {
+    type: "event",
+    name: "DynamicFeeUpdated",
+    inputs: [
+      { name: "chainId", type: "uint256", indexed: true, internalType: "uint256" },
+      { name: "newMultiplier", type: "uint256", indexed: false, internalType: "uint256" },
+      { name: "congestionLevel", type: "uint256", indexed: false, internalType: "uint256" }
+    ],
+    anonymous: false
+  },
+  {
+    type: "event",
+    name: "TreasuryUpdated",
+    inputs: [
+      { name: "oldTreasury", type: "address", indexed: true, internalType: "address" },
+      { name: "newTreasury", type: "address", indexed: true, internalType: "address" }
+    ],
+    anonymous: false
+  }
+] as const;
@@ -86,11 +86,135 @@ export const LayerZeroAdapterAbi = [
     "outputs": [{"name": "supported", "type": "bool", "internalType": "bool"}],
     "stateMutability": "view"
   },
+  {
+    "type": "function",
+    "name": "lzEndpoint",
+    "inputs": [],
+    "outputs": [{"name": "", "type": "address", "internalType": "contract ILayerZeroEndpoint"}],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "chainIdToLzChainId",
+    "inputs": [{"name": "", "type": "uint256", "internalType": "uint256"}],
+    "outputs": [{"name": "", "type": "uint16", "internalType": "uint16"}],
+    "stateMutability": "view"
+  },
   {
     "type": "function",
     "name": "getBridgeName",
     "inputs": [],
     "outputs": [{"name": "", "type": "string", "internalType": "string"}],
     "stateMutability": "pure"
+  },
+  {
+    "type": "function",
+    "name": "getTransfer",
+    "inputs": [{"name": "transferId", "type": "bytes32", "internalType": "bytes32"}],
+    "outputs": [
+      {
+        "name": "transfer",
+        "type": "tuple",
+        "internalType": "struct IBridgeAdapter.Transfer",
+        "components": [
+          {"name": "transferId", "type": "bytes32", "internalType": "bytes32"},
+          {"name": "sender", "type": "address", "internalType": "address"},
+          {"name": "recipient", "type": "address", "internalType": "address"},
+          {
+            "name": "route",
+            "type": "tuple",
+            "internalType": "struct IBridgeAdapter.Route",
+            "components": [
+              {"name": "adapter", "type": "address", "internalType": "address"},
+              {"name": "tokenIn", "type": "address", "internalType": "address"},
+              {"name": "tokenOut", "type": "address", "internalType": "address"},
+              {"name": "amountIn", "type": "uint256", "internalType": "uint256"},
+              {"name": "amountOut", "type": "uint256", "internalType": "uint256"},
+              {"name": "srcChainId", "type": "uint256", "internalType": "uint256"},
+              {"name": "dstChainId", "type": "uint256", "internalType": "uint256"},
+              {
+                "name": "metrics",
+                "type": "tuple",
+                "internalType": "struct IBridgeAdapter.RouteMetrics",
+                "components": [
+                  {"name": "estimatedGasCost", "type": "uint256", "internalType": "uint256"},
+                  {"name": "bridgeFee", "type": "uint256", "internalType": "uint256"},
+                  {"name": "totalCostWei", "type": "uint256", "internalType": "uint256"},
+                  {"name": "estimatedTimeMinutes", "type": "uint256", "internalType": "uint256"},
+                  {"name": "liquidityAvailable", "type": "uint256", "internalType": "uint256"},
+                  {"name": "successRate", "type": "uint256", "internalType": "uint256"},
+                  {"name": "congestionLevel", "type": "uint256", "internalType": "uint256"}
+                ]
+              },
+              {"name": "adapterData", "type": "bytes", "internalType": "bytes"},
+              {"name": "deadline", "type": "uint256", "internalType": "uint256"}
+            ]
+          },
+          {"name": "status", "type": "uint8", "internalType": "enum IBridgeAdapter.TransferStatus"},
+          {"name": "initiatedAt", "type": "uint256", "internalType": "uint256"},
+          {"name": "completedAt", "type": "uint256", "internalType": "uint256"}
+        ]
+      }
+    ],
+    "stateMutability": "view"
+  },
+  // IBridgeAdapter events
+  {
+    "type": "event",
+    "name": "TransferInitiated",
+    "inputs": [
+      {"name": "transferId", "type": "bytes32", "indexed": true, "internalType": "bytes32"},
+      {"name": "sender", "type": "address", "indexed": true, "internalType": "address"},
+      {"name": "recipient", "type": "address", "indexed": true, "internalType": "address"},
+      {
+        "name": "route",
+        "type": "tuple",
+        "indexed": false,
+        "internalType": "struct IBridgeAdapter.Route",
+        "components": [
+          {"name": "adapter", "type": "address", "internalType": "address"},
+          {"name": "tokenIn", "type": "address", "internalType": "address"},
+          {"name": "tokenOut", "type": "address", "internalType": "address"},
+          {"name": "amountIn", "type": "uint256", "internalType": "uint256"},
+          {"name": "amountOut", "type": "uint256", "internalType": "uint256"},
+          {"name": "srcChainId", "type": "uint256", "internalType": "uint256"},
+          {"name": "dstChainId", "type": "uint256", "internalType": "uint256"},
+          {
+            "name": "metrics",
+            "type": "tuple",
+            "internalType": "struct IBridgeAdapter.RouteMetrics",
+            "components": [
+              {"name": "estimatedGasCost", "type": "uint256", "internalType": "uint256"},
+              {"name": "bridgeFee", "type": "uint256", "internalType": "uint256"},
+              {"name": "totalCostWei", "type": "uint256", "internalType": "uint256"},
+              {"name": "estimatedTimeMinutes", "type": "uint256", "internalType": "uint256"},
+              {"name": "liquidityAvailable", "type": "uint256", "internalType": "uint256"},
+              {"name": "successRate", "type": "uint256", "internalType": "uint256"},
+              {"name": "congestionLevel", "type": "uint256", "internalType": "uint256"}
+            ]
+          },
+          {"name": "adapterData", "type": "bytes", "internalType": "bytes"},
+          {"name": "deadline", "type": "uint256", "internalType": "uint256"}
+        ]
+      }
+    ]
+  },
+  {
+    "type": "event",
+    "name": "TransferCompleted",
+    "inputs": [
+      {"name": "transferId", "type": "bytes32", "indexed": true, "internalType": "bytes32"},
+      {"name": "actualAmountOut", "type": "uint256", "indexed": false, "internalType": "uint256"},
+      {"name": "actualCost", "type": "uint256", "indexed": false, "internalType": "uint256"},
+      {"name": "actualTime", "type": "uint256", "indexed": false, "internalType": "uint256"}
+    ]
+  },
+  {
+    "type": "event",
+    "name": "TransferFailed",
+    "inputs": [
+      {"name": "transferId", "type": "bytes32", "indexed": true, "internalType": "bytes32"},
+      {"name": "reason", "type": "string", "indexed": false, "internalType": "string"}
+    ]
   }
 ] as const;
@@ -0,0 +1,19 @@
+// LayerZero v1 endpoint (ILayerZeroEndpoint subset). The adapter exposes its endpoint via lzEndpoint().
+export const LayerZeroEndpointAbi = [
+  {
+    type: "function",
+    name: "estimateFees",
+    inputs: [
+      { name: "_dstChainId", type: "uint16", internalType: "uint16" },
+      { name: "_userApplication", type: "address", internalType: "address" },
+      { name: "_payload", type: "bytes", internalType: "bytes" },
+      { name: "_payInZRO", type: "bool", internalType: "bool" },
+      { name: "_adapterParams", type: "bytes", internalType: "bytes" }
+    ],
+    outputs: [
+      { name: "nativeFee", type: "uint256", internalType: "uint256" },
+      { name: "zroFee", type: "uint256", internalType: "uint256" }
+    ],
+    stateMutability: "view"
+  }
+] as const;
@@ -0,0 +1,3 @@
+// Uniswap Permit2. Same address on every EVM chain; listed with the wallet's allowances since other apps
+// commonly hold approvals through it. The Settlement Switch does not accept Permit2 payloads.
+export const PERMIT2_ADDRESS = "0x000000000022D473030F116dDEE9F6B43aC78BA3" as const;
@@ -0,0 +1,24 @@
+// RouteCalculator subset: the per-adapter metrics it scores routes with
+export const RouteCalculatorAbi = [
+  {
+    type: "function",
+    name: "getBridgeMetrics",
+    inputs: [{ name: "adapter", type: "address", internalType: "address" }],
+    outputs: [
+      {
+        name: "metrics",
+        type: "tuple",
+        internalType: "struct RouteCalculator.BridgeMetrics",
+        components: [
+          { name: "totalTransfers", type: "uint256", internalType: "uint256" },
+          { name: "successfulTransfers", type: "uint256", internalType: "uint256" },
+          { name: "totalVolume", type: "uint256", internalType: "uint256" },
+          { name: "avgCompletionTime", type: "uint256", internalType: "uint256" },
+          { name: "lastUpdateTime", type: "uint256", internalType: "uint256" },
+          { name: "isHealthy", type: "bool", internalType: "bool" }
+        ]
+      }
+    ],
+    stateMutability: "view"
+  }
+] as const;
@@ -113,6 +113,73 @@ export const SettlementSwitchAbi = [
     ],
     stateMutability: "view"
   },
+  {
+    type: "function",
+    name: "findMultiPathRoute",
+    inputs: [
+      { name: "tokenIn", type: "address", internalType: "address" },
+      { name: "tokenOut", type: "address", internalType: "address" },
+      { name: "amount", type: "uint256", internalType: "uint256" },
+      { name: "srcChainId", type: "uint256", internalType: "uint256" },
+      { name: "dstChainId", type: "uint256", internalType: "uint256" },
+      {
+        name: "preferences",
+        type: "tuple",
+        internalType: "struct IBridgeAdapter.RoutePreferences",
+        components: [
+          { name: "mode", type: "uint8", internalType: "enum IBridgeAdapter.RoutingMode" },
+          { name: "maxSlippageBps", type: "uint256", internalType: "uint256" },
+          { name: "maxFeeWei", type: "uint256", internalType: "uint256" },
+          { name: "maxTimeMinutes", type: "uint256", internalType: "uint256" },
+          { name: "allowMultiHop", type: "bool", internalType: "bool" }
+        ]
+      }
+    ],
+    outputs: [
+      {
+        name: "multiPath",
+        type: "tuple",
+        internalType: "struct ISettlementSwitch.MultiPathRoute",
+        components: [
+          {
+            name: "routes",
+            type: "tuple[]",
+            internalType: "struct IBridgeAdapter.Route[]",
+            components: [
+              { name: "adapter", type: "address", internalType: "address" },
+              { name: "tokenIn", type: "address", internalType: "address" },
+              { name: "tokenOut", type: "address", internalType: "address" },
+              { name: "amountIn", type: "uint256", internalType: "uint256" },
+              { name: "amountOut", type: "uint256", internalType: "uint256" },
+              { name: "srcChainId", type: "uint256", internalType: "uint256" },
+              { name: "dstChainId", type: "uint256", internalType: "uint256" },
+              {
+                name: "metrics",
+                type: "tuple",
+                internalType: "struct IBridgeAdapter.RouteMetrics",
+                components: [
+                  { name: "estimatedGasCost", type: "uint256", internalType: "uint256" },
+                  { name: "bridgeFee", type: "uint256", internalType: "uint256" },
+                  { name: "totalCostWei", type: "uint256", internalType: "uint256" },
+                  { name: "estimatedTimeMinutes", type: "uint256", internalType: "uint256" },
+                  { name: "liquidityAvailable", type: "uint256", internalType: "uint256" },
+                  { name: "successRate", type: "uint256", internalType: "uint256" },
+                  { name: "congestionLevel", type: "uint256", internalType: "uint256" }
+                ]
+              },
+              { name: "adapterData", type: "bytes", internalType: "bytes" },
+              { name: "deadline", type: "uint256", internalType: "uint256" }
+            ]
+          },
+          { name: "amounts", type: "uint256[]", internalType: "uint256[]" },
+          { name: "totalAmount", type: "uint256", internalType: "uint256" },
+          { name: "totalCost", type: "uint256", internalType: "uint256" },
+          { name: "maxTime", type: "uint256", internalType: "uint256" }
+        ]
+      }
+    ],
+    stateMutability: "view"
+  },
   // Bridge Execution Functions
   {
     type: "function",
@@ -185,6 +252,101 @@ export const SettlementSwitchAbi = [
     ],
     stateMutability: "payable"
   },
+  {
+    type: "function",
+    name: "executeMultiPathBridge",
+    inputs: [
+      {
+        name: "multiPath",
+        type: "tuple",
+        internalType: "struct ISettlementSwitch.MultiPathRoute",
+        components: [
+          {
+            name: "routes",
+            type: "tuple[]",
+            internalType: "struct IBridgeAdapter.Route[]",
+            components: [
+              { name: "adapter", type: "address", internalType: "address" },
+              { name: "tokenIn", type: "address", internalType: "address" },
+              { name: "tokenOut", type: "address", internalType: "address" },
+              { name: "amountIn", type: "uint256", internalType: "uint256" },
+              { name: "amountOut", type: "uint256", internalType: "uint256" },
+              { name: "srcChainId", type: "uint256", internalType: "uint256" },
+              { name: "dstChainId", type: "uint256", internalType: "uint256" },
+              {
+                name: "metrics",
+                type: "tuple",
+                internalType: "struct IBridgeAdapter.RouteMetrics",
+                components: [
+                  { name: "estimatedGasCost", type: "uint256", internalType: "uint256" },
+                  { name: "bridgeFee", type: "uint256", internalType: "uint256" },
+                  { name: "totalCostWei", type: "uint256", internalType: "uint256" },
+                  { name: "estimatedTimeMinutes", type: "uint256", internalType: "uint256" },
+                  { name: "liquidityAvailable", type: "uint256", internalType: "uint256" },
+                  { name: "successRate", type: "uint256", internalType: "uint256" },
+                  { name: "congestionLevel", type: "uint256", internalType: "uint256" }
+                ]
+              },
+              { name: "adapterData", type: "bytes", internalType: "bytes" },
+              { name: "deadline", type: "uint256", internalType: "uint256" }
+            ]
+          },
+          { name: "amounts", type: "uint256[]", internalType: "uint256[]" },
+          { name: "totalAmount", type: "uint256", internalType: "uint256" },
+          { name: "totalCost", type: "uint256", internalType: "uint256" },
+          { name: "maxTime", type: "uint256", internalType: "uint256" }
+        ]
+      },
+      { name: "recipient", type: "address", internalType: "address" },
+      { name: "permitData", type: "bytes", internalType: "bytes" }
+    ],
+    outputs: [
+      { name: "transferIds", type: "bytes32[]", internalType: "bytes32[]" }
+    ],
+    stateMutability: "payable"
+  },
+  {
+    type: "function",
+    name: "executeBatchBridge",
+    inputs: [
+      {
+        name: "routes",
+        type: "tuple[]",
+        internalType: "struct IBridgeAdapter.Route[]",
+        components: [
+          { name: "adapter", type: "address", internalType: "address" },
+          { name: "tokenIn", type: "address", internalType: "address" },
+          { name: "tokenOut", type: "address", internalType: "address" },
+          { name: "amountIn", type: "uint256", internalType: "uint256" },
+          { name: "amountOut", type: "uint256", internalType: "uint256" },
+          { name: "srcChainId", type: "uint256", internalType: "uint256" },
+          { name: "dstChainId", type: "uint256", internalType: "uint256" },
+          {
+            name: "metrics",
+            type: "tuple",
+            internalType: "struct IBridgeAdapter.RouteMetrics",
+            components: [
+              { name: "estimatedGasCost", type: "uint256", internalType: "uint256" },
+              { name: "bridgeFee", type: "uint256", internalType: "uint256" },
+              { name: "totalCostWei", type: "uint256", internalType: "uint256" },
+              { name: "estimatedTimeMinutes", type: "uint256", internalType: "uint256" },
+              { name: "liquidityAvailable", type: "uint256", internalType: "uint256" },
+              { name: "successRate", type: "uint256", internalType: "uint256" },
+              { name: "congestionLevel", type: "uint256", internalType: "uint256" }
+            ]
+          },
+          { name: "adapterData", type: "bytes", internalType: "bytes" },
+          { name: "deadline", type: "uint256", internalType: "uint256" }
+        ]
+      },
+      { name: "recipients", type: "address[]", internalType: "address[]" },
+      { name: "permitData", type: "bytes[]", internalType: "bytes[]" }
+    ],
+    outputs: [
+      { name: "transferIds", type: "bytes32[]", internalType: "bytes32[]" }
+    ],
+    stateMutability: "payable"
+  },
   // Information Functions
   {
     type: "function",
@@ -250,7 +412,71 @@ export const SettlementSwitchAbi = [
     ],
     stateMutability: "view"
   },
+  {
+    type: "function",
+    name: "getUserTransfers",
+    inputs: [
+      { name: "user", type: "address", internalType: "address" },
+      { name: "offset", type: "uint256", internalType: "uint256" },
+      { name: "limit", type: "uint256", internalType: "uint256" }
+    ],
+    outputs: [
+      {
+        name: "userTransfers",
+        type: "tuple[]",
+        internalType: "struct IBridgeAdapter.Transfer[]",
+        components: [
+          { name: "transferId", type: "bytes32", internalType: "bytes32" },
+          { name: "sender", type: "address", internalType: "address" },
+          { name: "recipient", type: "address", internalType: "address" },
+          {
+            name: "route",
+            type: "tuple",
+            internalType: "struct IBridgeAdapter.Route",
+            components: [
+              { name: "adapter", type: "address", internalType: "address" },
+              { name: "tokenIn", type: "address", internalType: "address" },
+              { name: "tokenOut", type: "address", internalType: "address" },
+              { name: "amountIn", type: "uint256", internalType: "uint256" },
+              { name: "amountOut", type: "uint256", internalType: "uint256" },
+              { name: "srcChainId", type: "uint256", internalType: "uint256" },
+              { name: "dstChainId", type: "uint256", internalType: "uint256" },
+              {
+                name: "metrics",
+                type: "tuple",
+                internalType: "struct IBridgeAdapter.RouteMetrics",
+                components: [
+                  { name: "estimatedGasCost", type: "uint256", internalType: "uint256" },
+                  { name: "bridgeFee", type: "uint256", internalType: "uint256" },
+                  { name: "totalCostWei", type: "uint256", internalType: "uint256" },
+                  { name: "estimatedTimeMinutes", type: "uint256", internalType: "uint256" },
+                  { name: "liquidityAvailable", type: "uint256", internalType: "uint256" },
+                  { name: "successRate", type: "uint256", internalType: "uint256" },
+                  { name: "congestionLevel", type: "uint256", internalType: "uint256" }
+                ]
+              },
+              { name: "adapterData", type: "bytes", internalType: "bytes" },
+              { name: "deadline", type: "uint256", internalType: "uint256" }
+            ]
+          },
+          { name: "status", type: "uint8", internalType: "enum IBridgeAdapter.TransferStatus" },
+          { name: "initiatedAt", type: "uint256", internalType: "uint256" },
+          { name: "completedAt", type: "uint256", internalType: "uint256" }
+        ]
+      }
+    ],
+    stateMutability: "view"
+  },
   // View Functions
+  {
+    type: "function",
+    name: "getRouteCacheTtl",
+    inputs: [],
+    outputs: [
+      { name: "ttl", type: "uint256", internalType: "uint256" }
+    ],
+    stateMutability: "view"
+  },
   {
     type: "function",
     name: "isPaused",
@@ -260,6 +486,146 @@ export const SettlementSwitchAbi = [
     ],
     stateMutability: "view"
   },
+  // Access control and admin state
+  {
+    type: "function",
+    name: "DEFAULT_ADMIN_ROLE",
+    inputs: [],
+    outputs: [{ name: "", type: "bytes32", internalType: "bytes32" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "EMERGENCY_ROLE",
+    inputs: [],
+    outputs: [{ name: "", type: "bytes32", internalType: "bytes32" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "hasRole",
+    inputs: [
+      { name: "role", type: "bytes32", internalType: "bytes32" },
+      { name: "account", type: "address", internalType: "address" }
+    ],
+    outputs: [{ name: "", type: "bool", internalType: "bool" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "chainConfigs",
+    inputs: [{ name: "", type: "uint256", internalType: "uint256" }],
+    outputs: [
+      { name: "chainId", type: "uint256", internalType: "uint256" },
+      { name: "name", type: "string", internalType: "string" },
+      { name: "isSupported", type: "bool", internalType: "bool" },
+      { name: "maxGasPrice", type: "uint256", internalType: "uint256" },
+      { name: "wethAddress", type: "address", internalType: "address" }
+    ],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "userLimits",
+    inputs: [{ name: "", type: "address", internalType: "address" }],
+    outputs: [
+      { name: "dailyLimit", type: "uint256", internalType: "uint256" },
+      { name: "dailyTransferred", type: "uint256", internalType: "uint256" },
+      { name: "lastTransferTime", type: "uint256", internalType: "uint256" },
+      { name: "transferCount", type: "uint256", internalType: "uint256" },
+      { name: "isWhitelisted", type: "bool", internalType: "bool" }
+    ],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "blacklistedAddresses",
+    inputs: [{ name: "", type: "address", internalType: "address" }],
+    outputs: [{ name: "", type: "bool", internalType: "bool" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "getSupportedChains",
+    inputs: [],
+    outputs: [{ name: "chainIds", type: "uint256[]", internalType: "uint256[]" }],
+    stateMutability: "view"
+  },
+  // Admin functions
+  {
+    type: "function",
+    name: "registerBridgeAdapter",
+    inputs: [
+      { name: "adapter", type: "address", internalType: "address" },
+      { name: "enabled", type: "bool", internalType: "bool" }
+    ],
+    outputs: [],
+    stateMutability: "nonpayable"
+  },
+  {
+    type: "function",
+    name: "setBridgeAdapterStatus",
+    inputs: [
+      { name: "adapter", type: "address", internalType: "address" },
+      { name: "enabled", type: "bool", internalType: "bool" },
+      { name: "reason", type: "string", internalType: "string" }
+    ],
+    outputs: [],
+    stateMutability: "nonpayable"
+  },
+  {
+    type: "function",
+    name: "emergencyPause",
+    inputs: [{ name: "reason", type: "string", internalType: "string" }],
+    outputs: [],
+    stateMutability: "nonpayable"
+  },
+  {
+    type: "function",
+    name: "emergencyUnpause",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable"
+  },
+  {
+    type: "function",
+    name: "updateRouteCacheTtl",
+    inputs: [{ name: "newTtl", type: "uint256", internalType: "uint256" }],
+    outputs: [],
+    stateMutability: "nonpayable"
+  },
+  {
+    type: "function",
+    name: "updateChainConfig",
+    inputs: [
+      { name: "chainId", type: "uint256", internalType: "uint256" },
+      { name: "name", type: "string", internalType: "string" },
+      { name: "supported", type: "bool", internalType: "bool" },
+      { name: "maxGasPrice", type: "uint256", internalType: "uint256" }
+    ],
+    outputs: [],
+    stateMutability: "nonpayable"
+  },
+  {
+    type: "function",
+    name: "setUserDailyLimit",
+    inputs: [
+      { name: "user", type: "address", internalType: "address" },
+      { name: "dailyLimit", type: "uint256", internalType: "uint256" }
+    ],
+    outputs: [],
+    stateMutability: "nonpayable"
+  },
+  {
+    type: "function",
+    name: "setBlacklistStatus",
+    inputs: [
+      { name: "account", type: "address", internalType: "address" },
+      { name: "blacklisted", type: "bool", internalType: "bool" }
+    ],
+    outputs: [],
+    stateMutability: "nonpayable"
+  },
   // Events
   {
     type: "event",
@@ -301,6 +667,132 @@ export const SettlementSwitchAbi = [
       { name: "timestamp", type: "uint256", indexed: false, internalType: "uint256" }
     ]
   },
+  {
+    type: "event",
+    name: "RouteCacheUpdated",
+    inputs: [
+      { name: "routeHash", type: "bytes32", indexed: true, internalType: "bytes32" },
+      { name: "timestamp", type: "uint256", indexed: false, internalType: "uint256" },
+      { name: "ttl", type: "uint256", indexed: false, internalType: "uint256" }
+    ]
+  },
+  {
+    type: "event",
+    name: "MultiPathTransferInitiated",
+    inputs: [
+      { name: "transferIds", type: "bytes32[]", indexed: false, internalType: "bytes32[]" },
+      { name: "user", type: "address", indexed: true, internalType: "address" },
+      {
+        name: "multiPath",
+        type: "tuple",
+        indexed: false,
+        internalType: "struct ISettlementSwitch.MultiPathRoute",
+        components: [
+          {
+            name: "routes",
+            type: "tuple[]",
+            internalType: "struct IBridgeAdapter.Route[]",
+            components: [
+              { name: "adapter", type: "address", internalType: "address" },
+              { name: "tokenIn", type: "address", internalType: "address" },
+              { name: "tokenOut", type: "address", internalType: "address" },
+              { name: "amountIn", type: "uint256", internalType: "uint256" },
+              { name: "amountOut", type: "uint256", internalType: "uint256" },
+              { name: "srcChainId", type: "uint256", internalType: "uint256" },
+              { name: "dstChainId", type: "uint256", internalType: "uint256" },
+              {
+                name: "metrics",
+                type: "tuple",
+                internalType: "struct IBridgeAdapter.RouteMetrics",
+                components: [
+                  { name: "estimatedGasCost", type: "uint256", internalType: "uint256" },
+                  { name: "bridgeFee", type: "uint256", internalType: "uint256" },
+                  { name: "totalCostWei", type: "uint256", internalType: "uint256" },
+                  { name: "estimatedTimeMinutes", type: "uint256", internalType: "uint256" },
+                  { name: "liquidityAvailable", type: "uint256", internalType: "uint256" },
+                  { name: "successRate", type: "uint256", internalType: "uint256" },
+                  { name: "congestionLevel", type: "uint256", internalType: "uint256" }
+                ]
+              },
+              { name: "adapterData", type: "bytes", internalType: "bytes" },
+              { name: "deadline", type: "uint256", internalType: "uint256" }
+            ]
+          },
+          { name: "amounts", type: "uint256[]", internalType: "uint256[]" },
+          { name: "totalAmount", type: "uint256", internalType: "uint256" },
+          { name: "totalCost", type: "uint256", internalType: "uint256" },
+          { name: "maxTime", type: "uint256", internalType: "uint256" }
+        ]
+      },
+      { name: "timestamp", type: "uint256", indexed: false, internalType: "uint256" }
+    ]
+  },
+  {
+    type: "event",
+    name: "BridgeAdapterRegistered",
+    inputs: [
+      { name: "adapter", type: "address", indexed: true, internalType: "address" },
+      { name: "name", type: "string", indexed: false, internalType: "string" },
+      { name: "enabled", type: "bool", indexed: false, internalType: "bool" }
+    ]
+  },
+  {
+    type: "event",
+    name: "BridgeAdapterStatusChanged",
+    inputs: [
+      { name: "adapter", type: "address", indexed: true, internalType: "address" },
+      { name: "enabled", type: "bool", indexed: false, internalType: "bool" },
+      { name: "reason", type: "string", indexed: false, internalType: "string" }
+    ]
+  },
+  {
+    type: "event",
+    name: "EmergencyPause",
+    inputs: [
+      { name: "admin", type: "address", indexed: true, internalType: "address" },
+      { name: "reason", type: "string", indexed: false, internalType: "string" },
+      { name: "timestamp", type: "uint256", indexed: false, internalType: "uint256" }
+    ]
+  },
+  {
+    type: "event",
+    name: "Paused",
+    inputs: [
+      { name: "account", type: "address", indexed: false, internalType: "address" }
+    ]
+  },
+  {
+    type: "event",
+    name: "Unpaused",
+    inputs: [
+      { name: "account", type: "address", indexed: false, internalType: "address" }
+    ]
+  },
+  {
+    type: "event",
+    name: "ChainConfigUpdated",
+    inputs: [
+      { name: "chainId", type: "uint256", indexed: true, internalType: "uint256" },
+      { name: "name", type: "string", indexed: false, internalType: "string" },
+      { name: "supported", type: "bool", indexed: false, internalType: "bool" }
+    ]
+  },
+  {
+    type: "event",
+    name: "UserLimitsUpdated",
+    inputs: [
+      { name: "user", type: "address", indexed: true, internalType: "address" },
+      { name: "dailyLimit", type: "uint256", indexed: false, internalType: "uint256" }
+    ]
+  },
+  {
+    type: "event",
+    name: "BlacklistUpdated",
+    inputs: [
+      { name: "account", type: "address", indexed: true, internalType: "address" },
+      { name: "blacklisted", type: "bool", indexed: false, internalType: "bool" }
+    ]
+  },
   {
     type: "event",
     name: "TransferCompleted",
@@ -322,9 +814,11 @@ export enum RoutingMode {
   BALANCED = 2
 }
 
-// Transfer Status Enum
+// Transfer Status Enum (matches IBridgeAdapter.TransferStatus)
 export enum TransferStatus {
   PENDING = 0,
-  COMPLETED = 1,
-  FAILED = 2
+  CONFIRMED = 1,
+  COMPLETED = 2,
+  FAILED = 3,
+  REFUNDED = 4
 }
\ No newline at end of file
@@ -118,6 +118,47 @@ export const StablecoinSwitchAbi = [
     outputs: [],
     stateMutability: "nonpayable",
   },
+  {
+    type: "function",
+    name: "owner",
+    inputs: [],
+    outputs: [
+      { name: "", type: "address", internalType: "address" },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "setTokenSupport",
+    inputs: [
+      { name: "token", type: "address", internalType: "address" },
+      { name: "supported", type: "bool", internalType: "bool" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "setChainSupport",
+    inputs: [
+      { name: "chainId", type: "uint256", internalType: "uint256" },
+      { name: "supported", type: "bool", internalType: "bool" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "addBridgeAdapter",
+    inputs: [
+      { name: "chainId", type: "uint256", internalType: "uint256" },
+      { name: "adapter", type: "address", internalType: "address" },
+      { name: "name", type: "string", internalType: "string" },
+      { name: "gasCost", type: "uint256", internalType: "uint256" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
   {
     type: "function",
     name: "ethUsdPriceFeed",
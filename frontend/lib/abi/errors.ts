@@ -0,0 +1,105 @@
+import { LayerZeroAdapterAbi } from "./LayerZeroAdapter";
+import { StablecoinSwitchAbi } from "./StablecoinSwitch";
+
+// Custom errors declared by the Settlement Switch contracts.
+// Reverts from RouteCalculator, FeeManager and BridgeRegistry bubble up through SettlementSwitch calls,
+// so every set is needed to decode a revert from any entry point.
+
+export const SettlementSwitchErrorsAbi = [
+  { type: "error", name: "ChainNotSupported", inputs: [] },
+  { type: "error", name: "TokenNotSupported", inputs: [] },
+  { type: "error", name: "TransferAmountTooLow", inputs: [] },
+  { type: "error", name: "TransferAmountTooHigh", inputs: [] },
+  { type: "error", name: "DailyLimitExceeded", inputs: [] },
+  { type: "error", name: "TransferTooFrequent", inputs: [] },
+  { type: "error", name: "BlacklistedAddress", inputs: [] },
+  { type: "error", name: "InvalidSlippage", inputs: [] },
+  { type: "error", name: "RouteNotFound", inputs: [] },
+  { type: "error", name: "TransferNotFound", inputs: [] },
+  { type: "error", name: "MultiPathExecutionFailed", inputs: [] },
+  { type: "error", name: "InvalidPermitData", inputs: [] }
+] as const;
+
+export const RouteCalculatorErrorsAbi = [
+  { type: "error", name: "InvalidAdapter", inputs: [] },
+  { type: "error", name: "AdapterAlreadyRegistered", inputs: [] },
+  { type: "error", name: "AdapterNotRegistered", inputs: [] },
+  { type: "error", name: "InvalidScoringWeights", inputs: [] },
+  { type: "error", name: "NoValidRoutes", inputs: [] },
+  { type: "error", name: "InvalidCacheEntry", inputs: [] }
+] as const;
+
+export const FeeManagerErrorsAbi = [
+  { type: "error", name: "InvalidFeeRate", inputs: [] },
+  { type: "error", name: "InvalidRecipient", inputs: [] },
+  { type: "error", name: "InvalidDistribution", inputs: [] },
+  { type: "error", name: "FeeStructureNotFound", inputs: [] },
+  { type: "error", name: "InsufficientFeePayment", inputs: [] },
+  { type: "error", name: "DistributionFailed", inputs: [] },
+  { type: "error", name: "InvalidCongestionLevel", inputs: [] },
+  { type: "error", name: "ExcessiveDiscount", inputs: [] }
+] as const;
+
+export const BridgeRegistryErrorsAbi = [
+  { type: "error", name: "BridgeAlreadyRegistered", inputs: [] },
+  { type: "error", name: "BridgeNotRegistered", inputs: [] },
+  { type: "error", name: "BridgeNotEnabled", inputs: [] },
+  { type: "error", name: "InvalidBridgeAdapter", inputs: [] },
+  { type: "error", name: "UnauthorizedHealthCheck", inputs: [] },
+  { type: "error", name: "InvalidHealthConfig", inputs: [] },
+  { type: "error", name: "EmergencyShutdownActive", inputs: [] }
+] as const;
+
+// OpenZeppelin v5 errors inherited by the core contracts (AccessControl, Ownable, Pausable, SafeERC20) and the ERC20 tokens they pull
+export const OpenZeppelinErrorsAbi = [
+  {
+    type: "error",
+    name: "AccessControlUnauthorizedAccount",
+    inputs: [
+      { name: "account", type: "address", internalType: "address" },
+      { name: "neededRole", type: "bytes32", internalType: "bytes32" }
+    ]
+  },
+  {
+    type: "error",
+    name: "OwnableUnauthorizedAccount",
+    inputs: [{ name: "account", type: "address", internalType: "address" }]
+  },
+  { type: "error", name: "EnforcedPause", inputs: [] },
+  { type: "error", name: "ExpectedPause", inputs: [] },
+  { type: "error", name: "ReentrancyGuardReentrantCall", inputs: [] },
+  {
+    type: "error",
+    name: "ERC20InsufficientAllowance",
+    inputs: [
+      { name: "spender", type: "address", internalType: "address" },
+      { name: "allowance", type: "uint256", internalType: "uint256" },
+      { name: "needed", type: "uint256", internalType: "uint256" }
+    ]
+  },
+  {
+    type: "error",
+    name: "ERC20InsufficientBalance",
+    inputs: [
+      { name: "sender", type: "address", internalType: "address" },
+      { name: "balance", type: "uint256", internalType: "uint256" },
+      { name: "needed", type: "uint256", internalType: "uint256" }
+    ]
+  },
+  {
+    type: "error",
+    name: "SafeERC20FailedOperation",
+    inputs: [{ name: "token", type: "address", internalType: "address" }]
+  }
+] as const;
+
+// Every custom error a bridge call can revert with
+export const BridgeErrorsAbi = [
+  ...SettlementSwitchErrorsAbi,
+  ...RouteCalculatorErrorsAbi,
+  ...FeeManagerErrorsAbi,
+  ...BridgeRegistryErrorsAbi,
+  ...OpenZeppelinErrorsAbi,
+  ...LayerZeroAdapterAbi.filter(item => item.type === "error"),
+  ...StablecoinSwitchAbi.filter(item => item.type === "error")
+];
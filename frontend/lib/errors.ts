@@ -0,0 +1,264 @@
+import {
+  BaseError,
+  ChainMismatchError,
+  ContractFunctionRevertedError,
+  ContractFunctionZeroDataError,
+  HttpRequestError,
+  InsufficientFundsError,
+  RpcRequestError,
+  TimeoutError,
+  UserRejectedRequestError,
+  decodeErrorResult
+} from "viem";
+import type { Abi } from "viem";
+import { BridgeErrorsAbi } from "./abi/errors";
+
+// Stable error codes the UI can branch on
+export type BridgeErrorCode =
+  | "USER_REJECTED"
+  | "NETWORK_CHANGED"
+  | "WRONG_NETWORK"
+  | "RPC_FAILURE"
+  | "CONTRACT_NOT_DEPLOYED"
+  | "INSUFFICIENT_FUNDS"
+  | "INSUFFICIENT_ALLOWANCE"
+  | "INSUFFICIENT_LIQUIDITY"
+  | "UNSUPPORTED_ROUTE"
+  | "UNSUPPORTED_TOKEN"
+  | "UNSUPPORTED_CHAIN"
+  | "AMOUNT_TOO_LOW"
+  | "AMOUNT_TOO_HIGH"
+  | "FEE_EXCEEDS_AMOUNT"
+  | "PREFERENCE_VIOLATION"
+  | "SLIPPAGE"
+  | "LIMIT_EXCEEDED"
+  | "PAUSED"
+  | "BRIDGE_UNAVAILABLE"
+  | "UNAUTHORIZED"
+  | "BLACKLISTED"
+  | "PRICE_FEED"
+  | "INVALID_INPUT"
+  | "TRANSFER_FAILED"
+  | "TRANSFER_NOT_FOUND"
+  | "CONTRACT_REVERT"
+  | "UNKNOWN";
+
+export class BridgeError extends Error {
+  readonly code: BridgeErrorCode;
+
+  constructor(code: BridgeErrorCode, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "BridgeError";
+    this.code = code;
+  }
+}
+
+export class UserRejectedError extends BridgeError {
+  constructor(options?: { cause?: unknown }) {
+    super("USER_REJECTED", "Transaction was rejected by user.", options);
+    this.name = "UserRejectedError";
+  }
+}
+
+export class NetworkChangedError extends BridgeError {
+  constructor(message = "Network changed during request. Please try again.", options?: { cause?: unknown }) {
+    super("NETWORK_CHANGED", message, options);
+    this.name = "NetworkChangedError";
+  }
+}
+
+export class RpcError extends BridgeError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super("RPC_FAILURE", message, options);
+    this.name = "RpcError";
+  }
+}
+
+// A revert decoded from one of the contracts' custom errors
+export class ContractRevertError extends BridgeError {
+  readonly errorName: string;
+  readonly args: readonly unknown[];
+
+  constructor(
+    code: BridgeErrorCode,
+    message: string,
+    errorName: string,
+    args: readonly unknown[] = [],
+    options?: { cause?: unknown }
+  ) {
+    super(code, message, options);
+    this.name = "ContractRevertError";
+    this.errorName = errorName;
+    this.args = args;
+  }
+}
+
+// Client-side validation failures (amount checks, route preferences, fee sanity)
+export class ValidationError extends BridgeError {
+  constructor(code: BridgeErrorCode, message: string) {
+    super(code, message);
+    this.name = "ValidationError";
+  }
+}
+
+// Custom error name -> code and default user-facing message
+const REVERT_DEFINITIONS: Record<string, { code: BridgeErrorCode; message: string }> = {
+  // SettlementSwitch
+  ChainNotSupported: { code: "UNSUPPORTED_CHAIN", message: "This chain is not supported by Settlement Switch." },
+  TokenNotSupported: { code: "UNSUPPORTED_TOKEN", message: "This token is not supported by Settlement Switch." },
+  TransferAmountTooLow: { code: "AMOUNT_TOO_LOW", message: "Transfer amount is below the bridge minimum." },
+  TransferAmountTooHigh: { code: "AMOUNT_TOO_HIGH", message: "Transfer amount is above the bridge maximum." },
+  DailyLimitExceeded: { code: "LIMIT_EXCEEDED", message: "Daily transfer limit exceeded for this account." },
+  TransferTooFrequent: { code: "LIMIT_EXCEEDED", message: "Transfers are too frequent. Please wait before retrying." },
+  BlacklistedAddress: { code: "BLACKLISTED", message: "This address is not allowed to bridge." },
+  InvalidSlippage: { code: "SLIPPAGE", message: "Slippage tolerance is invalid." },
+  RouteNotFound: { code: "UNSUPPORTED_ROUTE", message: "No route found for this transfer." },
+  TransferNotFound: { code: "TRANSFER_NOT_FOUND", message: "Transfer not found." },
+  MultiPathExecutionFailed: { code: "TRANSFER_FAILED", message: "Multi-path transfer failed to execute." },
+  InvalidPermitData: { code: "INVALID_INPUT", message: "Permit signature is invalid." },
+  // RouteCalculator
+  InvalidAdapter: { code: "BRIDGE_UNAVAILABLE", message: "Bridge adapter is invalid." },
+  AdapterAlreadyRegistered: { code: "INVALID_INPUT", message: "Bridge adapter is already registered." },
+  AdapterNotRegistered: { code: "BRIDGE_UNAVAILABLE", message: "Bridge adapter is not registered." },
+  InvalidScoringWeights: { code: "INVALID_INPUT", message: "Routing weights are invalid." },
+  NoValidRoutes: { code: "UNSUPPORTED_ROUTE", message: "No routes available for this token pair and amount." },
+  InvalidCacheEntry: { code: "CONTRACT_REVERT", message: "Cached route is invalid. Please refresh quotes." },
+  // FeeManager
+  InvalidFeeRate: { code: "INVALID_INPUT", message: "Fee rate is invalid." },
+  InvalidRecipient: { code: "INVALID_INPUT", message: "Recipient address is invalid. Please double-check the destination address." },
+  InvalidDistribution: { code: "INVALID_INPUT", message: "Revenue distribution is invalid." },
+  FeeStructureNotFound: { code: "CONTRACT_REVERT", message: "Fee structure is not configured." },
+  InsufficientFeePayment: { code: "INSUFFICIENT_FUNDS", message: "Not enough ETH sent to cover protocol fees." },
+  DistributionFailed: { code: "TRANSFER_FAILED", message: "Fee distribution failed." },
+  InvalidCongestionLevel: { code: "INVALID_INPUT", message: "Congestion level is invalid." },
+  ExcessiveDiscount: { code: "INVALID_INPUT", message: "Discount rate is too high." },
+  // BridgeRegistry
+  BridgeAlreadyRegistered: { code: "INVALID_INPUT", message: "Bridge is already registered." },
+  BridgeNotRegistered: { code: "BRIDGE_UNAVAILABLE", message: "Bridge is not registered." },
+  BridgeNotEnabled: { code: "BRIDGE_UNAVAILABLE", message: "Bridge is currently disabled." },
+  InvalidBridgeAdapter: { code: "BRIDGE_UNAVAILABLE", message: "Bridge adapter is invalid." },
+  UnauthorizedHealthCheck: { code: "UNAUTHORIZED", message: "Not authorized to report bridge health." },
+  InvalidHealthConfig: { code: "INVALID_INPUT", message: "Health configuration is invalid." },
+  EmergencyShutdownActive: { code: "PAUSED", message: "Bridge is in emergency shutdown." },
+  // Bridge adapters
+  UnsupportedRoute: { code: "UNSUPPORTED_ROUTE", message: "No bridge supports this route." },
+  InsufficientLiquidity: { code: "INSUFFICIENT_LIQUIDITY", message: "Insufficient liquidity available." },
+  BridgeInactive: { code: "BRIDGE_UNAVAILABLE", message: "Bridge is currently inactive." },
+  InvalidChainId: { code: "UNSUPPORTED_CHAIN", message: "Chain is not supported by this bridge." },
+  // StablecoinSwitch
+  InvalidToken: { code: "UNSUPPORTED_TOKEN", message: "Token is invalid." },
+  InvalidChain: { code: "UNSUPPORTED_CHAIN", message: "Chain is invalid." },
+  InvalidAmount: { code: "INVALID_INPUT", message: "Enter a valid amount greater than 0." },
+  InvalidPriority: { code: "INVALID_INPUT", message: "Invalid priority. Use 0 for cost or 1 for speed." },
+  UnsupportedToken: { code: "UNSUPPORTED_TOKEN", message: "Token not supported." },
+  UnsupportedChain: { code: "UNSUPPORTED_CHAIN", message: "Destination chain is not enabled." },
+  InsufficientAmount: { code: "AMOUNT_TOO_LOW", message: "Amount is too small to cover fees." },
+  SlippageExceeded: { code: "SLIPPAGE", message: "Price moved beyond your slippage tolerance." },
+  BridgeAdapterNotSet: { code: "BRIDGE_UNAVAILABLE", message: "No bridge adapters configured for this chain." },
+  PriceFeedError: { code: "PRICE_FEED", message: "Price feeds unavailable or stale." },
+  TransferFailed: { code: "TRANSFER_FAILED", message: "Token transfer failed. Ensure sufficient balance and allowance, then retry." },
+  // OpenZeppelin
+  AccessControlUnauthorizedAccount: { code: "UNAUTHORIZED", message: "This account is missing the required role." },
+  OwnableUnauthorizedAccount: { code: "UNAUTHORIZED", message: "Only the contract owner can do this." },
+  EnforcedPause: { code: "PAUSED", message: "Bridging is paused. Please try again later." },
+  ExpectedPause: { code: "INVALID_INPUT", message: "Contract is not paused." },
+  ReentrancyGuardReentrantCall: { code: "CONTRACT_REVERT", message: "Reentrant call rejected." },
+  ERC20InsufficientAllowance: { code: "INSUFFICIENT_ALLOWANCE", message: "Token allowance too low. Please approve the token and retry." },
+  ERC20InsufficientBalance: { code: "INSUFFICIENT_FUNDS", message: "Token balance is too low for this transfer." },
+  SafeERC20FailedOperation: { code: "TRANSFER_FAILED", message: "Token transfer failed. Ensure sufficient balance and allowance, then retry." }
+};
+
+export type DecodeBridgeErrorOptions = {
+  // Per-call message overrides keyed by custom error name
+  messages?: Partial<Record<string, string>>;
+  // Message prefix for errors that could not be classified
+  fallbackPrefix?: string;
+};
+
+// Resolve a custom error name from a reverted call, re-decoding against every known ABI if needed
+function decodeRevert(error: ContractFunctionRevertedError): { errorName: string; args: readonly unknown[] } | null {
+  if (error.data?.errorName) {
+    return { errorName: error.data.errorName, args: error.data.args ?? [] };
+  }
+  if (error.raw && error.raw !== "0x") {
+    try {
+      const decoded = decodeErrorResult({ abi: BridgeErrorsAbi as Abi, data: error.raw });
+      return { errorName: decoded.errorName, args: decoded.args ?? [] };
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+// Convert any thrown value from viem, the wallet or our own services into a BridgeError
+export function decodeBridgeError(error: unknown, options: DecodeBridgeErrorOptions = {}): BridgeError {
+  if (error instanceof BridgeError) return error;
+
+  const raw = String((error as { shortMessage?: string })?.shortMessage || (error as Error)?.message || error);
+
+  if (error instanceof BaseError) {
+    if (error.walk(e => e instanceof UserRejectedRequestError)) {
+      return new UserRejectedError({ cause: error });
+    }
+
+    const reverted = error.walk(e => e instanceof ContractFunctionRevertedError);
+    if (reverted instanceof ContractFunctionRevertedError) {
+      const decoded = decodeRevert(reverted);
+      if (decoded) {
+        const definition = REVERT_DEFINITIONS[decoded.errorName];
+        const message = options.messages?.[decoded.errorName] || definition?.message || `Contract reverted with ${decoded.errorName}.`;
+        return new ContractRevertError(definition?.code ?? "CONTRACT_REVERT", message, decoded.errorName, decoded.args, {
+          cause: error
+        });
+      }
+      if (reverted.reason) {
+        return new ContractRevertError("CONTRACT_REVERT", reverted.reason, "Error", [reverted.reason], { cause: error });
+      }
+    }
+
+    if (error.walk(e => e instanceof ChainMismatchError)) {
+      return new NetworkChangedError(undefined, { cause: error });
+    }
+    if (error.walk(e => e instanceof InsufficientFundsError)) {
+      return new BridgeError("INSUFFICIENT_FUNDS", "Insufficient funds for transaction.", { cause: error });
+    }
+    if (error.walk(e => e instanceof ContractFunctionZeroDataError)) {
+      return new BridgeError(
+        "CONTRACT_NOT_DEPLOYED",
+        "Contract returned no data. It may not be deployed on this network.",
+        { cause: error }
+      );
+    }
+    if (error.walk(e => e instanceof HttpRequestError || e instanceof RpcRequestError || e instanceof TimeoutError)) {
+      return new RpcError(`RPC request failed: ${error.shortMessage}`, { cause: error });
+    }
+  }
+
+  // Wallets that bypass viem still use EIP-1193 codes and free-text messages
+  const code = (error as { code?: number })?.code;
+  const lower = raw.toLowerCase();
+  if (code === 4001 || lower.includes("user rejected") || lower.includes("user denied")) {
+    return new UserRejectedError({ cause: error });
+  }
+  if (lower.includes("network") && lower.includes("change")) {
+    return new NetworkChangedError(undefined, { cause: error });
+  }
+  if (lower.includes("insufficient funds")) {
+    return new BridgeError("INSUFFICIENT_FUNDS", "Insufficient funds for transaction.", { cause: error });
+  }
+  if (lower.includes("transfer amount exceeds allowance")) {
+    return new BridgeError("INSUFFICIENT_ALLOWANCE", "Token allowance too low. Please approve the token and retry.", {
+      cause: error
+    });
+  }
+  if (code === -32603) {
+    return new RpcError("Network request rejected. Please check your network connection and try again.", { cause: error });
+  }
+
+  return new BridgeError("UNKNOWN", options.fallbackPrefix ? `${options.fallbackPrefix}: ${raw}` : raw, { cause: error });
+}
+
+export function isBridgeError(error: unknown, code?: BridgeErrorCode): error is BridgeError {
+  return error instanceof BridgeError && (code === undefined || error.code === code);
+}
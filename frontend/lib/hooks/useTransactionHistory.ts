@@ -0,0 +1,47 @@
+'use client';
+
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { useAccount, useChainId, usePublicClient } from 'wagmi';
+import {
+  addTransaction,
+  getTransactionHistory,
+  subscribeTransactionHistory,
+  syncTransactionHistory,
+  updateTransaction,
+  type HistoryTransaction
+} from '../services/transactionHistory';
+
+const EMPTY_HISTORY: HistoryTransaction[] = [];
+
+// Shared, persisted transaction history for the connected wallet on the current chain
+export function useTransactionHistory() {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+
+  const transactions = useSyncExternalStore(
+    subscribeTransactionHistory,
+    () => getTransactionHistory(address, chainId),
+    () => EMPTY_HISTORY
+  );
+
+  // Merge on-chain records and reconcile pending statuses when the wallet or chain changes
+  useEffect(() => {
+    if (!address || !chainId || !publicClient) return;
+    syncTransactionHistory(publicClient, address, chainId).catch(err =>
+      console.warn('Failed to sync transaction history:', err)
+    );
+  }, [address, chainId, publicClient]);
+
+  const add = useCallback((transaction: HistoryTransaction) => {
+    if (!address) return;
+    addTransaction(address, chainId, transaction);
+  }, [address, chainId]);
+
+  const update = useCallback((id: string, updates: Partial<Omit<HistoryTransaction, 'id'>>) => {
+    if (!address) return;
+    updateTransaction(address, chainId, id, updates);
+  }, [address, chainId]);
+
+  return { transactions, addTransaction: add, updateTransaction: update };
+}
@@ -0,0 +1,92 @@
+import { maxUint256 } from "viem";
+import type { PublicClient, WalletClient } from "viem";
+import { ERC20Abi } from "../abi/erc20";
+import { PERMIT2_ADDRESS } from "../abi/Permit2";
+import { findContractAddress, getChain, type ContractName } from "../chains";
+import { getTokensForChain, type TokenInfo } from "../tokens";
+import { decodeBridgeError } from "../errors";
+
+// Allowances the connected wallet has granted to our contracts (and Permit2) on a chain
+
+export type AllowanceSpender = ContractName | "Permit2";
+
+export type TokenAllowance = {
+  token: TokenInfo;
+  spenderName: AllowanceSpender;
+  spender: `0x${string}`;
+  allowance: bigint;
+  isUnlimited: boolean;
+};
+
+// Anything at or above half of uint256 is treated as an unlimited approval
+const UNLIMITED_THRESHOLD = maxUint256 / BigInt(2);
+
+// Every configured contract on the chain that could hold an allowance, plus Permit2
+export function getAllowanceSpenders(chainId: number): { name: AllowanceSpender; address: `0x${string}` }[] {
+  const contractNames = Object.keys(getChain(chainId).contracts) as ContractName[];
+  const spenders: { name: AllowanceSpender; address: `0x${string}` }[] = [];
+
+  for (const name of contractNames) {
+    const address = findContractAddress(name, chainId);
+    if (address) spenders.push({ name, address });
+  }
+  spenders.push({ name: "Permit2", address: PERMIT2_ADDRESS });
+
+  return spenders;
+}
+
+// Read every (token, spender) allowance for owner; only non-zero allowances are returned
+export async function getAllowances(
+  publicClient: PublicClient,
+  owner: `0x${string}`,
+  chainId: number
+): Promise<TokenAllowance[]> {
+  const tokens = getTokensForChain(chainId).filter(token => !token.isNative);
+  const spenders = getAllowanceSpenders(chainId);
+
+  const pairs = tokens.flatMap(token => spenders.map(spender => ({ token, spender })));
+
+  const results = await Promise.all(
+    pairs.map(async ({ token, spender }) => {
+      try {
+        const allowance = await publicClient.readContract({
+          address: token.address,
+          abi: ERC20Abi,
+          functionName: "allowance",
+          args: [owner, spender.address]
+        }) as bigint;
+        return { token, spenderName: spender.name, spender: spender.address, allowance, isUnlimited: allowance >= UNLIMITED_THRESHOLD };
+      } catch (error) {
+        // A token without code on this chain should not hide the rest of the dashboard
+        if (process.env.NODE_ENV === "development") {
+          console.warn(`Failed to read ${token.symbol} allowance for ${spender.name}:`, error);
+        }
+        return null;
+      }
+    })
+  );
+
+  return results.filter((entry): entry is TokenAllowance => entry !== null && entry.allowance > BigInt(0));
+}
+
+// Set an allowance back to zero
+export async function revokeAllowance(
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  params: { token: `0x${string}`; owner: `0x${string}`; spender: `0x${string}` }
+): Promise<`0x${string}`> {
+  try {
+    const hash = await walletClient.writeContract({
+      address: params.token,
+      abi: ERC20Abi,
+      functionName: "approve",
+      args: [params.spender, BigInt(0)],
+      account: params.owner,
+      chain: walletClient.chain
+    });
+    await publicClient.waitForTransactionReceipt({ hash });
+    return hash;
+  } catch (error) {
+    throw decodeBridgeError(error, { fallbackPrefix: "Failed to revoke allowance" });
+  }
+}
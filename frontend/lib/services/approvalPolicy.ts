@@ -0,0 +1,70 @@
+import { maxUint256 } from "viem";
+
+// How much to approve when a spend needs an approve transaction. Persisted per browser.
+export type ApprovalPolicyMode = "exact" | "buffer" | "unlimited";
+
+export type ApprovalPolicy = {
+  mode: ApprovalPolicyMode;
+  bufferBps: number; // Extra allowance on top of the amount in "buffer" mode
+};
+
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = { mode: "exact", bufferBps: 1000 }; // 10% buffer when enabled
+
+const STORAGE_KEY = "settlement-switch:approval-policy";
+const MAX_BUFFER_BPS = 10000;
+
+const listeners = new Set<() => void>();
+let cached: ApprovalPolicy | null = null;
+
+function isApprovalPolicy(value: unknown): value is ApprovalPolicy {
+  const policy = value as Partial<ApprovalPolicy> | null;
+  return (
+    !!policy &&
+    (policy.mode === "exact" || policy.mode === "buffer" || policy.mode === "unlimited") &&
+    typeof policy.bufferBps === "number" &&
+    policy.bufferBps >= 0 &&
+    policy.bufferBps <= MAX_BUFFER_BPS
+  );
+}
+
+export function getApprovalPolicy(): ApprovalPolicy {
+  if (cached) return cached;
+  cached = DEFAULT_APPROVAL_POLICY;
+  if (typeof window !== "undefined") {
+    try {
+      const raw = window.localStorage.getItem(STORAGE_KEY);
+      const parsed = raw ? JSON.parse(raw) : null;
+      if (isApprovalPolicy(parsed)) cached = parsed;
+    } catch {
+      // Unreadable setting; keep the default
+    }
+  }
+  return cached;
+}
+
+export function setApprovalPolicy(policy: ApprovalPolicy) {
+  const bufferBps = Math.min(Math.max(Math.round(policy.bufferBps), 0), MAX_BUFFER_BPS);
+  cached = { mode: policy.mode, bufferBps };
+  if (typeof window !== "undefined") {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(cached));
+    } catch (error) {
+      console.warn("Failed to persist approval policy:", error);
+    }
+  }
+  listeners.forEach(listener => listener());
+}
+
+export function subscribeApprovalPolicy(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Allowance to grant for a spend of amount under the policy
+export function getApprovalAmount(amount: bigint, policy: ApprovalPolicy = getApprovalPolicy()): bigint {
+  if (policy.mode === "unlimited") return maxUint256;
+  if (policy.mode === "buffer") return amount + (amount * BigInt(policy.bufferBps)) / BigInt(10000);
+  return amount;
+}
@@ -0,0 +1,293 @@
+import type { PublicClient } from "viem";
+import { BridgeRegistryAbi } from "../abi/BridgeRegistry";
+import { RouteCalculatorAbi } from "../abi/RouteCalculator";
+import { findContractAddress, getChain } from "../chains";
+import { BridgeError, decodeBridgeError } from "../errors";
+
+// Bridge health: BridgeRegistry status, performance metrics and emergency shutdowns, plus the
+// RouteCalculator metrics that decide whether an adapter is considered for routing at all.
+
+export type BridgePerformance = {
+  avgGasCost: bigint;
+  avgCompletionTimeSeconds: number;
+  successRateBps: number; // 0-10000
+  liquidityScore: number; // 0-100
+  reliabilityScore: number; // 0-100
+  updatedAt: number | null; // ms since epoch; null until the first transfer is recorded
+};
+
+export type RouteCalculatorMetrics = {
+  totalTransfers: bigint;
+  successfulTransfers: bigint;
+  totalVolume: bigint;
+  avgCompletionTimeSeconds: number;
+  updatedAt: number | null; // ms since epoch
+  isHealthy: boolean;
+};
+
+export type BridgeShutdown = {
+  reason: string;
+  admin: `0x${string}`;
+  blockNumber: bigint;
+  txHash: `0x${string}`;
+};
+
+export type BridgeHealthChange = {
+  isHealthy: boolean;
+  successRateBps: number;
+  reason: string;
+  blockNumber: bigint;
+};
+
+export type BridgeHealth = {
+  adapter: `0x${string}`;
+  name: string;
+  isEnabled: boolean;
+  isHealthy: boolean;
+  registeredAt: number; // ms since epoch
+  lastHealthCheck: number | null; // ms since epoch; null if never checked
+  totalTransfers: bigint;
+  failedTransfers: bigint;
+  totalVolume: bigint;
+  supportedChains: string[];
+  performance: BridgePerformance;
+  routeMetrics: RouteCalculatorMetrics | null; // null where RouteCalculator is not configured or does not know the adapter
+  shutdown: BridgeShutdown | null; // Latest EmergencyBridgeShutdown within the lookback window
+  lastHealthChange: BridgeHealthChange | null; // Latest HealthStatusChanged within the lookback window
+};
+
+export type BridgeHealthConfig = {
+  checkIntervalSeconds: number;
+  failureThresholdBps: number;
+  volumeThreshold: bigint;
+  autoDisable: boolean;
+};
+
+// How far back to look for shutdown and health events; older ones are only reflected in the flags
+const HEALTH_EVENT_LOOKBACK_BLOCKS = BigInt(10_000);
+// Below this success rate a still-enabled bridge is flagged as degraded
+export const DEGRADED_SUCCESS_RATE_BPS = 9500;
+
+function toMs(seconds: bigint): number | null {
+  return seconds > BigInt(0) ? Number(seconds) * 1000 : null;
+}
+
+function getRegistryAddress(chainId: number): `0x${string}` {
+  const registryAddress = findContractAddress("BridgeRegistry", chainId);
+  if (!registryAddress) {
+    throw new BridgeError("CONTRACT_NOT_DEPLOYED", `BridgeRegistry is not deployed on ${getChain(chainId).name}.`);
+  }
+  return registryAddress;
+}
+
+async function readRouteMetrics(
+  publicClient: PublicClient,
+  routeCalculatorAddress: `0x${string}` | undefined,
+  adapter: `0x${string}`
+): Promise<RouteCalculatorMetrics | null> {
+  if (!routeCalculatorAddress) return null;
+
+  try {
+    const metrics = await publicClient.readContract({
+      address: routeCalculatorAddress,
+      abi: RouteCalculatorAbi,
+      functionName: "getBridgeMetrics",
+      args: [adapter]
+    });
+    // Unregistered adapters read back as an all-zero struct
+    if (metrics.lastUpdateTime === BigInt(0) && !metrics.isHealthy) return null;
+
+    return {
+      totalTransfers: metrics.totalTransfers,
+      successfulTransfers: metrics.successfulTransfers,
+      totalVolume: metrics.totalVolume,
+      avgCompletionTimeSeconds: Number(metrics.avgCompletionTime),
+      updatedAt: toMs(metrics.lastUpdateTime),
+      isHealthy: metrics.isHealthy
+    };
+  } catch (error) {
+    if (process.env.NODE_ENV === "development") {
+      console.warn("Failed to read RouteCalculator metrics:", error);
+    }
+    return null;
+  }
+}
+
+// Latest shutdown and health change per adapter from recent registry events
+async function readRecentHealthEvents(publicClient: PublicClient, registryAddress: `0x${string}`) {
+  const shutdowns = new Map<string, BridgeShutdown>();
+  const healthChanges = new Map<string, BridgeHealthChange>();
+
+  try {
+    const latestBlock = await publicClient.getBlockNumber();
+    const fromBlock = latestBlock > HEALTH_EVENT_LOOKBACK_BLOCKS ? latestBlock - HEALTH_EVENT_LOOKBACK_BLOCKS : BigInt(0);
+
+    const [shutdownLogs, healthLogs] = await Promise.all([
+      publicClient.getContractEvents({
+        address: registryAddress,
+        abi: BridgeRegistryAbi,
+        eventName: "EmergencyBridgeShutdown",
+        fromBlock
+      }),
+      publicClient.getContractEvents({
+        address: registryAddress,
+        abi: BridgeRegistryAbi,
+        eventName: "HealthStatusChanged",
+        fromBlock
+      })
+    ]);
+
+    // Logs arrive oldest first, so later entries overwrite earlier ones
+    shutdownLogs.forEach((log) => {
+      const { adapter, emergency_admin, reason } = log.args;
+      if (!adapter || !emergency_admin) return;
+      shutdowns.set(adapter.toLowerCase(), {
+        reason: reason ?? "",
+        admin: emergency_admin,
+        blockNumber: log.blockNumber,
+        txHash: log.transactionHash
+      });
+    });
+    healthLogs.forEach((log) => {
+      const { adapter, isHealthy, successRate, reason } = log.args;
+      if (!adapter || isHealthy === undefined) return;
+      healthChanges.set(adapter.toLowerCase(), {
+        isHealthy,
+        successRateBps: Number(successRate ?? BigInt(0)),
+        reason: reason ?? "",
+        blockNumber: log.blockNumber
+      });
+    });
+  } catch (error) {
+    // RPCs that cap log ranges still leave the status flags usable
+    if (process.env.NODE_ENV === "development") {
+      console.warn("Failed to read bridge health events:", error);
+    }
+  }
+
+  return { shutdowns, healthChanges };
+}
+
+// Health, performance and shutdown state for every bridge in the registry
+export async function getBridgeHealth(publicClient: PublicClient, chainId: number): Promise<BridgeHealth[]> {
+  const registryAddress = getRegistryAddress(chainId);
+  const routeCalculatorAddress = findContractAddress("RouteCalculator", chainId);
+
+  try {
+    const adapters = await publicClient.readContract({
+      address: registryAddress,
+      abi: BridgeRegistryAbi,
+      functionName: "getRegisteredBridges"
+    });
+
+    const [details, routeMetrics, events] = await Promise.all([
+      Promise.all(
+        adapters.map(adapter =>
+          publicClient.readContract({
+            address: registryAddress,
+            abi: BridgeRegistryAbi,
+            functionName: "getBridgeDetails",
+            args: [adapter]
+          })
+        )
+      ),
+      Promise.all(adapters.map(adapter => readRouteMetrics(publicClient, routeCalculatorAddress, adapter))),
+      readRecentHealthEvents(publicClient, registryAddress)
+    ]);
+
+    const health: BridgeHealth[] = adapters.map((adapter, i) => {
+      const [info, metrics] = details[i];
+      const key = adapter.toLowerCase();
+      const shutdown = events.shutdowns.get(key) ?? null;
+
+      return {
+        adapter,
+        name: info.name,
+        isEnabled: info.isEnabled,
+        isHealthy: info.isHealthy,
+        registeredAt: Number(info.registeredAt) * 1000,
+        lastHealthCheck: toMs(info.lastHealthCheck),
+        totalTransfers: info.totalTransfers,
+        failedTransfers: info.failedTransfers,
+        totalVolume: info.totalVolume,
+        supportedChains: [...info.supportedChains],
+        performance: {
+          avgGasCost: metrics.avgGasCost,
+          avgCompletionTimeSeconds: Number(metrics.avgCompletionTime),
+          successRateBps: Number(metrics.successRate),
+          liquidityScore: Number(metrics.liquidityScore),
+          reliabilityScore: Number(metrics.reliabilityScore),
+          updatedAt: toMs(metrics.lastUpdated)
+        },
+        routeMetrics: routeMetrics[i],
+        // A bridge re-enabled after its shutdown is no longer shut down
+        shutdown: shutdown && !info.isEnabled ? shutdown : null,
+        lastHealthChange: events.healthChanges.get(key) ?? null
+      };
+    });
+
+    if (process.env.NODE_ENV === "development") {
+      console.groupCollapsed("getBridgeHealth");
+      console.table(
+        health.map(bridge => ({
+          name: bridge.name,
+          enabled: bridge.isEnabled,
+          healthy: bridge.isHealthy,
+          successRateBps: bridge.performance.successRateBps,
+          reliability: bridge.performance.reliabilityScore,
+          shutdown: bridge.shutdown?.reason ?? ""
+        }))
+      );
+      console.groupEnd();
+    }
+
+    return health;
+  } catch (error) {
+    throw decodeBridgeError(error, { fallbackPrefix: "Failed to load bridge health" });
+  }
+}
+
+export async function getBridgeHealthConfig(publicClient: PublicClient, chainId: number): Promise<BridgeHealthConfig> {
+  try {
+    const [checkInterval, failureThreshold, volumeThreshold, autoDisable] = await publicClient.readContract({
+      address: getRegistryAddress(chainId),
+      abi: BridgeRegistryAbi,
+      functionName: "healthConfig"
+    });
+    return {
+      checkIntervalSeconds: Number(checkInterval),
+      failureThresholdBps: Number(failureThreshold),
+      volumeThreshold,
+      autoDisable
+    };
+  } catch (error) {
+    throw decodeBridgeError(error, { fallbackPrefix: "Failed to load bridge health config" });
+  }
+}
+
+// Why a route through this bridge deserves a warning, or null if it looks fine
+export function getBridgeHealthWarning(bridge: BridgeHealth): string | null {
+  if (bridge.shutdown) {
+    return `${bridge.name} was shut down in an emergency${bridge.shutdown.reason ? `: ${bridge.shutdown.reason}` : ""}.`;
+  }
+  if (!bridge.isEnabled) return `${bridge.name} is disabled in the bridge registry.`;
+  if (!bridge.isHealthy) return `${bridge.name} failed its last health check.`;
+  if (bridge.routeMetrics && !bridge.routeMetrics.isHealthy) return `The route calculator marks ${bridge.name} as unhealthy.`;
+  if (bridge.totalTransfers > BigInt(0) && bridge.performance.successRateBps < DEGRADED_SUCCESS_RATE_BPS) {
+    return `${bridge.name} has a ${(bridge.performance.successRateBps / 100).toFixed(1)}% success rate.`;
+  }
+  return null;
+}
+
+// Call onChange whenever the registry emits a health, metrics, shutdown or enablement event. Returns a function that stops watching.
+export function watchBridgeHealth(publicClient: PublicClient, chainId: number, onChange: () => void): () => void {
+  const registryAddress = findContractAddress("BridgeRegistry", chainId);
+  if (!registryAddress) return () => {};
+
+  return publicClient.watchContractEvent({
+    address: registryAddress,
+    abi: BridgeRegistryAbi,
+    onLogs: () => onChange(),
+    onError: (error) => console.warn("Bridge health watcher error:", error)
+  });
+}
@@ -0,0 +1,253 @@
+import { formatUnits, parseEventLogs, zeroHash } from "viem";
+import type { PublicClient } from "viem";
+import { FeeManagerAbi } from "../abi/FeeManager";
+import { SettlementSwitchAbi, TransferStatus } from "../abi/SettlementSwitch";
+import { CHAINS, findChain, findContractAddress } from "../chains";
+import { BridgeError, decodeBridgeError } from "../errors";
+import { findToken, NATIVE_TOKEN_ADDRESS } from "../tokens";
+import { getTrackerClient, predatesDestinationWindow, readDestinationOutcome, type DestinationOutcome } from "./transferTracker";
+import type { HistoryTransaction } from "./transactionHistory";
+
+// Per-transfer fee receipts: FeeManager records for the transfer, FeeCollected events from its transaction,
+// gas from the transaction receipt and the amount the destination adapter reported delivering.
+
+export type FeeReceiptLine = {
+  feeType: string;
+  token: `0x${string}`; // Zero address for the native token
+  symbol: string;
+  decimals: number;
+  amount: bigint;
+  payer: `0x${string}`;
+  timestamp: number; // ms since epoch, when the fee was collected
+};
+
+// "unknown" when the destination chain could not be read or the transfer is older than its lookback window
+export type DestinationStatus = "completed" | "failed" | "pending" | "unknown";
+
+export type FeeReceipt = {
+  transferId: `0x${string}`;
+  txHash: `0x${string}` | null;
+  chainId: number;
+  dstChainId: number;
+  token: string;
+  amountSent: string;
+  fees: FeeReceiptLine[];
+  gasUsed: bigint | null;
+  effectiveGasPrice: bigint | null;
+  gasCost: bigint | null; // gasUsed * effectiveGasPrice, in native wei
+  destinationStatus: DestinationStatus;
+  destinationAmount: bigint | null; // null until the destination adapter reports completion
+  destinationDecimals: number;
+  destinationTxHash: `0x${string}` | null;
+  generatedAt: number;
+};
+
+function describeFeeToken(token: `0x${string}`, chainId: number): { symbol: string; decimals: number } {
+  const known = findToken(token, chainId);
+  if (known) return { symbol: known.symbol, decimals: known.decimals };
+  if (token === NATIVE_TOKEN_ADDRESS) {
+    const { symbol, decimals } = findChain(chainId)?.nativeCurrency ?? { symbol: "ETH", decimals: 18 };
+    return { symbol, decimals };
+  }
+  return { symbol: `${token.slice(0, 6)}...${token.slice(-4)}`, decimals: 18 };
+}
+
+// Fee lines recorded by FeeManager.getFeeHistory under this transferId
+async function readFeeHistory(
+  publicClient: PublicClient,
+  feeManagerAddress: `0x${string}`,
+  chainId: number,
+  transferId: `0x${string}`
+): Promise<FeeReceiptLine[]> {
+  const records = await publicClient.readContract({
+    address: feeManagerAddress,
+    abi: FeeManagerAbi,
+    functionName: "getFeeHistory",
+    args: [transferId]
+  });
+
+  return records.map(record => ({
+    feeType: record.feeType,
+    token: record.token,
+    ...describeFeeToken(record.token, chainId),
+    amount: record.amount,
+    payer: record.payer,
+    timestamp: Number(record.timestamp) * 1000
+  }));
+}
+
+// Destination outcome and its status; a transfer older than the lookback window with no outcome is unknown, not pending
+async function readDestination(
+  dstChainId: number,
+  transferId: `0x${string}`,
+  sentAt: number
+): Promise<{ destination: DestinationOutcome | null; destinationStatus: DestinationStatus }> {
+  try {
+    const dstClient = getTrackerClient(dstChainId);
+    const destination = await readDestinationOutcome(dstClient, dstChainId, transferId);
+    if (destination) {
+      return { destination, destinationStatus: destination.status === TransferStatus.COMPLETED ? "completed" : "failed" };
+    }
+    return { destination, destinationStatus: (await predatesDestinationWindow(dstClient, sentAt)) ? "unknown" : "pending" };
+  } catch (error) {
+    if (process.env.NODE_ENV === "development") {
+      console.warn("Failed to read destination outcome:", error);
+    }
+    return { destination: null, destinationStatus: "unknown" };
+  }
+}
+
+// Build the fee receipt for a transfer in the user's history
+export async function getFeeReceipt(
+  publicClient: PublicClient,
+  chainId: number,
+  transaction: HistoryTransaction
+): Promise<FeeReceipt> {
+  if (!transaction.transferId) {
+    throw new BridgeError("TRANSFER_NOT_FOUND", "This transaction has no transfer ID, so no fee receipt is available.");
+  }
+  const transferId = transaction.transferId as `0x${string}`;
+  const txHash = (transaction.hash ?? null) as `0x${string}` | null;
+  const dstChainId = CHAINS[transaction.toChain].id;
+  const feeManagerAddress = findContractAddress("FeeManager", chainId);
+
+  try {
+    const [historyLines, txReceipt] = await Promise.all([
+      feeManagerAddress ? readFeeHistory(publicClient, feeManagerAddress, chainId, transferId) : Promise.resolve([]),
+      txHash ? publicClient.getTransactionReceipt({ hash: txHash }) : Promise.resolve(null)
+    ]);
+
+    // SettlementSwitch collects its protocol fee before the transferId exists (recorded under bytes32(0)),
+    // so the FeeCollected events in the transfer's own transaction are the only link for those fees.
+    // Each belongs to the next switch TransferInitiated, which keeps other transfers' fees in a batch off this receipt.
+    const block = txReceipt ? await publicClient.getBlock({ blockNumber: txReceipt.blockNumber }) : null;
+    const eventLines: FeeReceiptLine[] = [];
+    if (txReceipt && block && feeManagerAddress) {
+      const settlementSwitchAddress = findContractAddress("SettlementSwitch", chainId);
+      const initiated = settlementSwitchAddress
+        ? parseEventLogs({
+            abi: SettlementSwitchAbi,
+            eventName: "TransferInitiated",
+            logs: txReceipt.logs.filter(log => log.address.toLowerCase() === settlementSwitchAddress.toLowerCase())
+          })
+        : [];
+      const isOwnFee = (logIndex: number) => initiated.find(event => event.logIndex > logIndex)?.args.transferId === transferId;
+
+      parseEventLogs({ abi: FeeManagerAbi, eventName: "FeeCollected", logs: txReceipt.logs })
+        .filter(log => log.address.toLowerCase() === feeManagerAddress.toLowerCase())
+        // Fees under this transferId are already covered by getFeeHistory
+        .filter(log => log.args.transferId === zeroHash && isOwnFee(log.logIndex))
+        .forEach(log => {
+          eventLines.push({
+            feeType: log.args.feeType,
+            token: log.args.token,
+            ...describeFeeToken(log.args.token, chainId),
+            amount: log.args.amount,
+            payer: log.args.payer,
+            timestamp: Number(block.timestamp) * 1000
+          });
+        });
+    }
+
+    // The destination chain may be unreachable or the transfer still in flight; neither blocks the receipt
+    const sentAt = block ? Number(block.timestamp) * 1000 : transaction.timestamp;
+    const { destination, destinationStatus } = await readDestination(dstChainId, transferId, sentAt);
+    const destinationToken = findToken(transaction.token, dstChainId);
+
+    return {
+      transferId,
+      txHash,
+      chainId,
+      dstChainId,
+      token: transaction.token,
+      amountSent: transaction.amount,
+      fees: [...historyLines, ...eventLines],
+      gasUsed: txReceipt?.gasUsed ?? null,
+      effectiveGasPrice: txReceipt?.effectiveGasPrice ?? null,
+      gasCost: txReceipt ? txReceipt.gasUsed * txReceipt.effectiveGasPrice : null,
+      destinationStatus,
+      destinationAmount: destination?.amountOut ?? null,
+      destinationDecimals: destinationToken?.decimals ?? 18,
+      destinationTxHash: destination?.txHash ?? null,
+      generatedAt: Date.now()
+    };
+  } catch (error) {
+    throw decodeBridgeError(error, { fallbackPrefix: "Failed to load fee receipt" });
+  }
+}
+
+// Flat, string-valued form shared by the JSON and CSV exports; raw integer amounts are kept next to formatted ones
+function toExportRows(receipt: FeeReceipt): Record<string, string>[] {
+  const base = {
+    transferId: receipt.transferId,
+    txHash: receipt.txHash ?? "",
+    chainId: String(receipt.chainId),
+    dstChainId: String(receipt.dstChainId)
+  };
+  const nativeCurrency = describeFeeToken(NATIVE_TOKEN_ADDRESS, receipt.chainId);
+
+  const rows: Record<string, string>[] = receipt.fees.map(fee => ({
+    ...base,
+    item: `fee:${fee.feeType}`,
+    symbol: fee.symbol,
+    amount: formatUnits(fee.amount, fee.decimals),
+    rawAmount: fee.amount.toString(),
+    gasUsed: "",
+    timestamp: new Date(fee.timestamp).toISOString()
+  }));
+
+  if (receipt.gasCost !== null) {
+    rows.push({
+      ...base,
+      item: "gas",
+      symbol: nativeCurrency.symbol,
+      amount: formatUnits(receipt.gasCost, nativeCurrency.decimals),
+      rawAmount: receipt.gasCost.toString(),
+      gasUsed: receipt.gasUsed?.toString() ?? "",
+      timestamp: ""
+    });
+  }
+  if (receipt.destinationAmount !== null) {
+    rows.push({
+      ...base,
+      item: "received",
+      symbol: receipt.token,
+      amount: formatUnits(receipt.destinationAmount, receipt.destinationDecimals),
+      rawAmount: receipt.destinationAmount.toString(),
+      gasUsed: "",
+      timestamp: ""
+    });
+  }
+  return rows;
+}
+
+export function feeReceiptToJson(receipt: FeeReceipt): string {
+  return JSON.stringify(
+    {
+      transferId: receipt.transferId,
+      txHash: receipt.txHash,
+      chainId: receipt.chainId,
+      dstChainId: receipt.dstChainId,
+      token: receipt.token,
+      amountSent: receipt.amountSent,
+      gasUsed: receipt.gasUsed?.toString() ?? null,
+      effectiveGasPrice: receipt.effectiveGasPrice?.toString() ?? null,
+      destinationStatus: receipt.destinationStatus,
+      destinationTxHash: receipt.destinationTxHash,
+      generatedAt: new Date(receipt.generatedAt).toISOString(),
+      items: toExportRows(receipt).map(({ item, symbol, amount, rawAmount, timestamp }) => ({ item, symbol, amount, rawAmount, timestamp }))
+    },
+    null,
+    2
+  );
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function feeReceiptToCsv(receipt: FeeReceipt): string {
+  const columns = ["transferId", "txHash", "chainId", "dstChainId", "item", "symbol", "amount", "rawAmount", "gasUsed", "timestamp"];
+  const lines = toExportRows(receipt).map(row => columns.map(column => escapeCsv(row[column] ?? "")).join(","));
+  return [columns.join(","), ...lines].join("\n");
+}
@@ -0,0 +1,76 @@
+import { zeroAddress } from "viem";
+import type { PublicClient } from "viem";
+import { FeeManagerAbi } from "../abi/FeeManager";
+import { findContractAddress } from "../chains";
+import { decodeBridgeError } from "../errors";
+
+// Protocol fee quotes from FeeManager.calculateFee, split into the gross fee and the payer's discount or exemption
+
+export type FeeType = "protocol" | "bridge" | "gas";
+
+export type ProtocolFeeQuote = {
+  feeType: FeeType;
+  fee: bigint; // What the payer is charged, in native wei
+  grossFee: bigint; // Before the payer's discount or exemption
+  discount: bigint; // grossFee - fee
+  discountBps: number;
+  exempt: boolean;
+  baseFeeRateBps: number;
+  congestionMultiplierBps: number; // Surcharge on top of the base fee
+};
+
+// Quote the fee FeeManager charges payer for a transfer of amount on chainId. Resolves to null where no FeeManager is deployed.
+export async function quoteProtocolFee(
+  publicClient: PublicClient,
+  amount: bigint,
+  chainId: number,
+  payer?: `0x${string}`,
+  feeType: FeeType = "protocol"
+): Promise<ProtocolFeeQuote | null> {
+  const feeManagerAddress = findContractAddress("FeeManager", chainId);
+  if (!feeManagerAddress) return null;
+
+  const account = payer ?? zeroAddress;
+  const read = { address: feeManagerAddress, abi: FeeManagerAbi } as const;
+
+  try {
+    const [fee, grossFee, exempt, discountRate, structure] = await Promise.all([
+      publicClient.readContract({ ...read, functionName: "calculateFee", args: [feeType, amount, BigInt(chainId), account] }),
+      // The zero address has no discount or exemption, so it prices the undiscounted fee
+      publicClient.readContract({ ...read, functionName: "calculateFee", args: [feeType, amount, BigInt(chainId), zeroAddress] }),
+      publicClient.readContract({ ...read, functionName: "feeExemptions", args: [account] }),
+      publicClient.readContract({ ...read, functionName: "discountRates", args: [account] }),
+      publicClient.readContract({ ...read, functionName: "feeStructures", args: [feeType] })
+    ]);
+    const [baseFeeRate, , , congestionMultiplier] = structure;
+
+    const quote: ProtocolFeeQuote = {
+      feeType,
+      fee,
+      grossFee,
+      discount: grossFee > fee ? grossFee - fee : BigInt(0),
+      discountBps: Number(discountRate),
+      exempt,
+      baseFeeRateBps: Number(baseFeeRate),
+      congestionMultiplierBps: Number(congestionMultiplier)
+    };
+
+    if (process.env.NODE_ENV === "development") {
+      console.groupCollapsed("quoteProtocolFee");
+      console.table({
+        feeType,
+        amount: String(amount),
+        payer: account,
+        fee: String(fee),
+        grossFee: String(grossFee),
+        discountBps: quote.discountBps,
+        exempt
+      });
+      console.groupEnd();
+    }
+
+    return quote;
+  } catch (error) {
+    throw decodeBridgeError(error, { fallbackPrefix: "Failed to quote protocol fee" });
+  }
+}
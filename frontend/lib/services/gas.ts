@@ -0,0 +1,62 @@
+import type { PublicClient } from "viem";
+import { getChain } from "../chains";
+import { BridgeError, decodeBridgeError } from "../errors";
+
+// Gas limit and EIP-1559 fees for a contract write, estimated before the wallet prompt so
+// reverts surface as decoded errors instead of failed transactions.
+
+export type GasSettings = {
+  gas: bigint;
+  maxFeePerGas?: bigint; // Unset on chains without EIP-1559; the wallet prices those
+  maxPriorityFeePerGas?: bigint;
+};
+
+export type GasOptions = {
+  bufferBps?: number; // Overrides the chain's gasBufferBps
+};
+
+async function estimateFees(publicClient: PublicClient): Promise<Pick<GasSettings, "maxFeePerGas" | "maxPriorityFeePerGas">> {
+  try {
+    const { maxFeePerGas, maxPriorityFeePerGas } = await publicClient.estimateFeesPerGas();
+    return { maxFeePerGas, maxPriorityFeePerGas };
+  } catch {
+    return {};
+  }
+}
+
+// Run estimate, add the buffer and clamp to the chain's cap. Throws the decoded revert if estimation fails.
+export async function prepareGas(
+  publicClient: PublicClient,
+  chainId: number,
+  estimate: () => Promise<bigint>,
+  options: GasOptions = {}
+): Promise<GasSettings> {
+  const chain = getChain(chainId);
+  const { bufferBps = chain.gasBufferBps } = options;
+  const cap = BigInt(chain.gasLimitCap);
+
+  let estimated: bigint;
+  try {
+    estimated = await estimate();
+  } catch (error) {
+    throw decodeBridgeError(error, { fallbackPrefix: "Gas estimation failed" });
+  }
+
+  if (estimated > cap) {
+    throw new BridgeError(
+      "LIMIT_EXCEEDED",
+      `Transaction needs ${estimated.toString()} gas, above the ${cap.toString()} limit on ${chain.name}.`
+    );
+  }
+
+  const buffered = estimated + (estimated * BigInt(bufferBps)) / BigInt(10000);
+  const gas = buffered > cap ? cap : buffered;
+
+  if (process.env.NODE_ENV === "development") {
+    console.groupCollapsed("prepareGas");
+    console.table({ chainId, estimated: String(estimated), gas: String(gas), cap: String(cap) });
+    console.groupEnd();
+  }
+
+  return { gas, ...(await estimateFees(publicClient)) };
+}
@@ -0,0 +1,95 @@
+import type { PublicClient, WalletClient } from "viem";
+import { ERC20Abi } from "../abi/erc20";
+import { NATIVE_TOKEN_ADDRESS, findToken } from "../tokens";
+import { getApprovalAmount } from "./approvalPolicy";
+
+// Spend authorization for bridge contracts: allowance checks and approve transactions.
+// No permits are signed; SettlementSwitch.executePermit passes the switch itself as owner, so a permit
+// signed by the user cannot verify there. permitData is left empty.
+
+export type SpendParams = {
+  token: `0x${string}`;
+  owner: `0x${string}`;
+  spender: `0x${string}`;
+  amount: bigint;
+  approvalAmount?: bigint; // Approved when an approve transaction is needed; defaults to the approval policy
+};
+
+export const EMPTY_PERMIT_DATA = "0x" as const;
+
+async function getClientChainId(publicClient: PublicClient): Promise<number> {
+  return publicClient.chain?.id ?? publicClient.getChainId();
+}
+
+// USDT-style tokens revert when changing a non-zero allowance to another non-zero value
+function requiresAllowanceReset(token: `0x${string}`, chainId: number): boolean {
+  return findToken(token, chainId)?.canonicalId === "usdt";
+}
+
+async function approveToken(
+  publicClient: PublicClient,
+  walletClient: WalletClient,
+  params: { token: `0x${string}`; owner: `0x${string}`; spender: `0x${string}`; amount: bigint; currentAllowance: bigint }
+): Promise<`0x${string}`> {
+  const { token, owner, spender, amount, currentAllowance } = params;
+
+  if (currentAllowance > BigInt(0) && requiresAllowanceReset(token, await getClientChainId(publicClient))) {
+    const resetHash = await walletClient.writeContract({
+      address: token,
+      abi: ERC20Abi,
+      functionName: "approve",
+      args: [spender, BigInt(0)],
+      account: owner,
+      chain: walletClient.chain
+    });
+    await publicClient.waitForTransactionReceipt({ hash: resetHash });
+  }
+
+  const hash = await walletClient.writeContract({
+    address: token,
+    abi: ERC20Abi,
+    functionName: "approve",
+    args: [spender, amount],
+    account: owner,
+    chain: walletClient.chain
+  });
+  await publicClient.waitForTransactionReceipt({ hash });
+  return hash;
+}
+
+async function readAllowance(
+  publicClient: PublicClient,
+  params: { token: `0x${string}`; owner: `0x${string}`; spender: `0x${string}` }
+): Promise<bigint> {
+  return await publicClient.readContract({
+    address: params.token,
+    abi: ERC20Abi,
+    functionName: "allowance",
+    args: [params.owner, params.spender]
+  }) as bigint;
+}
+
+// Whether spender can already pull amount from owner without an approval
+export async function hasAllowance(
+  publicClient: PublicClient,
+  params: { token: `0x${string}`; owner: `0x${string}`; spender: `0x${string}`; amount: bigint }
+): Promise<boolean> {
+  if (params.token === NATIVE_TOKEN_ADDRESS) return true;
+  return (await readAllowance(publicClient, params)) >= params.amount;
+}
+
+// Make sure spender can pull amount from owner, sending an approve transaction only when the
+// current allowance falls short. Resolves to the approval hash, or undefined when none was needed.
+export async function ensureApproval(
+  publicClient: PublicClient,
+  walletClient: WalletClient,
+  params: SpendParams
+): Promise<`0x${string}` | undefined> {
+  const { token, owner, spender, amount, approvalAmount = getApprovalAmount(amount) } = params;
+  if (token === NATIVE_TOKEN_ADDRESS) return undefined;
+
+  const currentAllowance = await readAllowance(publicClient, { token, owner, spender });
+  if (currentAllowance >= amount) return undefined;
+
+  return approveToken(publicClient, walletClient, { token, owner, spender, amount: approvalAmount, currentAllowance });
+}
@@ -0,0 +1,122 @@
+import type { PublicClient } from "viem";
+import { SettlementSwitchAbi } from "../abi/SettlementSwitch";
+import { findContractAddress } from "../chains";
+import type { BridgeRoute, MultiPathLeg } from "./settlementSwitch";
+
+// Quote freshness: every quote records when and at which block it was fetched, and expires after the
+// SettlementSwitch route cache TTL so nothing older than the contract's own cache is signed.
+
+export type QuoteStamp = {
+  fetchedAt: number; // ms since epoch
+  blockNumber: bigint;
+  expiresAt: number; // ms since epoch
+};
+
+export type QuoteChangeField = "amountOut" | "bridgeFee" | "estimatedTimeMinutes";
+
+export type QuoteChange = {
+  field: QuoteChangeField;
+  before: bigint;
+  after: bigint;
+  worse: boolean; // Less output, higher fee or slower
+};
+
+// SettlementSwitch.ROUTE_CACHE_TTL, used when getRouteCacheTtl() cannot be read
+export const DEFAULT_QUOTE_TTL_SECONDS = 60;
+// Time a fresh quote's on-chain deadline allows for approvals, signing and inclusion
+export const QUOTE_SIGNING_WINDOW_SECONDS = 5 * 60;
+// Output or fee moves smaller than this are not worth asking the user about
+export const MATERIAL_CHANGE_BPS = 50;
+
+// getRouteCacheTtl() per chain; the admin rarely changes it, so it is re-read at most every few minutes
+const TTL_REFRESH_MS = 5 * 60 * 1000;
+const ttlCache = new Map<number, { ttlSeconds: number; readAt: number }>();
+
+export async function getQuoteTtlSeconds(publicClient: PublicClient, chainId: number): Promise<number> {
+  const cached = ttlCache.get(chainId);
+  if (cached && Date.now() - cached.readAt < TTL_REFRESH_MS) return cached.ttlSeconds;
+
+  const settlementSwitchAddress = findContractAddress("SettlementSwitch", chainId);
+  if (!settlementSwitchAddress) return DEFAULT_QUOTE_TTL_SECONDS;
+
+  try {
+    const ttl = await publicClient.readContract({
+      address: settlementSwitchAddress,
+      abi: SettlementSwitchAbi,
+      functionName: "getRouteCacheTtl"
+    });
+    // A zero TTL disables the contract cache; still give quotes the default lifetime
+    const ttlSeconds = ttl > BigInt(0) ? Number(ttl) : DEFAULT_QUOTE_TTL_SECONDS;
+    ttlCache.set(chainId, { ttlSeconds, readAt: Date.now() });
+    return ttlSeconds;
+  } catch (error) {
+    if (process.env.NODE_ENV === "development") {
+      console.warn("Failed to read route cache TTL, using default:", error);
+    }
+    return DEFAULT_QUOTE_TTL_SECONDS;
+  }
+}
+
+// Record the current time and block for a quote about to be fetched. ttlSeconds overrides the contract TTL.
+export async function stampQuote(publicClient: PublicClient, chainId: number, ttlSeconds?: number): Promise<QuoteStamp> {
+  const [blockNumber, ttl] = await Promise.all([
+    publicClient.getBlockNumber(),
+    ttlSeconds ?? getQuoteTtlSeconds(publicClient, chainId)
+  ]);
+  const fetchedAt = Date.now();
+  return { fetchedAt, blockNumber, expiresAt: fetchedAt + ttl * 1000 };
+}
+
+export function isQuoteExpired(stamp: QuoteStamp, now: number = Date.now()): boolean {
+  return now >= stamp.expiresAt;
+}
+
+// On-chain deadline for a route quoted under stamp
+export function getRouteDeadline(stamp: QuoteStamp): bigint {
+  return BigInt(Math.floor(stamp.expiresAt / 1000) + QUOTE_SIGNING_WINDOW_SECONDS);
+}
+
+function isMaterial(before: bigint, after: bigint): boolean {
+  if (before === after) return false;
+  if (before === BigInt(0)) return true;
+  const delta = after > before ? after - before : before - after;
+  return delta * BigInt(10000) >= before * BigInt(MATERIAL_CHANGE_BPS);
+}
+
+// Material differences between the route a user was shown and the one about to be signed
+export function diffRouteQuotes(before: BridgeRoute, after: BridgeRoute): QuoteChange[] {
+  const changes: QuoteChange[] = [];
+
+  if (isMaterial(before.amountOut, after.amountOut)) {
+    changes.push({ field: "amountOut", before: before.amountOut, after: after.amountOut, worse: after.amountOut < before.amountOut });
+  }
+  if (isMaterial(before.metrics.bridgeFee, after.metrics.bridgeFee)) {
+    changes.push({
+      field: "bridgeFee",
+      before: before.metrics.bridgeFee,
+      after: after.metrics.bridgeFee,
+      worse: after.metrics.bridgeFee > before.metrics.bridgeFee
+    });
+  }
+  if (before.metrics.estimatedTimeMinutes !== after.metrics.estimatedTimeMinutes) {
+    changes.push({
+      field: "estimatedTimeMinutes",
+      before: before.metrics.estimatedTimeMinutes,
+      after: after.metrics.estimatedTimeMinutes,
+      worse: after.metrics.estimatedTimeMinutes > before.metrics.estimatedTimeMinutes
+    });
+  }
+
+  return changes;
+}
+
+// Material differences per leg between a split the user was shown and its re-quote. A quoted leg's route
+// keeps the full-amount metrics, so each leg is compared at its own share.
+export function diffMultiPathLegs(before: MultiPathLeg[], after: MultiPathLeg[]): QuoteChange[][] {
+  const atShare = (leg: MultiPathLeg): BridgeRoute => ({
+    ...leg.route,
+    amountOut: leg.expectedAmountOut,
+    metrics: { ...leg.route.metrics, bridgeFee: leg.bridgeFee }
+  });
+  return before.map((leg, index) => diffRouteQuotes(atShare(leg), atShare(after[index])));
+}
@@ -0,0 +1,99 @@
+import { encodePacked, keccak256 } from "viem";
+import type { PublicClient } from "viem";
+import { SettlementSwitchAbi } from "../abi/SettlementSwitch";
+import { findContractAddress } from "../chains";
+import { isQuoteExpired } from "./quotes";
+import type { MultipleRoutesResult, RoutePreferences } from "./settlementSwitch";
+
+// Route quote caching: an in-memory LRU of recent quotes keyed exactly like
+// SettlementSwitch._generateRouteCacheKey, dropped on RouteCacheUpdated.
+
+export type RouteCacheParams = {
+  tokenIn: `0x${string}`;
+  tokenOut: `0x${string}`;
+  amount: bigint;
+  srcChainId: number;
+  dstChainId: number;
+  preferences: RoutePreferences;
+};
+
+const MAX_CACHED_QUOTES = 50;
+
+// chainId -> cache key -> quote; Map iteration order doubles as recency (oldest first)
+const quotes = new Map<number, Map<`0x${string}`, MultipleRoutesResult>>();
+
+// keccak256(abi.encodePacked(tokenIn, tokenOut, amount, srcChainId, dstChainId, mode, maxSlippageBps))
+export function getRouteCacheKey(params: RouteCacheParams): `0x${string}` {
+  return keccak256(
+    encodePacked(
+      ["address", "address", "uint256", "uint256", "uint256", "uint8", "uint256"],
+      [
+        params.tokenIn,
+        params.tokenOut,
+        params.amount,
+        BigInt(params.srcChainId),
+        BigInt(params.dstChainId),
+        params.preferences.mode,
+        BigInt(params.preferences.maxSlippageBps)
+      ]
+    )
+  );
+}
+
+export function getCachedQuote(chainId: number, key: `0x${string}`): MultipleRoutesResult | undefined {
+  const chainQuotes = quotes.get(chainId);
+  const quote = chainQuotes?.get(key);
+  if (!chainQuotes || !quote) return undefined;
+
+  chainQuotes.delete(key);
+  if (isQuoteExpired(quote)) return undefined;
+
+  chainQuotes.set(key, quote); // Most recently used goes last
+  return quote;
+}
+
+export function cacheQuote(chainId: number, key: `0x${string}`, quote: MultipleRoutesResult) {
+  const chainQuotes = quotes.get(chainId) ?? new Map<`0x${string}`, MultipleRoutesResult>();
+  quotes.set(chainId, chainQuotes);
+
+  chainQuotes.delete(key);
+  chainQuotes.set(key, quote);
+  while (chainQuotes.size > MAX_CACHED_QUOTES) {
+    const oldest = chainQuotes.keys().next().value;
+    if (oldest === undefined) break;
+    chainQuotes.delete(oldest);
+  }
+}
+
+// Drop one quote, or every quote on the chain when no key is given
+export function invalidateCachedQuotes(chainId: number, key?: `0x${string}`) {
+  if (key) {
+    quotes.get(chainId)?.delete(key);
+  } else {
+    quotes.delete(chainId);
+  }
+}
+
+// Keep the LRU in step with the contract. RouteCacheUpdated only carries a hash, and the switch's
+// _cacheRoute hashes with the transferId rather than the lookup key, so an unknown hash clears the chain.
+export function watchRouteCache(publicClient: PublicClient, chainId: number): () => void {
+  const settlementSwitchAddress = findContractAddress("SettlementSwitch", chainId);
+  if (!settlementSwitchAddress) return () => {};
+
+  return publicClient.watchContractEvent({
+    address: settlementSwitchAddress,
+    abi: SettlementSwitchAbi,
+    eventName: "RouteCacheUpdated",
+    onLogs: (logs) => {
+      logs.forEach((log) => {
+        const routeHash = log.args.routeHash;
+        if (routeHash && quotes.get(chainId)?.has(routeHash)) {
+          invalidateCachedQuotes(chainId, routeHash);
+        } else {
+          invalidateCachedQuotes(chainId);
+        }
+      });
+    },
+    onError: (error) => console.warn("Route cache watcher error:", error)
+  });
+}
@@ -0,0 +1,267 @@
+import { keccak256, parseEventLogs, stringToHex, zeroHash } from "viem";
+import type { ContractFunctionArgs, Log, PublicClient, WalletClient } from "viem";
+import { SettlementSwitchAbi } from "../abi/SettlementSwitch";
+import { BridgeError, decodeBridgeError } from "../errors";
+import { getSettlementSwitchAddress } from "./settlementSwitch";
+import { runSimulation, type Simulation } from "./simulation";
+
+// SettlementSwitch operator actions: role detection, typed admin calls and the audit log of admin events
+
+export type AdminRole = "DEFAULT_ADMIN_ROLE" | "EMERGENCY_ROLE";
+
+export type AdminRoles = Record<AdminRole, boolean>;
+
+export type AdminFunctionName =
+  | "registerBridgeAdapter"
+  | "setBridgeAdapterStatus"
+  | "emergencyPause"
+  | "emergencyUnpause"
+  | "updateRouteCacheTtl"
+  | "updateChainConfig"
+  | "setUserDailyLimit"
+  | "setBlacklistStatus";
+
+export type AdminAction = {
+  [F in AdminFunctionName]: {
+    functionName: F;
+    args: ContractFunctionArgs<typeof SettlementSwitchAbi, "nonpayable", F>;
+  };
+}[AdminFunctionName];
+
+export type AdminEventName =
+  | "BridgeAdapterRegistered"
+  | "BridgeAdapterStatusChanged"
+  | "EmergencyPause"
+  | "Paused"
+  | "Unpaused"
+  | "ChainConfigUpdated"
+  | "UserLimitsUpdated"
+  | "BlacklistUpdated";
+
+export type AdminAuditEntry = {
+  eventName: AdminEventName;
+  args: Record<string, string>; // Event arguments, stringified for display and export
+  blockNumber: bigint;
+  txHash: `0x${string}`;
+  logIndex: number;
+  timestamp: number | null; // ms since epoch; null when the block could not be read
+};
+
+export type SettlementAdminState = {
+  paused: boolean;
+  routeCacheTtlSeconds: number;
+  supportedChainIds: number[];
+};
+
+// Role each action is gated on in SettlementSwitch.sol
+export const ADMIN_ACTION_ROLES: Record<AdminFunctionName, AdminRole> = {
+  registerBridgeAdapter: "DEFAULT_ADMIN_ROLE",
+  setBridgeAdapterStatus: "DEFAULT_ADMIN_ROLE",
+  emergencyPause: "EMERGENCY_ROLE",
+  emergencyUnpause: "DEFAULT_ADMIN_ROLE",
+  updateRouteCacheTtl: "DEFAULT_ADMIN_ROLE",
+  updateChainConfig: "DEFAULT_ADMIN_ROLE",
+  setUserDailyLimit: "DEFAULT_ADMIN_ROLE",
+  setBlacklistStatus: "EMERGENCY_ROLE"
+};
+
+const ROLE_IDS: Record<AdminRole, `0x${string}`> = {
+  DEFAULT_ADMIN_ROLE: zeroHash,
+  EMERGENCY_ROLE: keccak256(stringToHex("EMERGENCY_ROLE"))
+};
+
+const ADMIN_EVENT_NAMES: AdminEventName[] = [
+  "BridgeAdapterRegistered",
+  "BridgeAdapterStatusChanged",
+  "EmergencyPause",
+  "Paused",
+  "Unpaused",
+  "ChainConfigUpdated",
+  "UserLimitsUpdated",
+  "BlacklistUpdated"
+];
+
+// How far back the audit log reaches; older admin events are not shown
+const AUDIT_LOOKBACK_BLOCKS = BigInt(10_000);
+
+function stringifyArgs(args: Record<string, unknown>): Record<string, string> {
+  return Object.fromEntries(Object.entries(args).map(([key, value]) => [key, String(value)]));
+}
+
+async function toAuditEntries(
+  publicClient: PublicClient,
+  logs: (Log & { eventName: string; args: unknown })[]
+): Promise<AdminAuditEntry[]> {
+  const blockNumbers = [...new Set(logs.map(log => log.blockNumber).filter((block): block is bigint => block !== null))];
+  const timestamps = new Map<bigint, number>();
+  await Promise.all(
+    blockNumbers.map(async blockNumber => {
+      try {
+        const block = await publicClient.getBlock({ blockNumber });
+        timestamps.set(blockNumber, Number(block.timestamp) * 1000);
+      } catch (error) {
+        if (process.env.NODE_ENV === "development") {
+          console.warn(`Failed to read block ${blockNumber}:`, error);
+        }
+      }
+    })
+  );
+
+  return logs
+    .filter(log => log.blockNumber !== null && log.transactionHash !== null)
+    .map(log => ({
+      eventName: log.eventName as AdminEventName,
+      args: stringifyArgs(log.args as Record<string, unknown>),
+      blockNumber: log.blockNumber as bigint,
+      txHash: log.transactionHash as `0x${string}`,
+      logIndex: log.logIndex ?? 0,
+      timestamp: timestamps.get(log.blockNumber as bigint) ?? null
+    }))
+    .sort((a, b) => (a.blockNumber === b.blockNumber ? b.logIndex - a.logIndex : a.blockNumber > b.blockNumber ? -1 : 1));
+}
+
+// Which of the admin roles account holds on this chain's SettlementSwitch
+export async function getAdminRoles(publicClient: PublicClient, chainId: number, account: `0x${string}`): Promise<AdminRoles> {
+  const settlementSwitchAddress = getSettlementSwitchAddress(chainId);
+
+  try {
+    const [isAdmin, isEmergency] = await Promise.all(
+      (["DEFAULT_ADMIN_ROLE", "EMERGENCY_ROLE"] as const).map(role =>
+        publicClient.readContract({
+          address: settlementSwitchAddress,
+          abi: SettlementSwitchAbi,
+          functionName: "hasRole",
+          args: [ROLE_IDS[role], account]
+        })
+      )
+    );
+    return { DEFAULT_ADMIN_ROLE: isAdmin, EMERGENCY_ROLE: isEmergency };
+  } catch (error) {
+    throw decodeBridgeError(error, { fallbackPrefix: "Failed to read admin roles" });
+  }
+}
+
+export async function getSettlementAdminState(publicClient: PublicClient, chainId: number): Promise<SettlementAdminState> {
+  const read = { address: getSettlementSwitchAddress(chainId), abi: SettlementSwitchAbi } as const;
+
+  try {
+    const [paused, routeCacheTtl, supportedChainIds] = await Promise.all([
+      publicClient.readContract({ ...read, functionName: "isPaused" }),
+      publicClient.readContract({ ...read, functionName: "getRouteCacheTtl" }),
+      publicClient.readContract({ ...read, functionName: "getSupportedChains" })
+    ]);
+    return {
+      paused,
+      routeCacheTtlSeconds: Number(routeCacheTtl),
+      supportedChainIds: supportedChainIds.map(Number)
+    };
+  } catch (error) {
+    throw decodeBridgeError(error, { fallbackPrefix: "Failed to read SettlementSwitch state" });
+  }
+}
+
+// Dry-run an admin action from account so role and state reverts surface before the wallet prompt
+export async function simulateAdminAction(
+  publicClient: PublicClient,
+  chainId: number,
+  account: `0x${string}`,
+  action: AdminAction
+): Promise<Simulation<null>> {
+  const settlementSwitchAddress = getSettlementSwitchAddress(chainId);
+
+  return runSimulation(
+    async () => {
+      await publicClient.simulateContract({
+        address: settlementSwitchAddress,
+        abi: SettlementSwitchAbi,
+        ...action,
+        account
+      } as Parameters<PublicClient["simulateContract"]>[0]);
+      return null;
+    },
+    { value: BigInt(0), requiresApproval: false }
+  );
+}
+
+// Send an admin action and return the admin events it emitted
+export async function executeAdminAction(
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  chainId: number,
+  action: AdminAction
+): Promise<{ hash: `0x${string}`; events: AdminAuditEntry[] }> {
+  const settlementSwitchAddress = getSettlementSwitchAddress(chainId);
+  const account = walletClient.account?.address;
+  if (!account) {
+    throw new BridgeError("UNAUTHORIZED", "Connect a wallet to perform admin actions.");
+  }
+
+  try {
+    const hash = await walletClient.writeContract({
+      address: settlementSwitchAddress,
+      abi: SettlementSwitchAbi,
+      ...action,
+      account,
+      chain: null
+    } as Parameters<WalletClient["writeContract"]>[0]);
+
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== "success") {
+      throw new BridgeError("CONTRACT_REVERT", `Admin transaction reverted. Hash: ${hash}`);
+    }
+
+    const logs = parseEventLogs({
+      abi: SettlementSwitchAbi,
+      logs: receipt.logs.filter(log => log.address.toLowerCase() === settlementSwitchAddress.toLowerCase())
+    }).filter(log => (ADMIN_EVENT_NAMES as string[]).includes(log.eventName));
+    const events = await toAuditEntries(publicClient, logs);
+
+    if (process.env.NODE_ENV === "development") {
+      console.groupCollapsed(`executeAdminAction: ${action.functionName}`);
+      console.table({ hash, args: action.args.map(String).join(", "), events: events.map(event => event.eventName).join(", ") });
+      console.groupEnd();
+    }
+
+    return { hash, events };
+  } catch (error) {
+    throw decodeBridgeError(error, { fallbackPrefix: `Failed to ${action.functionName}` });
+  }
+}
+
+// Admin events emitted by SettlementSwitch within the lookback window, newest first
+export async function getAdminAuditLog(publicClient: PublicClient, chainId: number): Promise<AdminAuditEntry[]> {
+  const settlementSwitchAddress = getSettlementSwitchAddress(chainId);
+
+  try {
+    const latestBlock = await publicClient.getBlockNumber();
+    const fromBlock = latestBlock > AUDIT_LOOKBACK_BLOCKS ? latestBlock - AUDIT_LOOKBACK_BLOCKS : BigInt(0);
+
+    const logs = await Promise.all(
+      ADMIN_EVENT_NAMES.map(eventName =>
+        publicClient.getContractEvents({
+          address: settlementSwitchAddress,
+          abi: SettlementSwitchAbi,
+          eventName,
+          fromBlock
+        })
+      )
+    );
+    return toAuditEntries(publicClient, logs.flat());
+  } catch (error) {
+    throw decodeBridgeError(error, { fallbackPrefix: "Failed to load admin audit log" });
+  }
+}
+
+// Call onChange whenever SettlementSwitch emits an admin event. Returns a function that stops watching.
+export function watchAdminEvents(publicClient: PublicClient, chainId: number, onChange: () => void): () => void {
+  const settlementSwitchAddress = getSettlementSwitchAddress(chainId);
+
+  return publicClient.watchContractEvent({
+    address: settlementSwitchAddress,
+    abi: SettlementSwitchAbi,
+    onLogs: logs => {
+      if (logs.some(log => (ADMIN_EVENT_NAMES as string[]).includes(log.eventName))) onChange();
+    },
+    onError: (error) => console.warn("Admin event watcher error:", error)
+  });
+}
@@ -1,8 +1,18 @@
-import type { PublicClient, WalletClient } from "viem";
+import { formatUnits, isAddress, parseEventLogs } from "viem";
+import type { PublicClient, TransactionReceipt, WalletClient } from "viem";
 import { SettlementSwitchAbi, RoutingMode, TransferStatus } from "../abi/SettlementSwitch";
 import { LayerZeroAdapterAbi } from "../abi/LayerZeroAdapter";
-import { ERC20Abi } from "../abi/erc20";
-import { CONTRACT_ADDRESSES, SUPPORTED_TOKENS, getContractAddress } from "../addresses";
+import { BridgeRegistryAbi } from "../abi/BridgeRegistry";
+import { LayerZeroEndpointAbi } from "../abi/LayerZeroEndpoint";
+import { findContractAddress, getChain, getContractAddress, resolveChainId } from "../chains";
+import { findToken, formatTokenAmount, getToken, type TokenInfo } from "../tokens";
+import { BridgeError, ValidationError, decodeBridgeError } from "../errors";
+import { EMPTY_PERMIT_DATA, ensureApproval, hasAllowance } from "./permit";
+import { prepareGas } from "./gas";
+import { runSimulation, type Simulation } from "./simulation";
+import { quoteProtocolFee } from "./fees";
+import { getRouteDeadline, stampQuote, type QuoteStamp } from "./quotes";
+import { cacheQuote, getCachedQuote, getRouteCacheKey } from "./routeCache";
 
 // Re-export enums for external use
 export { RoutingMode, TransferStatus };
@@ -49,37 +59,94 @@ export type BridgeTransfer = {
   completedAt: bigint;
 };
 
-export type MultipleRoutesResult = {
+export type MultipleRoutesResult = QuoteStamp & {
   routes: BridgeRoute[];
   bestRoute: BridgeRoute;
   totalOptions: number;
 };
 
-// Get Settlement Switch contract address based on current chain, with Sepolia fallback
-function getSettlementSwitchAddress(chainId: number): `0x${string}` {
-  const configured = getContractAddress("SettlementSwitch", chainId);
-  if (configured && configured.length === 42) {
-    return configured as `0x${string}`;
-  }
-  // Fallback to Sepolia aggregator if not configured for the chain yet
-  return CONTRACT_ADDRESSES.sepolia.SettlementSwitch as `0x${string}`;
+export type BridgeExecutionResult = {
+  hash: `0x${string}`;
+  transferId: `0x${string}`;
+  receipt: TransactionReceipt;
+};
+
+// TransferInitiated data a simulated bridge call is expected to emit
+export type ExpectedTransfer = {
+  transferId: `0x${string}`;
+  user: `0x${string}`;
+  recipient: `0x${string}`;
+  route: BridgeRoute;
+};
+
+export type MultiPathRoute = {
+  routes: BridgeRoute[];
+  amounts: bigint[]; // Amount sent through each route, same order as routes
+  totalAmount: bigint;
+  totalCost: bigint;
+  maxTime: bigint; // Minutes until the slowest leg completes
+};
+
+export type MultiPathLeg = {
+  route: BridgeRoute;
+  bridgeName: string;
+  amount: bigint;
+  expectedAmountOut: bigint;
+  bridgeFee: bigint; // This leg's share of the quoted bridge fee
+  estimatedCost: bigint;
+  sharePercent: number;
+  exceedsLiquidity: boolean;
+};
+
+export type MultiPathExecutionResult = {
+  hash: `0x${string}`;
+  transferIds: `0x${string}`[];
+  legs: { transferId: `0x${string}`; adapter: `0x${string}`; amount: bigint }[];
+  receipt: TransactionReceipt;
+};
+
+export type MultiPathQuote = QuoteStamp & {
+  multiPath: MultiPathRoute;
+  legs: MultiPathLeg[];
+};
+
+export type BatchBridgeItem = {
+  route: BridgeRoute;
+  recipient: `0x${string}`;
+  permitData?: `0x${string}`;
+};
+
+export type BatchTokenTotal = {
+  token: `0x${string}`;
+  amount: bigint; // Sum of amountIn across the batch; this is what gets approved
+  cost: bigint; // Sum of quoted totalCostWei, in the token's units
+};
+
+export type BatchEstimate = {
+  tokens: BatchTokenTotal[];
+  totalGasCost: bigint;
+  maxTimeMinutes: bigint; // The batch is done when its slowest transfer is
+};
+
+export type BatchExecutionResult = {
+  hash: `0x${string}`;
+  transferIds: `0x${string}`[]; // Same order as the submitted items
+  receipt: TransactionReceipt;
+};
+
+// Get Settlement Switch contract address for a chain; throws if it is not deployed there
+export function getSettlementSwitchAddress(chainId: number): `0x${string}` {
+  return getContractAddress("SettlementSwitch", chainId);
+}
+
+// Get token for chain (resolved through the token registry)
+function getTokenInfo(token: string, chainId: number): TokenInfo {
+  getChain(chainId); // Throws for unconfigured chains
+  return getToken(token, chainId);
 }
 
-// Get token address for chain
 function getTokenAddress(token: string, chainId: number): `0x${string}` {
-  if (chainId === 11155111) { // Sepolia
-    return (SUPPORTED_TOKENS.sepolia as any)[token] as `0x${string}`;
-  }
-  if (chainId === 421614) { // Arbitrum Sepolia
-    return (SUPPORTED_TOKENS.arbitrumSepolia as any)[token] as `0x${string}`;
-  }
-  if (chainId === 1) { // Ethereum Mainnet
-    return (SUPPORTED_TOKENS.mainnet as any)[token] as `0x${string}`;
-  }
-  if (chainId === 42161) { // Arbitrum One
-    return (SUPPORTED_TOKENS.arbitrumOne as any)[token] as `0x${string}`;
-  }
-  throw new Error(`Unsupported chain ID: ${chainId}`);
+  return getTokenInfo(token, chainId).address;
 }
 
 // Create default route preferences
@@ -106,23 +173,65 @@ export function getEstimatedMinimumBridgeAmount(): bigint {
   return BigInt("5000000000000000"); // 0.005 ETH in wei
 }
 
-// Helper function to validate bridge amount before processing
-export function validateBridgeAmount(amount: bigint, tokenSymbol: string = "ETH"): { isValid: boolean; error?: string } {
+// Helper function to validate bridge amount before processing.
+// The minimum is denominated in ETH, so it only applies to ETH-denominated tokens;
+// other tokens are checked against the adapter's quoted fee instead.
+export function validateBridgeAmount(
+  amount: bigint,
+  tokenSymbol: string = "ETH",
+  chainId?: number
+): { isValid: boolean; error?: string } {
+  const token = chainId !== undefined ? findToken(tokenSymbol, chainId) : undefined;
+  const canonicalId = token?.canonicalId ?? tokenSymbol.toLowerCase();
+  if (canonicalId !== "eth" && canonicalId !== "weth") {
+    return { isValid: true };
+  }
+
   const minimumAmount = getEstimatedMinimumBridgeAmount();
 
   if (amount < minimumAmount) {
-    const amountEth = Number(amount) / 1e18;
-    const minimumEth = Number(minimumAmount) / 1e18;
-
     return {
       isValid: false,
-      error: `Amount too small for bridging. Minimum recommended: ${minimumEth} ${tokenSymbol} (you entered: ${amountEth.toFixed(6)} ${tokenSymbol})`
+      error: `Amount too small for bridging. Minimum recommended: ${formatUnits(minimumAmount, 18)} ${tokenSymbol} (you entered: ${formatUnits(amount, 18)} ${tokenSymbol})`
     };
   }
 
   return { isValid: true };
 }
 
+// Check a quote against the user's route preferences; returns one message per exceeded limit
+export function getPreferenceViolations(route: BridgeRoute, preferences: RoutePreferences): string[] {
+  const violations: string[] = [];
+
+  if (route.metrics.bridgeFee > preferences.maxFeeWei) {
+    // The fee is quoted in the route's token, so format it with that token's decimals
+    const token = findToken(route.tokenIn, Number(route.srcChainId));
+    const unit = token ? ` ${token.symbol}` : "";
+    const fee = formatTokenAmount(route.metrics.bridgeFee, token ?? { decimals: 18 });
+    const maxFee = formatTokenAmount(preferences.maxFeeWei, token ?? { decimals: 18 });
+    violations.push(`Bridge fee ${fee}${unit} exceeds maxFeeWei limit of ${maxFee}${unit}`);
+  }
+
+  if (route.metrics.estimatedTimeMinutes > BigInt(preferences.maxTimeMinutes)) {
+    violations.push(
+      `Estimated time ${route.metrics.estimatedTimeMinutes.toString()} min exceeds maxTimeMinutes limit of ${preferences.maxTimeMinutes} min`
+    );
+  }
+
+  // Implied slippage is measured against the post-fee amount, so the bridge fee is not counted twice
+  const expectedOut = route.amountIn - route.metrics.bridgeFee;
+  if (expectedOut > BigInt(0) && route.amountOut < expectedOut) {
+    const slippageBps = Number(((expectedOut - route.amountOut) * BigInt(10000)) / expectedOut);
+    if (slippageBps > preferences.maxSlippageBps) {
+      violations.push(`Implied slippage ${slippageBps} bps exceeds maxSlippageBps limit of ${preferences.maxSlippageBps} bps`);
+    }
+  }
+
+  // Adapter quotes are always single-hop, so allowMultiHop never rejects them
+
+  return violations;
+}
+
 // Find optimal route using Settlement Switch
 export async function findOptimalRoute(
   publicClient: PublicClient,
@@ -137,8 +246,8 @@ export async function findOptimalRoute(
   const chainId = currentChainId || srcChainId;
   const settlementSwitchAddress = getSettlementSwitchAddress(chainId);
 
-  const tokenInAddress = tokenIn === "ETH" ? "0x0000000000000000000000000000000000000000" : getTokenAddress(tokenIn, srcChainId);
-  const tokenOutAddress = tokenOut === "ETH" ? "0x0000000000000000000000000000000000000000" : getTokenAddress(tokenOut, dstChainId);
+  const tokenInAddress = getTokenAddress(tokenIn, srcChainId);
+  const tokenOutAddress = getTokenAddress(tokenOut, dstChainId);
 
   const routePrefs = preferences || createRoutePreferences();
 
@@ -164,23 +273,323 @@ export async function findOptimalRoute(
     }) as BridgeRoute;
 
     return route;
-  } catch (error: any) {
-    const errorMessage = String(error?.message || error);
-
-    // Provide more specific error messages
-    if (errorMessage.includes('network') && errorMessage.includes('change')) {
-      throw new Error("Network changed during request. Please try again.");
-    } else if (errorMessage.includes('returned no data')) {
-      throw new Error("No routes available for this token pair and amount.");
-    } else if (errorMessage.includes('insufficient')) {
-      throw new Error("Insufficient liquidity for this route.");
-    } else {
-      throw new Error(`Failed to find optimal route: ${errorMessage}`);
+  } catch (error) {
+    throw decodeBridgeError(error, { fallbackPrefix: "Failed to find optimal route" });
+  }
+}
+
+// True when the route's bridge cannot carry the full amount on its own
+export function exceedsRouteLiquidity(route: BridgeRoute): boolean {
+  return route.metrics.liquidityAvailable < route.amountIn;
+}
+
+// Quote a transfer split across several adapters.
+// The contract returns each route quoted for the full amount and leaves totalCost/maxTime at zero,
+// so legs are rescaled to their share here and the totals are computed client-side.
+export async function findMultiPathRoute(
+  publicClient: PublicClient,
+  tokenIn: string,
+  tokenOut: string,
+  amount: bigint,
+  srcChainId: number,
+  dstChainId: number,
+  preferences?: RoutePreferences,
+  currentChainId?: number
+): Promise<MultiPathQuote> {
+  const chainId = currentChainId || srcChainId;
+  const settlementSwitchAddress = getSettlementSwitchAddress(chainId);
+
+  const tokenInAddress = getTokenAddress(tokenIn, srcChainId);
+  const tokenOutAddress = getTokenAddress(tokenOut, dstChainId);
+
+  const routePrefs = preferences || createRoutePreferences();
+
+  let stamp: QuoteStamp;
+  let quoted: MultiPathRoute;
+  try {
+    stamp = await stampQuote(publicClient, chainId);
+    quoted = await publicClient.readContract({
+      address: settlementSwitchAddress,
+      abi: SettlementSwitchAbi,
+      functionName: "findMultiPathRoute",
+      args: [
+        tokenInAddress,
+        tokenOutAddress,
+        amount,
+        BigInt(srcChainId),
+        BigInt(dstChainId),
+        {
+          mode: routePrefs.mode,
+          maxSlippageBps: BigInt(routePrefs.maxSlippageBps),
+          maxFeeWei: routePrefs.maxFeeWei,
+          maxTimeMinutes: BigInt(routePrefs.maxTimeMinutes),
+          allowMultiHop: routePrefs.allowMultiHop
+        }
+      ]
+    }) as MultiPathRoute;
+  } catch (error) {
+    throw decodeBridgeError(error, { fallbackPrefix: "Failed to find multi-path route" });
+  }
+
+  if (quoted.routes.length === 0 || quoted.routes.length !== quoted.amounts.length) {
+    throw new BridgeError("UNSUPPORTED_ROUTE", "No multi-path split is available for this transfer.");
+  }
+
+  const bridgeNames = await Promise.all(quoted.routes.map(route => getBridgeAdapterName(publicClient, route.adapter, chainId)));
+  const legs: MultiPathLeg[] = quoted.routes.map((route, index) => {
+    const legAmount = quoted.amounts[index];
+    const scale = (value: bigint) => (route.amountIn > BigInt(0) ? (value * legAmount) / route.amountIn : value);
+    return {
+      // executeMultiPathBridge overwrites amountIn before scaling amountOut, so send amountOut pre-scaled
+      route: { ...route, amountIn: legAmount, amountOut: scale(route.amountOut) },
+      bridgeName: bridgeNames[index],
+      amount: legAmount,
+      expectedAmountOut: scale(route.amountOut),
+      bridgeFee: scale(route.metrics.bridgeFee),
+      estimatedCost: scale(route.metrics.totalCostWei),
+      sharePercent: quoted.totalAmount > BigInt(0) ? Number((legAmount * BigInt(10000)) / quoted.totalAmount) / 100 : 0,
+      exceedsLiquidity: route.metrics.liquidityAvailable < legAmount
+    };
+  });
+
+  return { ...stamp, multiPath: toMultiPathRoute(legs, quoted.totalAmount), legs };
+}
+
+// The MultiPathRoute executeMultiPathBridge takes for legs, with totals computed client-side
+function toMultiPathRoute(legs: MultiPathLeg[], totalAmount: bigint): MultiPathRoute {
+  return {
+    routes: legs.map(leg => leg.route),
+    amounts: legs.map(leg => leg.amount),
+    totalAmount,
+    totalCost: legs.reduce((total, leg) => total + leg.estimatedCost, BigInt(0)),
+    maxTime: legs.reduce(
+      (slowest, leg) => (leg.route.metrics.estimatedTimeMinutes > slowest ? leg.route.metrics.estimatedTimeMinutes : slowest),
+      BigInt(0)
+    )
+  };
+}
+
+// Refresh an expired split by re-quoting every leg from its own bridge for the same leg amount.
+// The split itself is kept, so the result can be compared leg by leg with the quote the user saw.
+export async function requoteMultiPath(
+  publicClient: PublicClient,
+  quote: MultiPathQuote,
+  preferences?: RoutePreferences,
+  currentChainId?: number
+): Promise<MultiPathQuote> {
+  const requoted = await Promise.all(
+    quote.legs.map(leg => requoteRoute(publicClient, leg.route, preferences, currentChainId))
+  );
+
+  const legs: MultiPathLeg[] = quote.legs.map((leg, index) => {
+    const { route } = requoted[index];
+    return {
+      ...leg,
+      route,
+      expectedAmountOut: route.amountOut,
+      bridgeFee: route.metrics.bridgeFee,
+      estimatedCost: route.metrics.totalCostWei,
+      exceedsLiquidity: route.metrics.liquidityAvailable < leg.amount
+    };
+  });
+
+  // The split is only as fresh as its oldest leg
+  const oldest = requoted.reduce((earliest, leg) => (leg.expiresAt < earliest.expiresAt ? leg : earliest));
+  return {
+    fetchedAt: oldest.fetchedAt,
+    blockNumber: oldest.blockNumber,
+    expiresAt: oldest.expiresAt,
+    multiPath: toMultiPathRoute(legs, quote.multiPath.totalAmount),
+    legs
+  };
+}
+
+// Chain registry contract names that point at IBridgeAdapter implementations
+const BRIDGE_ADAPTER_KEYS = [
+  "LayerZeroAdapter",
+  "ConnextAdapter",
+  "AcrossAdapter",
+  "ArbitrumBridgeAdapter",
+  "ArbitrumL2Bridge"
+] as const;
+
+// Scoring weights per routing mode, mirrored from RouteCalculator._initializeScoringWeights
+const SCORING_WEIGHTS: Record<RoutingMode, { cost: number; speed: number; reliability: number; liquidity: number }> = {
+  [RoutingMode.CHEAPEST]: { cost: 60, speed: 15, reliability: 20, liquidity: 5 },
+  [RoutingMode.FASTEST]: { cost: 10, speed: 60, reliability: 25, liquidity: 5 },
+  [RoutingMode.BALANCED]: { cost: 25, speed: 25, reliability: 30, liquidity: 20 }
+};
+
+// Resolve every configured bridge adapter for a chain; throws if none are deployed there
+export function getBridgeAdaptersForChain(chainId: number): `0x${string}`[] {
+  const adapters: `0x${string}`[] = [];
+
+  for (const key of BRIDGE_ADAPTER_KEYS) {
+    const address = findContractAddress(key, chainId);
+    if (address && !adapters.some(a => a.toLowerCase() === address.toLowerCase())) {
+      adapters.push(address);
     }
   }
+
+  if (adapters.length === 0) {
+    throw new BridgeError("CONTRACT_NOT_DEPLOYED", `No bridge adapters are deployed on ${getChain(chainId).name}.`);
+  }
+
+  return adapters;
+}
+
+// Normalize route metrics to 0-100 scores (same thresholds as RouteCalculator)
+function normalizeCostScore(cost: bigint): number {
+  const maxCost = BigInt("100000000000000000"); // 0.1 ETH
+  if (cost === BigInt(0)) return 100;
+  if (cost >= maxCost) return 0;
+  return Number(((maxCost - cost) * BigInt(100)) / maxCost);
+}
+
+function normalizeSpeedScore(timeMinutes: bigint): number {
+  const maxTime = BigInt(60);
+  if (timeMinutes === BigInt(0)) return 100;
+  if (timeMinutes >= maxTime) return 0;
+  return Number(((maxTime - timeMinutes) * BigInt(100)) / maxTime);
+}
+
+function normalizeLiquidityScore(availableLiquidity: bigint, requiredAmount: bigint): number {
+  if (requiredAmount === BigInt(0)) return 100;
+  if (availableLiquidity === BigInt(0) || availableLiquidity < requiredAmount) return 0;
+
+  const utilizationRatio = (requiredAmount * BigInt(100)) / availableLiquidity;
+  if (utilizationRatio <= BigInt(10)) return 100;
+  if (utilizationRatio <= BigInt(25)) return 80;
+  if (utilizationRatio <= BigInt(50)) return 60;
+  if (utilizationRatio <= BigInt(75)) return 40;
+  return 20;
+}
+
+// Score a route for the given routing mode (higher is better)
+function scoreRoute(route: BridgeRoute, mode: RoutingMode): number {
+  const weights = SCORING_WEIGHTS[mode] ?? SCORING_WEIGHTS[RoutingMode.BALANCED];
+  const successRate = route.metrics.successRate > BigInt(100) ? 100 : Number(route.metrics.successRate);
+
+  let score =
+    (normalizeCostScore(route.metrics.totalCostWei) * weights.cost +
+      normalizeSpeedScore(route.metrics.estimatedTimeMinutes) * weights.speed +
+      successRate * weights.reliability +
+      normalizeLiquidityScore(route.metrics.liquidityAvailable, route.amountIn) * weights.liquidity) / 100;
+
+  // Apply congestion penalty
+  const congestion = Number(route.metrics.congestionLevel);
+  if (congestion > 50 && congestion <= 100) {
+    score = (score * (100 - congestion / 2)) / 100;
+  }
+
+  return score;
+}
+
+// Validate that bridge fee doesn't exceed input amount, so amountOut cannot underflow
+function assertFeeBelowAmount(bridgeFee: bigint, amount: bigint, token: TokenInfo) {
+  if (bridgeFee >= amount) {
+    const fee = formatTokenAmount(bridgeFee, token);
+    const inputAmount = formatTokenAmount(amount, token);
+    const suggestedMinimum = formatTokenAmount(bridgeFee * BigInt(2), token); // 2x bridge fee as minimum
+
+    throw new ValidationError(
+      "FEE_EXCEEDS_AMOUNT",
+      `Bridge amount too small. Bridge fee (${fee} ${token.symbol}) exceeds input amount (${inputAmount} ${token.symbol}). ` +
+      `Minimum recommended amount: ${suggestedMinimum} ${token.symbol}`
+    );
+  }
+}
+
+// Quote a single adapter; resolves to null when the adapter does not support the route
+async function quoteAdapterRoute(
+  publicClient: PublicClient,
+  adapter: `0x${string}`,
+  tokenInAddress: `0x${string}`,
+  tokenOutAddress: `0x${string}`,
+  amount: bigint,
+  srcChainId: number,
+  dstChainId: number,
+  token: TokenInfo,
+  deadline: bigint
+): Promise<BridgeRoute | null> {
+  // Check if route is supported BEFORE fetching metrics to avoid revert
+  const isSupported = await publicClient.readContract({
+    address: adapter,
+    abi: LayerZeroAdapterAbi, // All adapters implement IBridgeAdapter
+    functionName: "supportsRoute",
+    args: [tokenInAddress, tokenOutAddress, BigInt(srcChainId), BigInt(dstChainId)]
+  });
+
+  if (!isSupported) {
+    return null;
+  }
+
+  const metrics = await publicClient.readContract({
+    address: adapter,
+    abi: LayerZeroAdapterAbi,
+    functionName: "getRouteMetrics",
+    args: [tokenInAddress, tokenOutAddress, amount, BigInt(srcChainId), BigInt(dstChainId)]
+  });
+
+  assertFeeBelowAmount(metrics.bridgeFee, amount, token);
+
+  return {
+    adapter,
+    tokenIn: tokenInAddress,
+    tokenOut: tokenOutAddress,
+    amountIn: amount,
+    amountOut: amount - metrics.bridgeFee,
+    srcChainId: BigInt(srcChainId),
+    dstChainId: BigInt(dstChainId),
+    metrics: {
+      estimatedGasCost: metrics.estimatedGasCost,
+      bridgeFee: metrics.bridgeFee,
+      totalCostWei: metrics.totalCostWei,
+      estimatedTimeMinutes: metrics.estimatedTimeMinutes,
+      liquidityAvailable: metrics.liquidityAvailable,
+      successRate: metrics.successRate,
+      congestionLevel: metrics.congestionLevel
+    },
+    adapterData: "0x" as `0x${string}`,
+    deadline
+  };
+}
+
+// Get the adapters on the source chain that support a token pair
+export async function getSupportingAdapters(
+  publicClient: PublicClient,
+  tokenIn: string,
+  tokenOut: string,
+  srcChainId: number,
+  dstChainId: number
+): Promise<`0x${string}`[]> {
+  const tokenInAddress = getTokenAddress(tokenIn, srcChainId);
+  const tokenOutAddress = getTokenAddress(tokenOut, dstChainId);
+  const adapters = getBridgeAdaptersForChain(srcChainId);
+
+  const results = await Promise.allSettled(
+    adapters.map(adapter =>
+      publicClient.readContract({
+        address: adapter,
+        abi: LayerZeroAdapterAbi,
+        functionName: "supportsRoute",
+        args: [tokenInAddress, tokenOutAddress, BigInt(srcChainId), BigInt(dstChainId)]
+      })
+    )
+  );
+
+  // Surface the RPC error only if every adapter failed to answer
+  if (results.every(r => r.status === "rejected")) {
+    throw (results[0] as PromiseRejectedResult).reason;
+  }
+
+  return adapters.filter((_, i) => {
+    const result = results[i];
+    return result.status === "fulfilled" && result.value;
+  });
 }
 
-// Find multiple routes for comparison (real LayerZero integration)
+// Find multiple routes for comparison by quoting every adapter on the source chain
 export async function findMultipleRoutes(
   publicClient: PublicClient,
   tokenIn: string,
@@ -193,115 +602,199 @@ export async function findMultipleRoutes(
   currentChainId?: number
 ): Promise<MultipleRoutesResult> {
   // Validate minimum amount before processing
-  const validation = validateBridgeAmount(amount, tokenIn);
+  const validation = validateBridgeAmount(amount, tokenIn, srcChainId);
   if (!validation.isValid) {
-    throw new Error(validation.error);
+    throw new ValidationError("AMOUNT_TOO_LOW", validation.error as string);
   }
 
-  // Resolve LayerZero adapter for the source chain; fallback to Sepolia if not configured yet
-  const resolvedAdapter = getContractAddress("LayerZeroAdapter", srcChainId);
-  const layerZeroAdapter = (resolvedAdapter && resolvedAdapter.length === 42
-    ? resolvedAdapter
-    : CONTRACT_ADDRESSES.sepolia.LayerZeroAdapter) as `0x${string}`;
+  const routePrefs = preferences || createRoutePreferences();
+  const adapters = getBridgeAdaptersForChain(srcChainId);
+
+  const tokenInAddress = getTokenAddress(tokenIn, srcChainId);
+  const tokenOutAddress = getTokenAddress(tokenOut, dstChainId);
+  const tokenInInfo = getToken(tokenIn, srcChainId);
+
+  const chainId = currentChainId || srcChainId;
+  const limit = Math.max(1, maxRoutes);
+  const cacheParams = { tokenIn: tokenInAddress, tokenOut: tokenOutAddress, amount, srcChainId, dstChainId, preferences: routePrefs };
+  const cacheKey = getRouteCacheKey(cacheParams);
 
-  const tokenInAddress = tokenIn === "ETH" ? "0x0000000000000000000000000000000000000000" : getTokenAddress(tokenIn, srcChainId);
-  const tokenOutAddress = tokenOut === "ETH" ? "0x0000000000000000000000000000000000000000" : getTokenAddress(tokenOut, dstChainId);
+  // Repeat quotes within the TTL are served from memory. The key only covers mode and maxSlippageBps,
+  // so every ranked quote is cached and the remaining limits are applied on each read.
+  let ranked = getCachedQuote(chainId, cacheKey);
 
   try {
-    // Check if route is supported BEFORE fetching metrics to avoid revert
-    const isSupported = await publicClient.readContract({
-      address: layerZeroAdapter,
-      abi: LayerZeroAdapterAbi,
-      functionName: "supportsRoute",
-      args: [
-        tokenInAddress as `0x${string}`,
-        tokenOutAddress as `0x${string}`,
-        BigInt(srcChainId),
-        BigInt(dstChainId)
-      ]
-    });
+    if (!ranked) {
+      // Stamp before quoting so the recorded block is never newer than the quotes themselves
+      const stamp = await stampQuote(publicClient, chainId);
+      const deadline = getRouteDeadline(stamp);
+
+      // Quote all adapters in parallel; one failing adapter must not hide the others
+      const quotes = await Promise.allSettled(
+        adapters.map(adapter =>
+          quoteAdapterRoute(
+            publicClient,
+            adapter,
+            tokenInAddress as `0x${string}`,
+            tokenOutAddress as `0x${string}`,
+            amount,
+            srcChainId,
+            dstChainId,
+            tokenInInfo,
+            deadline
+          )
+        )
+      );
 
-    if (!isSupported) {
-      throw new Error("LayerZero does not support this route");
-    }
+      const routes: BridgeRoute[] = [];
+      let firstError: unknown = null;
+      for (const quote of quotes) {
+        if (quote.status === "fulfilled") {
+          if (quote.value) routes.push(quote.value);
+        } else if (!firstError) {
+          firstError = quote.reason;
+        }
+      }
 
-    // Get real route metrics from LayerZero adapter
-    const metrics = await publicClient.readContract({
-      address: layerZeroAdapter,
-      abi: LayerZeroAdapterAbi,
-      functionName: "getRouteMetrics",
-      args: [
-        tokenInAddress as `0x${string}`,
-        tokenOutAddress as `0x${string}`,
-        amount,
-        BigInt(srcChainId),
-        BigInt(dstChainId)
-      ]
-    });
+      if (routes.length === 0) {
+        if (firstError) throw firstError;
+        throw new ValidationError("UNSUPPORTED_ROUTE", "No routes available for this token pair and amount.");
+      }
 
-    // Validate that bridge fee doesn't exceed input amount
-    if (metrics.bridgeFee >= amount) {
-      const bridgeFeeEth = Number(metrics.bridgeFee) / 1e18;
-      const inputAmountEth = Number(amount) / 1e18;
-      const suggestedMinimum = Number(metrics.bridgeFee * BigInt(2)) / 1e18; // 2x bridge fee as minimum
+      // Rank by routing mode, best first, before any preference filtering
+      const rankedRoutes = routes
+        .map(route => ({ route, score: scoreRoute(route, routePrefs.mode) }))
+        .sort((a, b) => b.score - a.score)
+        .map(({ route }) => route);
 
-      throw new Error(
-        `Bridge amount too small. Bridge fee (${bridgeFeeEth.toFixed(6)} ETH) exceeds input amount (${inputAmountEth.toFixed(6)} ETH). ` +
-        `Minimum recommended amount: ${suggestedMinimum.toFixed(6)} ETH`
-      );
+      ranked = { ...stamp, routes: rankedRoutes, bestRoute: rankedRoutes[0], totalOptions: rankedRoutes.length };
+      cacheQuote(chainId, cacheKey, ranked);
     }
 
-    // Calculate output amount, ensuring it's never negative
-    const calculatedAmountOut = amount - metrics.bridgeFee;
-    if (calculatedAmountOut <= BigInt(0)) {
-      throw new Error("Insufficient amount after bridge fees");
+    // Drop quotes that break the user's limits; report the first violation if nothing is left
+    const acceptedRoutes = ranked.routes.filter(route => getPreferenceViolations(route, routePrefs).length === 0);
+    if (acceptedRoutes.length === 0) {
+      throw new ValidationError(
+        "PREFERENCE_VIOLATION",
+        `No route satisfies your preferences. ${getPreferenceViolations(ranked.routes[0], routePrefs)[0]}.`
+      );
     }
 
-    const route: BridgeRoute = {
-      adapter: layerZeroAdapter,
-      tokenIn: tokenInAddress as `0x${string}`,
-      tokenOut: tokenOutAddress as `0x${string}`,
-      amountIn: amount,
-      amountOut: calculatedAmountOut,
-      srcChainId: BigInt(srcChainId),
-      dstChainId: BigInt(dstChainId),
-      metrics: {
-        estimatedGasCost: metrics.estimatedGasCost,
-        bridgeFee: metrics.bridgeFee,
-        totalCostWei: metrics.totalCostWei,
-        estimatedTimeMinutes: metrics.estimatedTimeMinutes,
-        liquidityAvailable: metrics.liquidityAvailable,
-        successRate: metrics.successRate,
-        congestionLevel: metrics.congestionLevel
-      },
-      adapterData: "0x" as `0x${string}`,
-      deadline: BigInt(Math.floor(Date.now() / 1000) + 3600) // 1 hour from now
-    };
-
     return {
-      routes: [route],
-      bestRoute: route,
-      totalOptions: 1
+      ...ranked,
+      routes: acceptedRoutes.slice(0, limit),
+      bestRoute: acceptedRoutes[0],
+      totalOptions: acceptedRoutes.length
     };
-  } catch (error: any) {
-    const errorMessage = String(error?.message || error);
-
-    // Provide more specific error messages
-    if (errorMessage.includes('network') && errorMessage.includes('change')) {
-      throw new Error("Network changed during request. Please try again.");
-    } else if (errorMessage.includes('returned no data')) {
-      throw new Error("No routes available for this token pair and amount.");
-    } else if (errorMessage.includes('insufficient')) {
-      throw new Error("Insufficient liquidity available.");
-    } else if (errorMessage.includes('UnsupportedRoute')) {
-      throw new Error("LayerZero does not support this route.");
-    } else {
-      throw new Error(`Failed to find routes: ${errorMessage}`);
+  } catch (error) {
+    throw decodeBridgeError(error, { fallbackPrefix: "Failed to find routes" });
+  }
+}
+
+// Quote a route's own adapter again for the same pair and amount, e.g. when the quote shown has expired.
+// Unlike findMultipleRoutes this never switches bridges, so the fresh quote can be compared with the old one.
+export async function requoteRoute(
+  publicClient: PublicClient,
+  route: BridgeRoute,
+  preferences?: RoutePreferences,
+  currentChainId?: number
+): Promise<QuoteStamp & { route: BridgeRoute }> {
+  const srcChainId = Number(route.srcChainId);
+  const chainId = currentChainId || srcChainId;
+
+  try {
+    const token = getTokenInfo(route.tokenIn, srcChainId);
+    const stamp = await stampQuote(publicClient, chainId);
+    const fresh = await quoteAdapterRoute(
+      publicClient,
+      route.adapter,
+      route.tokenIn,
+      route.tokenOut,
+      route.amountIn,
+      srcChainId,
+      Number(route.dstChainId),
+      token,
+      getRouteDeadline(stamp)
+    );
+    if (!fresh) {
+      throw new ValidationError("UNSUPPORTED_ROUTE", "This bridge no longer supports the route.");
     }
+
+    const violations = getPreferenceViolations(fresh, preferences || createRoutePreferences());
+    if (violations.length > 0) {
+      throw new ValidationError("PREFERENCE_VIOLATION", `Route exceeds your preferences. ${violations.join("; ")}.`);
+    }
+
+    return { ...stamp, route: fresh };
+  } catch (error) {
+    throw decodeBridgeError(error, { fallbackPrefix: "Failed to refresh the quote" });
   }
 }
 
-// Execute bridge transfer
+// True when adapter is the chain's LayerZero adapter
+export function isLayerZeroAdapter(adapter: string, chainId: number): boolean {
+  const layerZeroAdapter = findContractAddress("LayerZeroAdapter", chainId);
+  return !!layerZeroAdapter && layerZeroAdapter.toLowerCase() === adapter.toLowerCase();
+}
+
+// msg.value for SettlementSwitch.executeBridge. The switch pays FeeManager's protocol fee for account out of
+// msg.value and forwards the rest to the adapter: the amount for native sends, plus LayerZero's messaging fee.
+async function getExecuteBridgeValue(
+  publicClient: PublicClient,
+  route: BridgeRoute,
+  account: `0x${string}`,
+  chainId: number
+): Promise<bigint> {
+  const amountValue = route.tokenIn === "0x0000000000000000000000000000000000000000" ? route.amountIn : BigInt(0);
+  const [protocolFee, messagingFee] = await Promise.all([
+    quoteProtocolFee(publicClient, route.amountIn, chainId, account),
+    isLayerZeroAdapter(route.adapter, chainId)
+      ? getLayerZeroMessagingFee(publicClient, route.adapter, Number(route.dstChainId))
+      : BigInt(0)
+  ]);
+  return amountValue + (protocolFee?.fee ?? BigInt(0)) + messagingFee;
+}
+
+// Simulate executeBridge for the confirmation step. Without an allowance or permitData the token pull
+// cannot be checked yet, so only the earlier validation (limits, blacklist, route) is reported.
+export async function simulateExecuteBridge(
+  publicClient: PublicClient,
+  route: BridgeRoute,
+  recipient: string,
+  account: string,
+  permitData: string = "0x",
+  currentChainId?: number
+): Promise<Simulation<ExpectedTransfer>> {
+  const chainId = currentChainId || Number(route.srcChainId);
+  const settlementSwitchAddress = getSettlementSwitchAddress(chainId);
+  const value = await getExecuteBridgeValue(publicClient, route, account as `0x${string}`, chainId);
+
+  const requiresApproval =
+    permitData === EMPTY_PERMIT_DATA &&
+    !(await hasAllowance(publicClient, {
+      token: route.tokenIn,
+      owner: account as `0x${string}`,
+      spender: settlementSwitchAddress,
+      amount: route.amountIn
+    }));
+
+  return runSimulation(
+    async () => {
+      const { result } = await publicClient.simulateContract({
+        address: settlementSwitchAddress,
+        abi: SettlementSwitchAbi,
+        functionName: "executeBridge",
+        args: [route, recipient as `0x${string}`, permitData as `0x${string}`],
+        value,
+        account: account as `0x${string}`
+      });
+      return { transferId: result, user: account as `0x${string}`, recipient: recipient as `0x${string}`, route };
+    },
+    { value, requiresApproval }
+  );
+}
+
+// Execute bridge transfer. Leave permitData as "0x" to have the spend approved automatically.
 export async function executeBridge(
   walletClient: WalletClient,
   publicClient: PublicClient,
@@ -310,199 +803,452 @@ export async function executeBridge(
   account: string,
   permitData: string = "0x",
   currentChainId?: number
-): Promise<string> {
+): Promise<BridgeExecutionResult> {
   const chainId = currentChainId || Number(route.srcChainId);
   const settlementSwitchAddress = getSettlementSwitchAddress(chainId);
 
   // Validate route parameters to prevent negative values
   if (route.amountIn <= BigInt(0)) {
-    throw new Error("Invalid input amount: must be positive");
+    throw new ValidationError("INVALID_INPUT", "Invalid input amount: must be positive");
   }
   if (route.amountOut <= BigInt(0)) {
-    throw new Error("Invalid output amount: must be positive");
+    throw new ValidationError("INVALID_INPUT", "Invalid output amount: must be positive");
   }
 
-  // Handle token approval if not ETH
-  if (route.tokenIn !== "0x0000000000000000000000000000000000000000") {
-    await ensureAllowance(
-      publicClient,
-      walletClient,
-      account as `0x${string}`,
-      settlementSwitchAddress,
-      route.amountIn,
-      route.tokenIn as `0x${string}`
-    );
-  }
+  // Limit, blacklist and route checks run before any approval prompt; the token pull is checked once approved
+  const preflight = await simulateExecuteBridge(publicClient, route, recipient, account, permitData, chainId);
+  if (preflight.error) throw preflight.error;
+  const { value } = preflight;
+
+  // Approve the switch unless the caller supplied permitData
+  const authorizedPermitData = await authorizeSwitchSpend(
+    publicClient,
+    walletClient,
+    account as `0x${string}`,
+    settlementSwitchAddress,
+    route.tokenIn,
+    route.amountIn,
+    permitData as `0x${string}`
+  );
 
   try {
-    // Set a conservative gas limit that stays within network constraints
-    // Network cap is 16,777,216, so we use 15,000,000 to be safe
-    const gasLimit = BigInt(15000000);
+    // Pre-flight again now that the spend is authorized, so a failing token pull stops before the wallet prompt
+    await publicClient.simulateContract({
+      address: settlementSwitchAddress,
+      abi: SettlementSwitchAbi,
+      functionName: "executeBridge",
+      args: [route, recipient as `0x${string}`, authorizedPermitData],
+      value,
+      account: account as `0x${string}`
+    });
+
+    const gasSettings = await prepareGas(publicClient, chainId, () =>
+      publicClient.estimateContractGas({
+        address: settlementSwitchAddress,
+        abi: SettlementSwitchAbi,
+        functionName: "executeBridge",
+        args: [route, recipient as `0x${string}`, authorizedPermitData],
+        value,
+        account: account as `0x${string}`
+      })
+    );
 
     const hash = await walletClient.writeContract({
       address: settlementSwitchAddress,
-      abi: SettlementSwitchAbi as any, // Type assertion for ABI compatibility
+      abi: SettlementSwitchAbi,
       functionName: "executeBridge",
-      args: [
-        route as any, // Type assertion to handle complex nested types
-        recipient as `0x${string}`,
-        permitData as `0x${string}`
-      ],
-      value: route.tokenIn === "0x0000000000000000000000000000000000000000" ? route.amountIn : BigInt(0),
+      args: [route, recipient as `0x${string}`, authorizedPermitData],
+      value,
       account: account as `0x${string}`,
       chain: null,
-      gas: gasLimit
+      ...gasSettings
     });
 
     // Wait for transaction receipt
     const receipt = await publicClient.waitForTransactionReceipt({ hash });
 
-    // Extract transfer ID from logs
-    const transferInitiatedLog = receipt.logs.find(log =>
-      log.topics[0] === "0x..." // TransferInitiated event signature
-    );
+    if (receipt.status !== 'success') {
+      throw new BridgeError("TRANSFER_FAILED", `Transaction failed on-chain. Hash: ${hash}`);
+    }
 
-    return hash;
+    // Extract transfer ID from the Settlement Switch TransferInitiated event
+    const [initiated] = parseEventLogs({
+      abi: SettlementSwitchAbi,
+      eventName: "TransferInitiated",
+      logs: receipt.logs.filter(log => log.address.toLowerCase() === settlementSwitchAddress.toLowerCase())
+    });
+    if (!initiated) {
+      throw new BridgeError("TRANSFER_NOT_FOUND", `TransferInitiated event not found in receipt. Hash: ${hash}`);
+    }
+
+    return { hash, transferId: initiated.args.transferId, receipt };
   } catch (error) {
     console.error("Error executing bridge:", error);
-    throw new Error(`Failed to execute bridge: ${error}`);
+    throw decodeBridgeError(error, { fallbackPrefix: "Failed to execute bridge" });
+  }
+}
+
+// Simulate executeMultiPathBridge for the confirmation step. Without an allowance or permitData the token pull
+// cannot be checked yet, so only the earlier validation (limits, blacklist, routes) is reported.
+export async function simulateMultiPathBridge(
+  publicClient: PublicClient,
+  multiPath: MultiPathRoute,
+  recipient: string,
+  account: string,
+  permitData: string = "0x",
+  currentChainId?: number
+): Promise<Simulation<readonly `0x${string}`[]>> {
+  if (multiPath.routes.length === 0 || multiPath.routes.length !== multiPath.amounts.length) {
+    throw new ValidationError("INVALID_INPUT", "Multi-path route must have one amount per route");
+  }
+  if (multiPath.amounts.some(amount => amount <= BigInt(0))) {
+    throw new ValidationError("INVALID_INPUT", "Invalid leg amount: must be positive");
+  }
+  const legTotal = multiPath.amounts.reduce((total, amount) => total + amount, BigInt(0));
+  if (legTotal !== multiPath.totalAmount) {
+    throw new ValidationError("INVALID_INPUT", "Leg amounts do not add up to the total amount");
   }
+
+  const [firstRoute] = multiPath.routes;
+  const chainId = currentChainId || Number(firstRoute.srcChainId);
+  const settlementSwitchAddress = getSettlementSwitchAddress(chainId);
+  const isNative = firstRoute.tokenIn === "0x0000000000000000000000000000000000000000";
+
+  const value = isNative ? multiPath.totalAmount : BigInt(0);
+
+  const requiresApproval =
+    permitData === EMPTY_PERMIT_DATA &&
+    !(await hasAllowance(publicClient, {
+      token: firstRoute.tokenIn,
+      owner: account as `0x${string}`,
+      spender: settlementSwitchAddress,
+      amount: multiPath.totalAmount
+    }));
+
+  return runSimulation(
+    async () => {
+      const { result } = await publicClient.simulateContract({
+        address: settlementSwitchAddress,
+        abi: SettlementSwitchAbi,
+        functionName: "executeMultiPathBridge",
+        args: [multiPath, recipient as `0x${string}`, permitData as `0x${string}`],
+        value,
+        account: account as `0x${string}`
+      });
+      return result;
+    },
+    { value, requiresApproval }
+  );
 }
 
-// Bridge with auto route (real LayerZero integration)
-export async function bridgeWithAutoRoute(
+// Execute a multi-path split; every leg becomes its own transfer
+export async function executeMultiPathBridge(
   walletClient: WalletClient,
   publicClient: PublicClient,
-  tokenIn: string,
-  tokenOut: string,
-  amount: bigint,
-  srcChainId: number,
-  dstChainId: number,
+  multiPath: MultiPathRoute,
   recipient: string,
   account: string,
-  preferences?: RoutePreferences,
   permitData: string = "0x",
   currentChainId?: number
-): Promise<string> {
-  // Resolve LayerZero adapter for the source chain; fallback to Sepolia if not configured yet
-  const resolvedAdapter = getContractAddress("LayerZeroAdapter", srcChainId);
-  const layerZeroAdapter = (resolvedAdapter && resolvedAdapter.length === 42
-    ? resolvedAdapter
-    : CONTRACT_ADDRESSES.sepolia.LayerZeroAdapter) as `0x${string}`;
+): Promise<MultiPathExecutionResult> {
+  // Limit, blacklist and route checks run before any approval prompt; the token pull is checked once approved
+  const preflight = await simulateMultiPathBridge(publicClient, multiPath, recipient, account, permitData, currentChainId);
+  if (preflight.error) throw preflight.error;
+  const { value } = preflight;
+
+  const [firstRoute] = multiPath.routes;
+  const chainId = currentChainId || Number(firstRoute.srcChainId);
+  const settlementSwitchAddress = getSettlementSwitchAddress(chainId);
 
-  const tokenInAddress = tokenIn === "ETH" ? "0x0000000000000000000000000000000000000000" : getTokenAddress(tokenIn, srcChainId);
-  const tokenOutAddress = tokenOut === "ETH" ? "0x0000000000000000000000000000000000000000" : getTokenAddress(tokenOut, dstChainId);
+  // The switch pulls every leg from the sender, so one approval covers the combined amount
+  const authorizedPermitData = await authorizeSwitchSpend(
+    publicClient,
+    walletClient,
+    account as `0x${string}`,
+    settlementSwitchAddress,
+    firstRoute.tokenIn,
+    multiPath.totalAmount,
+    permitData as `0x${string}`
+  );
 
   try {
-    // Ensure the route is supported BEFORE fetching metrics to avoid revert
-    const isSupported = await publicClient.readContract({
-      address: layerZeroAdapter,
-      abi: LayerZeroAdapterAbi,
-      functionName: "supportsRoute",
-      args: [
-        tokenInAddress as `0x${string}`,
-        tokenOutAddress as `0x${string}`,
-        BigInt(srcChainId),
-        BigInt(dstChainId)
-      ]
+    const gasSettings = await prepareGas(publicClient, chainId, () =>
+      publicClient.estimateContractGas({
+        address: settlementSwitchAddress,
+        abi: SettlementSwitchAbi,
+        functionName: "executeMultiPathBridge",
+        args: [multiPath, recipient as `0x${string}`, authorizedPermitData],
+        value,
+        account: account as `0x${string}`
+      })
+    );
+
+    const hash = await walletClient.writeContract({
+      address: settlementSwitchAddress,
+      abi: SettlementSwitchAbi,
+      functionName: "executeMultiPathBridge",
+      args: [multiPath, recipient as `0x${string}`, authorizedPermitData],
+      value,
+      account: account as `0x${string}`,
+      chain: null,
+      ...gasSettings
     });
-    if (!isSupported) {
-      throw new Error("LayerZero does not support this route");
+
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+
+    if (receipt.status !== 'success') {
+      throw new BridgeError("TRANSFER_FAILED", `Transaction failed on-chain. Hash: ${hash}`);
     }
 
-    // First get the route metrics to build the route object
-    const metrics = await publicClient.readContract({
-      address: layerZeroAdapter,
-      abi: LayerZeroAdapterAbi,
-      functionName: "getRouteMetrics",
-      args: [
-        tokenInAddress as `0x${string}`,
-        tokenOutAddress as `0x${string}`,
-        amount,
-        BigInt(srcChainId),
-        BigInt(dstChainId)
-      ]
+    const [initiated] = parseEventLogs({
+      abi: SettlementSwitchAbi,
+      eventName: "MultiPathTransferInitiated",
+      logs: receipt.logs.filter(log => log.address.toLowerCase() === settlementSwitchAddress.toLowerCase())
     });
+    if (!initiated) {
+      throw new BridgeError("TRANSFER_NOT_FOUND", `MultiPathTransferInitiated event not found in receipt. Hash: ${hash}`);
+    }
 
-    // Build the route object for the bridge call
-    const route = {
-      adapter: layerZeroAdapter,
-      tokenIn: tokenInAddress as `0x${string}`,
-      tokenOut: tokenOutAddress as `0x${string}`,
-      amountIn: amount,
-      amountOut: amount - metrics.bridgeFee,
-      srcChainId: BigInt(srcChainId),
-      dstChainId: BigInt(dstChainId),
-      metrics: {
-        estimatedGasCost: metrics.estimatedGasCost,
-        bridgeFee: metrics.bridgeFee,
-        totalCostWei: metrics.totalCostWei,
-        estimatedTimeMinutes: metrics.estimatedTimeMinutes,
-        liquidityAvailable: metrics.liquidityAvailable,
-        successRate: metrics.successRate,
-        congestionLevel: metrics.congestionLevel
-      },
-      adapterData: "0x" as `0x${string}`,
-      deadline: BigInt(Math.floor(Date.now() / 1000) + 3600)
+    const transferIds = [...initiated.args.transferIds];
+    return {
+      hash,
+      transferIds,
+      legs: transferIds.map((transferId, index) => ({
+        transferId,
+        adapter: multiPath.routes[index].adapter,
+        amount: multiPath.amounts[index]
+      })),
+      receipt
     };
+  } catch (error) {
+    console.error("Error executing multi-path bridge:", error);
+    throw decodeBridgeError(error, { fallbackPrefix: "Failed to execute multi-path bridge" });
+  }
+}
 
-    // Handle token approval if not ETH
-    if (tokenInAddress !== "0x0000000000000000000000000000000000000000") {
-      await ensureAllowance(
-        publicClient,
-        walletClient,
-        account as `0x${string}`,
-        layerZeroAdapter as `0x${string}`,
-        amount,
-        tokenInAddress as `0x${string}`
-      );
+// Combined amounts, fees and time for a batch, grouped by input token
+export function estimateBatch(items: BatchBridgeItem[]): BatchEstimate {
+  const tokens = new Map<string, BatchTokenTotal>();
+  let totalGasCost = BigInt(0);
+  let maxTimeMinutes = BigInt(0);
+
+  for (const { route } of items) {
+    const key = route.tokenIn.toLowerCase();
+    const total = tokens.get(key) ?? { token: route.tokenIn, amount: BigInt(0), cost: BigInt(0) };
+    tokens.set(key, {
+      ...total,
+      amount: total.amount + route.amountIn,
+      cost: total.cost + route.metrics.totalCostWei
+    });
+    totalGasCost += route.metrics.estimatedGasCost;
+    if (route.metrics.estimatedTimeMinutes > maxTimeMinutes) {
+      maxTimeMinutes = route.metrics.estimatedTimeMinutes;
+    }
+  }
+
+  return { tokens: Array.from(tokens.values()), totalGasCost, maxTimeMinutes };
+}
+
+// SettlementSwitch.executeBatchBridge is nonReentrant and calls this.executeBridge, which is nonReentrant too,
+// so every batch reverts with ReentrancyGuardReentrantCall. The batch builder stays hidden until the contract is fixed.
+export const BATCH_BRIDGE_AVAILABLE = false;
+
+// Approve every token in a batch for its combined amount before submitting
+async function approveBatchTokens(
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  items: BatchBridgeItem[],
+  account: string,
+  currentChainId?: number
+) {
+  if (items.length === 0) return;
+
+  const chainId = currentChainId || Number(items[0].route.srcChainId);
+  const settlementSwitchAddress = getSettlementSwitchAddress(chainId);
+
+  for (const total of estimateBatch(items).tokens) {
+    if (total.token === "0x0000000000000000000000000000000000000000") continue;
+    await ensureApproval(publicClient, walletClient, {
+      token: total.token,
+      owner: account as `0x${string}`,
+      spender: settlementSwitchAddress,
+      amount: total.amount
+    });
+  }
+}
+
+// Reject batches the switch cannot take before anything is simulated or approved
+function validateBatchItems(items: BatchBridgeItem[]) {
+  if (items.length === 0) {
+    throw new ValidationError("INVALID_INPUT", "Add at least one transfer to the batch");
+  }
+
+  const srcChainId = items[0].route.srcChainId;
+  for (const [index, { route, recipient }] of items.entries()) {
+    if (route.srcChainId !== srcChainId) {
+      throw new ValidationError("INVALID_INPUT", `Transfer ${index + 1} starts on a different chain; a batch must share its source chain`);
     }
+    if (route.amountIn <= BigInt(0)) {
+      throw new ValidationError("INVALID_INPUT", `Transfer ${index + 1}: amount must be positive`);
+    }
+    if (!isAddress(recipient)) {
+      throw new ValidationError("INVALID_INPUT", `Transfer ${index + 1}: invalid recipient address`);
+    }
+    // executeBatchBridge forwards no ETH to the individual transfers
+    if (route.tokenIn === "0x0000000000000000000000000000000000000000") {
+      throw new ValidationError("UNSUPPORTED_TOKEN", `Transfer ${index + 1}: native ETH cannot be batched; use WETH or send it separately`);
+    }
+  }
+}
+
+function getBatchArgs(items: BatchBridgeItem[]) {
+  return [
+    items.map(item => item.route),
+    items.map(item => item.recipient),
+    items.map(item => item.permitData ?? EMPTY_PERMIT_DATA)
+  ] as const;
+}
+
+// Simulate executeBatchBridge before any approval. Without allowances the token pulls cannot be checked yet,
+// so only the switch's own validation (limits, blacklist, routes) is reported.
+export async function simulateBatchBridge(
+  publicClient: PublicClient,
+  items: BatchBridgeItem[],
+  account: string,
+  currentChainId?: number
+): Promise<Simulation<readonly `0x${string}`[]>> {
+  validateBatchItems(items);
+
+  const chainId = currentChainId || Number(items[0].route.srcChainId);
+  const settlementSwitchAddress = getSettlementSwitchAddress(chainId);
+  const allowances = await Promise.all(
+    estimateBatch(items).tokens.map(total =>
+      hasAllowance(publicClient, {
+        token: total.token,
+        owner: account as `0x${string}`,
+        spender: settlementSwitchAddress,
+        amount: total.amount
+      })
+    )
+  );
+
+  return runSimulation(
+    async () => {
+      const { result } = await publicClient.simulateContract({
+        address: settlementSwitchAddress,
+        abi: SettlementSwitchAbi,
+        functionName: "executeBatchBridge",
+        args: getBatchArgs(items),
+        account: account as `0x${string}`
+      });
+      return result;
+    },
+    { value: BigInt(0), requiresApproval: allowances.includes(false) }
+  );
+}
+
+// Execute several transfers in one transaction. The batch is simulated before any approval is requested.
+export async function executeBatchBridge(
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  items: BatchBridgeItem[],
+  account: string,
+  currentChainId?: number
+): Promise<BatchExecutionResult> {
+  const preflight = await simulateBatchBridge(publicClient, items, account, currentChainId);
+  if (preflight.error) throw preflight.error;
+
+  const chainId = currentChainId || Number(items[0].route.srcChainId);
+  const settlementSwitchAddress = getSettlementSwitchAddress(chainId);
+
+  await approveBatchTokens(walletClient, publicClient, items, account, chainId);
+
+  try {
+    const args = getBatchArgs(items);
 
-    // Execute the bridge transaction directly with LayerZero adapter
-    // Set a conservative gas limit that stays within network constraints
-    // Network cap is 16,777,216, so we use 15,000,000 to be safe
-    const gasLimit = BigInt(15000000);
+    // Pre-flight again with the approvals in place so a failing token pull stops before the wallet prompt
+    await publicClient.simulateContract({
+      address: settlementSwitchAddress,
+      abi: SettlementSwitchAbi,
+      functionName: "executeBatchBridge",
+      args,
+      account: account as `0x${string}`
+    });
+
+    const gasSettings = await prepareGas(publicClient, chainId, () =>
+      publicClient.estimateContractGas({
+        address: settlementSwitchAddress,
+        abi: SettlementSwitchAbi,
+        functionName: "executeBatchBridge",
+        args,
+        account: account as `0x${string}`
+      })
+    );
 
     const hash = await walletClient.writeContract({
-      address: layerZeroAdapter as `0x${string}`,
-      abi: LayerZeroAdapterAbi as any, // Type assertion for ABI compatibility
-      functionName: "executeBridge",
-      args: [
-        route as any, // Type assertion for complex nested types
-        recipient as `0x${string}`,
-        permitData as `0x${string}`
-      ],
-      value: tokenInAddress === "0x0000000000000000000000000000000000000000" ? amount : BigInt(0),
+      address: settlementSwitchAddress,
+      abi: SettlementSwitchAbi,
+      functionName: "executeBatchBridge",
+      args,
       account: account as `0x${string}`,
       chain: null,
-      gas: gasLimit
+      ...gasSettings
     });
 
-    // Wait for transaction receipt to verify success
     const receipt = await publicClient.waitForTransactionReceipt({ hash });
 
-    // Check if transaction actually succeeded
     if (receipt.status !== 'success') {
-      throw new Error(`Transaction failed on-chain. Hash: ${hash}`);
+      throw new BridgeError("TRANSFER_FAILED", `Transaction failed on-chain. Hash: ${hash}`);
     }
 
-    return hash;
-  } catch (error: any) {
-    const errorMessage = String(error?.message || error);
-
-    // Handle specific errors
-    if (errorMessage.includes('network') && errorMessage.includes('change')) {
-      throw new Error("Network changed during transaction. Please verify your network and try again.");
-    } else if (errorMessage.includes('User rejected')) {
-      throw new Error("Transaction was rejected by user.");
-    } else if (errorMessage.includes('insufficient funds')) {
-      throw new Error("Insufficient funds for transaction.");
-    } else if (errorMessage.includes('UnsupportedRoute')) {
-      throw new Error("LayerZero does not support this route.");
-    } else {
-      throw new Error(`Bridge transaction failed: ${errorMessage}`);
+    // Each transfer in the batch emits its own TransferInitiated, in submission order
+    const initiated = parseEventLogs({
+      abi: SettlementSwitchAbi,
+      eventName: "TransferInitiated",
+      logs: receipt.logs.filter(log => log.address.toLowerCase() === settlementSwitchAddress.toLowerCase())
+    });
+    if (initiated.length !== items.length) {
+      throw new BridgeError(
+        "TRANSFER_NOT_FOUND",
+        `Expected ${items.length} TransferInitiated events, found ${initiated.length}. Hash: ${hash}`
+      );
     }
+
+    return { hash, transferIds: initiated.map(log => log.args.transferId), receipt };
+  } catch (error) {
+    console.error("Error executing batch bridge:", error);
+    throw decodeBridgeError(error, { fallbackPrefix: "Failed to execute batch bridge" });
+  }
+}
+
+// Native fee the adapter's LayerZero endpoint charges to message dstChainId. Mirrors the adapter's own
+// estimateFees call (empty payload, no ZRO), which getRouteMetrics folds into bridgeFee.
+export async function getLayerZeroMessagingFee(
+  publicClient: PublicClient,
+  adapter: `0x${string}`,
+  dstChainId: number
+): Promise<bigint> {
+  const [endpoint, dstLzChainId] = await Promise.all([
+    publicClient.readContract({ address: adapter, abi: LayerZeroAdapterAbi, functionName: "lzEndpoint" }),
+    publicClient.readContract({
+      address: adapter,
+      abi: LayerZeroAdapterAbi,
+      functionName: "chainIdToLzChainId",
+      args: [BigInt(dstChainId)]
+    })
+  ]);
+
+  if (dstLzChainId === 0) {
+    throw new ValidationError("UNSUPPORTED_CHAIN", `LayerZero has no endpoint mapping for chain ${dstChainId}.`);
   }
+
+  const [nativeFee] = await publicClient.readContract({
+    address: endpoint,
+    abi: LayerZeroEndpointAbi,
+    functionName: "estimateFees",
+    args: [dstLzChainId, adapter, "0x", false, "0x"]
+  });
+  return nativeFee;
 }
 
 // Get transfer status
@@ -511,12 +1257,11 @@ export async function getTransferStatus(
   transferId: string,
   currentChainId?: number
 ): Promise<BridgeTransfer> {
-  const chainId = currentChainId || 11155111; // Default to Sepolia
-  const settlementSwitchAddress = getSettlementSwitchAddress(chainId);
+  const chainId = resolveChainId(currentChainId, publicClient);
 
   try {
     const transfer = await publicClient.readContract({
-      address: settlementSwitchAddress,
+      address: getSettlementSwitchAddress(chainId),
       abi: SettlementSwitchAbi,
       functionName: "getTransfer",
       args: [transferId as `0x${string}`]
@@ -525,87 +1270,175 @@ export async function getTransferStatus(
     return transfer;
   } catch (error) {
     console.error("Error getting transfer status:", error);
-    throw new Error(`Failed to get transfer status: ${error}`);
+    throw decodeBridgeError(error, { fallbackPrefix: "Failed to get transfer status" });
   }
 }
 
-// Get registered bridge adapters (simplified to focus on LayerZero first)
+// Every adapter in the BridgeRegistry, as parallel arrays like SettlementSwitch.getRegisteredAdapters
+export type RegisteredAdapters = {
+  adapters: `0x${string}`[];
+  names: string[];
+  enabled: boolean[]; // In the registry's enabled set, so the switch may route through it
+  healthy: boolean[]; // Result of the registry's last health check
+  supportedChains: string[][]; // Chain names as stored by the registry
+};
+
+// chainId -> lowercased adapter address -> on-chain bridge name
+const adapterNames = new Map<number, Map<string, string>>();
+
+function rememberAdapterName(chainId: number, adapter: string, name: string) {
+  if (!name) return;
+  const chainNames = adapterNames.get(chainId) ?? new Map<string, string>();
+  adapterNames.set(chainId, chainNames);
+  chainNames.set(adapter.toLowerCase(), name);
+}
+
+// Get registered bridge adapters with their names, status and supported chains from the BridgeRegistry
 export async function getRegisteredAdapters(
   publicClient: PublicClient,
   currentChainId?: number
-): Promise<{ adapters: string[]; names: string[]; enabled: boolean[] }> {
-  // For now, let's focus on LayerZero only to get something working
-  const chainId = currentChainId || 11155111;
-  const layerZeroAdapter = getContractAddress("LayerZeroAdapter", chainId);
+): Promise<RegisteredAdapters> {
+  const chainId = resolveChainId(currentChainId, publicClient);
+  const registryAddress = findContractAddress("BridgeRegistry", chainId);
 
-  if (!layerZeroAdapter) {
-    return { adapters: [], names: [], enabled: [] };
-  }
+  try {
+    if (!registryAddress) {
+      // Without a registry address only the switch's view is available: enabled and healthy adapters, no chain lists
+      const [adapters, names, enabled] = await publicClient.readContract({
+        address: getSettlementSwitchAddress(chainId),
+        abi: SettlementSwitchAbi,
+        functionName: "getRegisteredAdapters"
+      });
+      adapters.forEach((adapter, i) => rememberAdapterName(chainId, adapter, names[i]));
+      return {
+        adapters: [...adapters],
+        names: [...names],
+        enabled: [...enabled],
+        healthy: [...enabled],
+        supportedChains: adapters.map(() => [])
+      };
+    }
 
-  return {
-    adapters: [layerZeroAdapter],
-    names: ["LayerZero"],
-    enabled: [true]
-  };
+    const [registered, enabledBridges] = await Promise.all([
+      publicClient.readContract({ address: registryAddress, abi: BridgeRegistryAbi, functionName: "getRegisteredBridges" }),
+      publicClient.readContract({ address: registryAddress, abi: BridgeRegistryAbi, functionName: "getEnabledBridges" })
+    ]);
+    const enabledSet = new Set(enabledBridges.map(adapter => adapter.toLowerCase()));
+
+    const details = await Promise.all(
+      registered.map(adapter =>
+        publicClient.readContract({
+          address: registryAddress,
+          abi: BridgeRegistryAbi,
+          functionName: "getBridgeDetails",
+          args: [adapter]
+        })
+      )
+    );
+
+    const result: RegisteredAdapters = { adapters: [], names: [], enabled: [], healthy: [], supportedChains: [] };
+    registered.forEach((adapter, i) => {
+      const [info] = details[i];
+      rememberAdapterName(chainId, adapter, info.name);
+      result.adapters.push(adapter);
+      result.names.push(info.name);
+      result.enabled.push(enabledSet.has(adapter.toLowerCase()) && info.isEnabled);
+      result.healthy.push(info.isHealthy);
+      result.supportedChains.push([...info.supportedChains]);
+    });
+
+    if (process.env.NODE_ENV === "development") {
+      console.groupCollapsed("getRegisteredAdapters");
+      console.table(
+        result.adapters.map((adapter, i) => ({
+          adapter,
+          name: result.names[i],
+          enabled: result.enabled[i],
+          healthy: result.healthy[i],
+          chains: result.supportedChains[i].join(", ")
+        }))
+      );
+      console.groupEnd();
+    }
+
+    return result;
+  } catch (error) {
+    throw decodeBridgeError(error, { fallbackPrefix: "Failed to load bridge adapters" });
+  }
 }
 
-// Ensure token allowance (reused from existing service)
-async function ensureAllowance(
+// permitData for a Settlement Switch call. A caller-supplied payload is passed through as given; otherwise the
+// switch is approved. No permit is signed: SettlementSwitch.executePermit calls permit() with the switch itself
+// as owner, so a permit signed by the user can never verify there.
+async function authorizeSwitchSpend(
   publicClient: PublicClient,
   walletClient: WalletClient,
   owner: `0x${string}`,
   spender: `0x${string}`,
-  amountUnits: bigint,
-  tokenAddress: `0x${string}`
-) {
-  const currentAllowance = await publicClient.readContract({
-    address: tokenAddress,
-    abi: ERC20Abi,
-    functionName: "allowance",
-    args: [owner, spender],
-  }) as bigint;
-
-  if (currentAllowance < amountUnits) {
-    const hash = await walletClient.writeContract({
-      address: tokenAddress,
-      abi: ERC20Abi as any, // Type assertion for ABI compatibility
-      functionName: "approve",
-      args: [spender, amountUnits],
-      account: owner,
-      chain: null
-    });
-
-    await publicClient.waitForTransactionReceipt({ hash });
-  }
+  token: `0x${string}`,
+  amount: bigint,
+  permitData: `0x${string}`
+): Promise<`0x${string}`> {
+  if (permitData !== EMPTY_PERMIT_DATA) return permitData;
+  await ensureApproval(publicClient, walletClient, { token, owner, spender, amount });
+  return EMPTY_PERMIT_DATA;
 }
 
-// Format route metrics for display
-export function formatRouteMetrics(metrics: RouteMetrics) {
+// Format route metrics for display. Gas is always paid in the native token;
+// fee, total cost and liquidity are quoted in the bridged token's units.
+export function formatRouteMetrics(metrics: RouteMetrics, token: Pick<TokenInfo, "decimals"> = { decimals: 18 }) {
   return {
-    gasCostETH: Number(metrics.estimatedGasCost) / 1e18,
-    bridgeFeeETH: Number(metrics.bridgeFee) / 1e18,
-    totalCostETH: Number(metrics.totalCostWei) / 1e18,
+    gasCostETH: Number(formatUnits(metrics.estimatedGasCost, 18)),
+    bridgeFee: Number(formatTokenAmount(metrics.bridgeFee, token)),
+    totalCost: Number(formatTokenAmount(metrics.totalCostWei, token)),
     estimatedTimeMinutes: Number(metrics.estimatedTimeMinutes),
     successRatePercent: Number(metrics.successRate) / 100,
-    liquidityAvailableETH: Number(metrics.liquidityAvailable) / 1e18,
+    liquidityAvailable: Number(formatTokenAmount(metrics.liquidityAvailable, token)),
     congestionLevel: Number(metrics.congestionLevel)
   };
 }
 
-// Get bridge adapter name from address
-export function getBridgeAdapterName(adapterAddress: string): string {
-  const addr = adapterAddress.toLowerCase();
+// Get bridge adapter name on-chain: the BridgeRegistry entry, else the adapter's own getBridgeName()
+export async function getBridgeAdapterName(
+  publicClient: PublicClient,
+  adapterAddress: string,
+  currentChainId?: number
+): Promise<string> {
+  if (!isAddress(adapterAddress)) return "Unknown Bridge";
+
+  const chainId = resolveChainId(currentChainId, publicClient);
+  const cached = adapterNames.get(chainId)?.get(adapterAddress.toLowerCase());
+  if (cached) return cached;
 
-  // Check all chains
-  for (const chainKey of Object.keys(CONTRACT_ADDRESSES)) {
-    const adapters = (CONTRACT_ADDRESSES as any)[chainKey];
-    if (adapters.LayerZeroAdapter && adapters.LayerZeroAdapter.toLowerCase() === addr) return "LayerZero";
-    if (adapters.ConnextAdapter && adapters.ConnextAdapter.toLowerCase() === addr) return "Connext";
-    if (adapters.AcrossAdapter && adapters.AcrossAdapter.toLowerCase() === addr) return "Across";
-    if (adapters.ArbitrumL2Bridge && adapters.ArbitrumL2Bridge.toLowerCase() === addr) return "Arbitrum Bridge";
-  }
+  const registryAddress = findContractAddress("BridgeRegistry", chainId);
+  try {
+    let name = "";
+    if (registryAddress) {
+      const [info] = await publicClient.readContract({
+        address: registryAddress,
+        abi: BridgeRegistryAbi,
+        functionName: "getBridgeDetails",
+        args: [adapterAddress]
+      });
+      name = info.name;
+    }
+    // Unregistered adapters have an empty registry entry
+    if (!name) {
+      name = await publicClient.readContract({
+        address: adapterAddress,
+        abi: LayerZeroAdapterAbi,
+        functionName: "getBridgeName"
+      });
+    }
 
-  return "Unknown Bridge";
+    rememberAdapterName(chainId, adapterAddress, name);
+    return name || "Unknown Bridge";
+  } catch (error) {
+    if (process.env.NODE_ENV === "development") {
+      console.warn("Failed to resolve bridge adapter name:", error);
+    }
+    return "Unknown Bridge";
+  }
 }
 
 // Subscribe to transfer events
@@ -615,7 +1448,7 @@ export function subscribeToTransferEvents(
   onTransferCompleted?: (log: any) => void,
   currentChainId?: number
 ) {
-  const chainId = currentChainId || 11155111;
+  const chainId = resolveChainId(currentChainId, publicClient);
   const settlementSwitchAddress = getSettlementSwitchAddress(chainId);
 
   // Subscribe to TransferInitiated events
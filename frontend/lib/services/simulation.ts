@@ -0,0 +1,38 @@
+import { BridgeError, decodeBridgeError } from "../errors";
+
+// Pre-flight results for bridge writes, shown in the confirmation step before the wallet prompt
+
+export type Simulation<T> = {
+  result: T | null; // What the transaction is expected to produce; null when it reverts or could not be checked
+  error: BridgeError | null; // Decoded revert reason
+  value: bigint; // Native value the transaction must carry
+  requiresApproval: boolean; // The token pull can only be checked once the spend is authorized
+};
+
+// Reverts caused by the missing allowance itself; expected until the user approves the spender
+const APPROVAL_ERROR_CODES = new Set(["INSUFFICIENT_ALLOWANCE", "TRANSFER_FAILED"]);
+
+// Run a simulateContract call and capture its outcome instead of throwing
+export async function runSimulation<T>(
+  simulate: () => Promise<T>,
+  options: { value: bigint; requiresApproval: boolean; decode?: (error: unknown) => BridgeError }
+): Promise<Simulation<T>> {
+  const { value, requiresApproval, decode = decodeBridgeError } = options;
+
+  try {
+    return { result: await simulate(), error: null, value, requiresApproval };
+  } catch (err) {
+    const error = decode(err);
+    if (requiresApproval && APPROVAL_ERROR_CODES.has(error.code)) {
+      return { result: null, error: null, value, requiresApproval };
+    }
+
+    if (process.env.NODE_ENV === "development") {
+      console.groupCollapsed("runSimulation: revert");
+      console.log(err);
+      console.table({ code: error.code, decoded: error.message });
+      console.groupEnd();
+    }
+    return { result: null, error, value, requiresApproval };
+  }
+}
@@ -1,29 +1,54 @@
 import type { PublicClient, WalletClient } from "viem";
 import { StablecoinSwitchAbi } from "../abi/StablecoinSwitch";
-import { ERC20Abi } from "../abi/erc20";
-import { CONTRACT_ADDRESSES, SUPPORTED_TOKENS, getContractAddress } from "../addresses";
+import { findChain, getContractAddress, resolveChainId } from "../chains";
+import { getToken } from "../tokens";
+import { BridgeError, ValidationError, decodeBridgeError, type BridgeErrorCode } from "../errors";
+import { ensureApproval, hasAllowance } from "./permit";
+import { runSimulation, type Simulation } from "./simulation";
 
 export type OptimalRoute = {
   bridge: string;
   estimatedGasUSD: number;
+  bridgeFeeUSD: number;
   estimatedTimeSeconds: number;
 };
 
-// Dynamic contract address getter
-function getStablecoinSwitchAddress(chainId: number): `0x${string}` {
-  return getContractAddress("StablecoinSwitch", chainId) as `0x${string}`;
-}
+// RouteInfo returned by routeTransaction
+export type RouteInfo = {
+  fromToken: `0x${string}`;
+  toToken: `0x${string}`;
+  fromChainId: bigint;
+  toChainId: bigint;
+  estimatedCostUsd: bigint;
+  estimatedGasUsd: bigint;
+  bridgeFeeUsd: bigint;
+  estimatedTimeMinutes: bigint;
+  bridgeAdapter: `0x${string}`;
+  bridgeName: string;
+  gasEstimate: bigint;
+};
 
-// Legacy constants for backward compatibility
-const STABLECOIN_SWITCH = CONTRACT_ADDRESSES.sepolia
-  .StablecoinSwitch as `0x${string}`;
-const USDC = SUPPORTED_TOKENS.sepolia.USDC as `0x${string}`;
+// Owner-only StablecoinSwitch configuration calls
+export type SwitchOwnerAction =
+  | { functionName: "setTokenSupport"; args: [`0x${string}`, boolean] }
+  | { functionName: "setChainSupport"; args: [bigint, boolean] }
+  | { functionName: "addBridgeAdapter"; args: [bigint, `0x${string}`, string, bigint] }
+  | { functionName: "setMaxPriceStalenessSeconds"; args: [bigint] };
+
+export type SwitchConfigIssue = {
+  code: BridgeErrorCode;
+  message: string; // Owner remediation hint, as shown to users
+  fix: SwitchOwnerAction | null;
+};
+
+// Dynamic contract address getter; throws if StablecoinSwitch is not deployed on the chain
+export function getStablecoinSwitchAddress(chainId: number): `0x${string}` {
+  return getContractAddress("StablecoinSwitch", chainId);
+}
 
-function getUsdcForChain(chainId: number): `0x${string}` {
-  if (chainId === 11155111) return SUPPORTED_TOKENS.sepolia.USDC as `0x${string}`;
-  if (chainId === 421614) return SUPPORTED_TOKENS.arbitrumSepolia.USDC as `0x${string}`;
-  // Default to source USDC; contract will reject unsupported chain/token
-  return SUPPORTED_TOKENS.sepolia.USDC as `0x${string}`;
+// USDC on the given chain; throws if the chain has no USDC configured
+export function getUsdcForChain(chainId: number): `0x${string}` {
+  return getToken("USDC", chainId).address;
 }
 
 // Minimal Chainlink AggregatorV3 ABI for latestRoundData
@@ -45,43 +70,25 @@ const AggregatorAbi = [
 ];
 
 // Centralized mapping for StablecoinSwitch custom errors to friendly messages
-function mapSwitchError(err: any, ctx?: { destChainId?: number }) {
-  const raw = err?.shortMessage || err?.message || String(err);
-  const errorName = err?.data?.errorName || err?.cause?.data?.errorName || "";
-  const sig = `${errorName}` || raw;
+function mapSwitchError(err: unknown, ctx?: { destChainId?: number }): BridgeError {
   const destChainId = ctx?.destChainId;
 
-  // Prefer ABI-decoded error names when available
-  if (sig.includes("UnsupportedToken") || raw.includes("UnsupportedToken")) {
-    return "Token not supported. Ask owner to call setTokenSupport(USDC, true).";
-  }
-  if (sig.includes("UnsupportedChain") || raw.includes("UnsupportedChain")) {
-    return `Destination chain ${destChainId ?? "<id>"} is not enabled. Ask owner to call setChainSupport(${destChainId ?? "<id>"}, true).`;
-  }
-  if (sig.includes("BridgeAdapterNotSet") || raw.includes("BridgeAdapterNotSet")) {
-    return `No bridge adapters configured for chain ${destChainId ?? "<id>"}. Ask owner to call addBridgeAdapter(${destChainId ?? "<id>"}, <adapter>, "Arbitrum", <gasCost>) or legacy setBridgeAdapter(${destChainId ?? "<id>"}, <adapter>).`;
-  }
-  if (sig.includes("PriceFeedError") || raw.includes("PriceFeedError")) {
-    return "Price feeds unavailable or stale. Check ETH/USD and USDC/USD Chainlink feeds configuration.";
-  }
-  if (sig.includes("InvalidAmount") || raw.includes("InvalidAmount")) {
-    return "Enter a valid amount greater than 0.";
-  }
-  if (sig.includes("InvalidPriority") || raw.includes("InvalidPriority")) {
-    return "Invalid priority. Use 0 for cost or 1 for speed.";
-  }
-  if (sig.includes("InvalidRecipient") || raw.includes("InvalidRecipient")) {
-    return "Recipient address is invalid. Please double-check the destination address.";
-  }
-  if (sig.includes("TransferFailed") || raw.includes("TransferFailed")) {
-    return "Token transfer failed. Ensure sufficient balance and allowance, then retry.";
-  }
-  // Common ERC20 revert surfaced by viem
-  if (raw.toLowerCase().includes("transfer amount exceeds allowance")) {
-    return "Token allowance too low. Please approve the token to StablecoinSwitch and retry.";
+  // Owner remediation hints for StablecoinSwitch configuration errors
+  const error = decodeBridgeError(err, {
+    messages: {
+      UnsupportedToken: "Token not supported. Ask owner to call setTokenSupport(USDC, true).",
+      UnsupportedChain: `Destination chain ${destChainId ?? "<id>"} is not enabled. Ask owner to call setChainSupport(${destChainId ?? "<id>"}, true).`,
+      BridgeAdapterNotSet: `No bridge adapters configured for chain ${destChainId ?? "<id>"}. Ask owner to call addBridgeAdapter(${destChainId ?? "<id>"}, <adapter>, "Arbitrum", <gasCost>) or legacy setBridgeAdapter(${destChainId ?? "<id>"}, <adapter>).`,
+      PriceFeedError: "Price feeds unavailable or stale. Check ETH/USD and USDC/USD Chainlink feeds configuration."
+    }
+  });
+
+  if (error.code === "INSUFFICIENT_ALLOWANCE") {
+    return new BridgeError(error.code, "Token allowance too low. Please approve the token to StablecoinSwitch and retry.", {
+      cause: err
+    });
   }
-  // Default fallback
-  return raw;
+  return error;
 }
 
 export async function requireNetwork(
@@ -93,7 +100,7 @@ export async function requireNetwork(
     try {
       await walletClient.switchChain({ id: expectedChainId });
     } catch (err) {
-      throw new Error("Please switch your wallet to the required network.");
+      throw new BridgeError("WRONG_NETWORK", "Please switch your wallet to the required network.", { cause: err });
     }
   }
 }
@@ -106,13 +113,13 @@ export async function readOptimalPath(
   currentChainId?: number
 ): Promise<OptimalRoute> {
   // Get the correct contract address for the current chain
-  const chainId = currentChainId || publicClient.chain?.id || 11155111; // Default to Sepolia
+  const chainId = resolveChainId(currentChainId, publicClient);
   const contractAddress = getStablecoinSwitchAddress(chainId);
   
   // Verify contract configuration before reading
   await ensureContractReady(publicClient, destChainId, currentChainId);
 
-  let routeInfo: any;
+  let routeInfo: RouteInfo;
   try {
     if (process.env.NODE_ENV === "development") {
       console.groupCollapsed("readOptimalPath: call");
@@ -128,27 +135,28 @@ export async function readOptimalPath(
     const toToken = getUsdcForChain(destChainId);
     const fromToken = getUsdcForChain(chainId);
     
-    routeInfo = await publicClient.readContract({
+    routeInfo = (await publicClient.readContract({
       address: contractAddress,
       abi: StablecoinSwitchAbi,
       functionName: "getOptimalPath",
       args: [fromToken, toToken, amountUnits, BigInt(destChainId), priority],
-    });
-  } catch (err: any) {
-    const msg = mapSwitchError(err, { destChainId });
+    })) as RouteInfo;
+  } catch (err) {
+    const error = mapSwitchError(err, { destChainId });
     if (process.env.NODE_ENV === "development") {
       console.groupCollapsed("readOptimalPath: error");
       console.log(err);
-      console.table({ decoded: msg });
+      console.table({ code: error.code, decoded: error.message });
       console.groupEnd();
     }
-    throw new Error(msg);
+    throw error;
   }
 
   return {
-    bridge: (routeInfo as any).bridgeName as string,
-    estimatedGasUSD: Number((routeInfo as any).estimatedGasUsd) / 1e18,
-    estimatedTimeSeconds: Number((routeInfo as any).estimatedTimeMinutes) * 60,
+    bridge: routeInfo.bridgeName,
+    estimatedGasUSD: Number(routeInfo.estimatedGasUsd) / 1e18,
+    bridgeFeeUSD: Number(routeInfo.bridgeFeeUsd) / 1e18,
+    estimatedTimeSeconds: Number(routeInfo.estimatedTimeMinutes) * 60,
   };
 }
 
@@ -157,11 +165,56 @@ async function ensureContractReady(
   destChainId: number,
   currentChainId?: number
 ) {
-  const contractAddress = getStablecoinSwitchAddress(currentChainId || publicClient.chain?.id || 11155111);
-  const fromToken = getUsdcForChain(currentChainId || publicClient.chain?.id || 11155111);
+  const [issue] = await diagnoseSwitchRoute(publicClient, destChainId, currentChainId);
+  if (issue) {
+    throw new ValidationError(issue.code, issue.message);
+  }
+}
+
+// Bridge adapters configured for destChainId: try modern getter first, then legacy fallback
+export async function getSwitchBridgeAdapters(
+  publicClient: PublicClient,
+  destChainId: number,
+  currentChainId?: number
+): Promise<`0x${string}`[]> {
+  const contractAddress = getStablecoinSwitchAddress(resolveChainId(currentChainId, publicClient));
+
+  try {
+    const adapters = (await publicClient.readContract({
+      address: contractAddress,
+      abi: StablecoinSwitchAbi,
+      functionName: "getBridgeAdapters",
+      args: [BigInt(destChainId)],
+    })) as `0x${string}`[];
+    return adapters ?? [];
+  } catch (_) {
+    try {
+      const single = (await publicClient.readContract({
+        address: contractAddress,
+        abi: StablecoinSwitchAbi,
+        functionName: "getBridgeAdapter",
+        args: [BigInt(destChainId)],
+      })) as `0x${string}`;
+      return single && single !== "0x0000000000000000000000000000000000000000" ? [single] : [];
+    } catch (_) {
+      return [];
+    }
+  }
+}
+
+// Configuration problems that stop a USDC route to destChainId, in the order a transfer would hit them.
+// fix is the owner call that resolves the issue, or null when the owner has to supply details (e.g. an adapter address).
+export async function diagnoseSwitchRoute(
+  publicClient: PublicClient,
+  destChainId: number,
+  currentChainId?: number
+): Promise<SwitchConfigIssue[]> {
+  const chainId = resolveChainId(currentChainId, publicClient);
+  const contractAddress = getStablecoinSwitchAddress(chainId);
+  const fromToken = getUsdcForChain(chainId);
   const toToken = getUsdcForChain(destChainId);
   
-  const [tokenSupported, toTokenSupported, chainSupported] = await Promise.all([
+  const [tokenSupported, toTokenSupported, chainSupported, adapters] = await Promise.all([
     publicClient.readContract({
       address: contractAddress,
       abi: StablecoinSwitchAbi,
@@ -180,58 +233,43 @@ async function ensureContractReady(
       functionName: "isChainSupported",
       args: [BigInt(destChainId)],
     }) as Promise<boolean>,
+    getSwitchBridgeAdapters(publicClient, destChainId, chainId),
   ]);
 
+  const issues: SwitchConfigIssue[] = [];
   if (!tokenSupported) {
-    throw new Error(
-      `USDC is not enabled in StablecoinSwitch. Ask owner to call setTokenSupport(USDC, true).`
-    );
+    issues.push({
+      code: "UNSUPPORTED_TOKEN",
+      message: `USDC is not enabled in StablecoinSwitch. Ask owner to call setTokenSupport(USDC, true).`,
+      fix: { functionName: "setTokenSupport", args: [fromToken, true] },
+    });
   }
 
   if (!toTokenSupported) {
-    throw new Error(
-      `Destination USDC is not enabled. Ask owner to call setTokenSupport(${toToken}, true).`
-    );
+    issues.push({
+      code: "UNSUPPORTED_TOKEN",
+      message: `Destination USDC is not enabled. Ask owner to call setTokenSupport(${toToken}, true).`,
+      fix: { functionName: "setTokenSupport", args: [toToken, true] },
+    });
   }
 
   if (!chainSupported) {
-    throw new Error(
-      `Destination chain ${destChainId} is not enabled. Ask owner to call setChainSupport(${destChainId}, true).`
-    );
+    issues.push({
+      code: "UNSUPPORTED_CHAIN",
+      message: `Destination chain ${destChainId} is not enabled. Ask owner to call setChainSupport(${destChainId}, true).`,
+      fix: { functionName: "setChainSupport", args: [BigInt(destChainId), true] },
+    });
   }
 
-  // Adapter presence check: try modern getter first, then legacy fallback
-  let adapterCount = 0;
-  try {
-    const adapters = (await publicClient.readContract({
-      address: contractAddress,
-      abi: StablecoinSwitchAbi,
-      functionName: "getBridgeAdapters",
-      args: [BigInt(destChainId)],
-    })) as `0x${string}`[];
-    adapterCount = adapters?.length ?? 0;
-  } catch (_) {
-    // Fallback: legacy single adapter getter
-    try {
-      const single = (await publicClient.readContract({
-        address: contractAddress,
-        abi: StablecoinSwitchAbi,
-        functionName: "getBridgeAdapter",
-        args: [BigInt(destChainId)],
-      })) as `0x${string}`;
-      if (single && single !== "0x0000000000000000000000000000000000000000") {
-        adapterCount = 1;
-      }
-    } catch (_) {
-      adapterCount = 0;
-    }
+  if (adapters.length === 0) {
+    issues.push({
+      code: "BRIDGE_UNAVAILABLE",
+      message: `No bridge adapters configured for chain ${destChainId}. Ask owner to call addBridgeAdapter(${destChainId}, <adapter>, "Arbitrum", <gasCost>) or legacy setBridgeAdapter(${destChainId}, <adapter>).`,
+      fix: null,
+    });
   }
 
-  if (adapterCount === 0) {
-    throw new Error(
-      `No bridge adapters configured for chain ${destChainId}. Ask owner to call addBridgeAdapter(${destChainId}, <adapter>, "Arbitrum", <gasCost>) or legacy setBridgeAdapter(${destChainId}, <adapter>).`
-    );
-  }
+  return issues;
 }
 
 /**
@@ -247,7 +285,7 @@ export async function ensureFeedsHealthy(
   ethUpdatedAt: bigint;
   usdcUpdatedAt: bigint;
 }> {
-  const contractAddress = getStablecoinSwitchAddress(chainId || publicClient.chain?.id || 11155111);
+  const contractAddress = getStablecoinSwitchAddress(resolveChainId(chainId, publicClient));
   
   const [ethFeed, usdcFeed] = await Promise.all([
     publicClient.readContract({
@@ -286,7 +324,7 @@ export async function ensureFeedsHealthy(
 
   // Use different staleness thresholds based on network
   const currentChainId = chainId || await publicClient.getChainId();
-  const isTestnet = currentChainId === 11155111 || currentChainId === 421614; // Sepolia or Arbitrum Sepolia
+  const isTestnet = findChain(currentChainId)?.testnet ?? false;
   
   // Testnet feeds can be stale for up to 24 hours, mainnet feeds should be fresh within 1 hour
   const maxStaleness = BigInt(isTestnet ? 86400 : 3600); // 24 hours for testnet, 1 hour for mainnet
@@ -311,6 +349,7 @@ export async function ensureFeedsHealthy(
   };
 }
 
+// StablecoinSwitch.routeTransaction takes no permitData, so this always uses a plain approval
 export async function ensureAllowance(
   publicClient: PublicClient,
   walletClient: WalletClient,
@@ -319,43 +358,12 @@ export async function ensureAllowance(
   amountUnits: bigint,
   tokenAddress: `0x${string}`
 ) {
-  // Native ETH doesn't require allowance
-  if (tokenAddress === "0x0000000000000000000000000000000000000000") {
-    return undefined;
-  }
-
-  const allowance = await publicClient.readContract({
-    address: tokenAddress,
-    abi: ERC20Abi,
-    functionName: "allowance",
-    args: [owner, spender],
+  return ensureApproval(publicClient, walletClient, {
+    token: tokenAddress,
+    owner,
+    spender,
+    amount: amountUnits
   });
-
-  if ((allowance as bigint) < amountUnits) {
-    // Some ERC20 implementations (e.g., USDC) require resetting allowance to 0 before updating
-    if ((allowance as bigint) > BigInt(0)) {
-      const resetHash = await walletClient.writeContract({
-        address: tokenAddress,
-        abi: ERC20Abi,
-        functionName: "approve",
-        args: [spender, BigInt(0)],
-        chain: walletClient.chain,
-        account: owner,
-      });
-      await publicClient.waitForTransactionReceipt({ hash: resetHash });
-    }
-    const hash = await walletClient.writeContract({
-      address: tokenAddress,
-      abi: ERC20Abi,
-      functionName: "approve",
-      args: [spender, amountUnits],
-      chain: walletClient.chain,
-      account: owner,
-    });
-    await publicClient.waitForTransactionReceipt({ hash });
-    return hash;
-  }
-  return undefined;
 }
 
 export async function estimateRouteGas(
@@ -373,13 +381,13 @@ export async function estimateRouteGas(
 ) {
   // Basic parameter validation to avoid unnecessary RPC calls
   if (!params.amount || params.amount <= BigInt(0)) {
-    throw new Error("Enter a valid amount greater than 0.");
+    throw new ValidationError("INVALID_INPUT", "Enter a valid amount greater than 0.");
   }
   if (!/^0x[a-fA-F0-9]{40}$/.test(params.recipient)) {
-    throw new Error("Recipient address is invalid.");
+    throw new ValidationError("INVALID_INPUT", "Recipient address is invalid.");
   }
   
-  const contractAddress = getStablecoinSwitchAddress(params.chainId || publicClient.chain?.id || 11155111);
+  const contractAddress = getStablecoinSwitchAddress(resolveChainId(params.chainId, publicClient));
   
   try {
     if (process.env.NODE_ENV === "development") {
@@ -409,18 +417,74 @@ export async function estimateRouteGas(
       ],
     });
     return gas;
-  } catch (err: any) {
-    const msg = mapSwitchError(err, { destChainId: params.toChainId });
+  } catch (err) {
+    const error = mapSwitchError(err, { destChainId: params.toChainId });
     if (process.env.NODE_ENV === "development") {
       console.groupCollapsed("estimateRouteGas: error");
       console.log(err);
-      console.table({ decoded: msg });
+      console.table({ code: error.code, decoded: error.message });
       console.groupEnd();
     }
-    throw new Error(msg);
+    throw error;
   }
 }
 
+// Simulate routeTransaction for the confirmation step. Without an allowance the token pull is left unchecked.
+export async function simulateRouteTransaction(
+  publicClient: PublicClient,
+  params: {
+    fromToken: `0x${string}`;
+    toToken: `0x${string}`;
+    amount: bigint;
+    toChainId: number;
+    priority: 0 | 1;
+    recipient: `0x${string}`;
+    minAmountOut?: bigint;
+    account: `0x${string}`;
+    chainId?: number;
+  }
+): Promise<Simulation<RouteInfo>> {
+  if (!params.amount || params.amount <= BigInt(0)) {
+    throw new ValidationError("INVALID_INPUT", "Enter a valid amount greater than 0.");
+  }
+  if (!/^0x[a-fA-F0-9]{40}$/.test(params.recipient)) {
+    throw new ValidationError("INVALID_INPUT", "Recipient address is invalid.");
+  }
+
+  const contractAddress = getStablecoinSwitchAddress(resolveChainId(params.chainId, publicClient));
+  const requiresApproval = !(await hasAllowance(publicClient, {
+    token: params.fromToken,
+    owner: params.account,
+    spender: contractAddress,
+    amount: params.amount
+  }));
+
+  return runSimulation(
+    async () => {
+      const { result } = await publicClient.simulateContract({
+        address: contractAddress,
+        abi: StablecoinSwitchAbi,
+        functionName: "routeTransaction",
+        args: [
+          {
+            fromToken: params.fromToken,
+            toToken: params.toToken,
+            amount: params.amount,
+            toChainId: BigInt(params.toChainId),
+            priority: params.priority,
+            recipient: params.recipient,
+            minAmountOut: params.minAmountOut ?? BigInt(0),
+          },
+        ],
+        account: params.account,
+      });
+      return result as RouteInfo;
+    },
+    // routeTransaction is nonpayable
+    { value: BigInt(0), requiresApproval, decode: (err) => mapSwitchError(err, { destChainId: params.toChainId }) }
+  );
+}
+
 export async function routeTransaction(
   walletClient: WalletClient,
   publicClient: PublicClient,
@@ -438,13 +502,13 @@ export async function routeTransaction(
 ) {
   // Basic parameter validation
   if (!params.amount || params.amount <= BigInt(0)) {
-    throw new Error("Enter a valid amount greater than 0.");
+    throw new ValidationError("INVALID_INPUT", "Enter a valid amount greater than 0.");
   }
   if (!/^0x[a-fA-F0-9]{40}$/.test(params.recipient)) {
-    throw new Error("Recipient address is invalid.");
+    throw new ValidationError("INVALID_INPUT", "Recipient address is invalid.");
   }
   
-  const contractAddress = getStablecoinSwitchAddress(params.chainId || publicClient.chain?.id || 11155111);
+  const contractAddress = getStablecoinSwitchAddress(resolveChainId(params.chainId, publicClient));
   
   try {
     if (process.env.NODE_ENV === "development") {
@@ -457,6 +521,25 @@ export async function routeTransaction(
       });
       console.groupEnd();
     }
+    // Pre-flight against current state; unlike the gas estimate below, a revert here is not swallowed
+    await publicClient.simulateContract({
+      address: contractAddress,
+      abi: StablecoinSwitchAbi,
+      functionName: "routeTransaction",
+      args: [
+        {
+          fromToken: params.fromToken,
+          toToken: params.toToken,
+          amount: params.amount,
+          toChainId: BigInt(params.toChainId),
+          priority: params.priority,
+          recipient: params.recipient,
+          minAmountOut: params.minAmountOut ?? BigInt(0),
+        },
+      ],
+      account: params.account,
+    });
+
     // Estimate gas manually to avoid excessive automatic limits
     let gasEstimate: bigint;
     try {
@@ -506,7 +589,7 @@ export async function routeTransaction(
     const receipt = await publicClient.waitForTransactionReceipt({ hash });
     return { hash, receipt };
   } catch (err: any) {
-    const msg = mapSwitchError(err, { destChainId: params.toChainId });
+    const error = mapSwitchError(err, { destChainId: params.toChainId });
     if (process.env.NODE_ENV === "development") {
       console.groupCollapsed("routeTransaction: error");
       console.log("Full error object:", err);
@@ -515,15 +598,16 @@ export async function routeTransaction(
       console.log("Error data:", err?.data);
       console.log("Error cause:", err?.cause);
       console.log("Error details:", err?.details);
-      console.log("Decoded message:", msg);
+      console.log("Decoded message:", error.message);
       console.table({ 
-        decoded: msg,
+        code: error.code,
+        decoded: error.message,
         errorName: err?.data?.errorName || err?.cause?.data?.errorName || "Unknown",
         rawMessage: err?.message || err?.shortMessage || String(err)
       });
       console.groupEnd();
     }
-    throw new Error(msg);
+    throw error;
   }
 }
 
@@ -533,7 +617,7 @@ export function subscribeEvents(
   onSettlement?: (log: any) => void,
   chainId?: number
 ) {
-  const contractAddress = getStablecoinSwitchAddress(chainId || publicClient.chain?.id || 11155111);
+  const contractAddress = getStablecoinSwitchAddress(resolveChainId(chainId, publicClient));
   
   const unwatchRouted = publicClient.watchContractEvent({
     address: contractAddress,
@@ -559,11 +643,6 @@ export function subscribeEvents(
   };
 }
 
-export const constants = {
-  contract: STABLECOIN_SWITCH,
-  usdc: USDC,
-};
-
 // Debug function to check contract state
 export async function debugContractState(
   publicClient: PublicClient,
@@ -590,8 +669,9 @@ export async function debugContractState(
     usdcFresh: boolean;
   };
 }> {
-  const contractAddress = getStablecoinSwitchAddress(currentChainId || publicClient.chain?.id || 11155111);
-  const fromToken = getUsdcForChain(currentChainId || publicClient.chain?.id || 11155111);
+  const chainId = resolveChainId(currentChainId, publicClient);
+  const contractAddress = getStablecoinSwitchAddress(chainId);
+  const fromToken = getUsdcForChain(chainId);
   const toToken = getUsdcForChain(destChainId);
   
   try {
@@ -689,8 +769,7 @@ export async function debugContractState(
        const usdcAge = Number(now - usdcUpdatedAt);
        
        // Use different staleness thresholds based on network
-       const chainId = await publicClient.getChainId();
-       const isTestnet = chainId === 11155111 || chainId === 421614; // Sepolia or Arbitrum Sepolia
+       const isTestnet = findChain(chainId)?.testnet ?? false;
        
        // Testnet feeds can be stale for up to 24 hours, mainnet feeds should be fresh within 1 hour
        const maxStaleness = BigInt(isTestnet ? 86400 : 3600); // 24 hours for testnet, 1 hour for mainnet
@@ -729,8 +808,8 @@ export async function debugContractState(
 
     if (process.env.NODE_ENV === "development") {
       console.groupCollapsed("Contract State Debug");
-      console.log("Contract Address:", STABLECOIN_SWITCH);
-      console.log("Source Token (USDC):", USDC);
+      console.log("Contract Address:", contractAddress);
+      console.log("Source Token (USDC):", fromToken);
       console.log("Destination Token:", toToken);
       console.log("Destination Chain ID:", destChainId);
       console.table(result);
@@ -0,0 +1,197 @@
+import type { PublicClient, WalletClient } from "viem";
+import { StablecoinSwitchAbi } from "../abi/StablecoinSwitch";
+import { CHAINS, CHAIN_KEYS } from "../chains";
+import { BridgeError, decodeBridgeError } from "../errors";
+import { findToken, getTokensForChain } from "../tokens";
+import { runSimulation, type Simulation } from "./simulation";
+import {
+  diagnoseSwitchRoute,
+  ensureFeedsHealthy,
+  getStablecoinSwitchAddress,
+  getSwitchBridgeAdapters,
+  type SwitchConfigIssue,
+  type SwitchOwnerAction
+} from "./switch";
+
+// StablecoinSwitch owner console: current configuration and the owner calls that change it
+
+export type SwitchTokenSupport = {
+  address: `0x${string}`;
+  label: string; // Symbol, with the chain it belongs to
+  supported: boolean;
+};
+
+export type SwitchDestination = {
+  chainId: number;
+  name: string;
+  supported: boolean;
+  adapters: `0x${string}`[];
+  issues: SwitchConfigIssue[]; // Empty when a USDC route to this chain is fully configured
+};
+
+export type SwitchPriceFeeds = {
+  ethUsdFeed: `0x${string}`;
+  usdcUsdFeed: `0x${string}`;
+  ethOk: boolean;
+  usdcOk: boolean;
+  ethUpdatedAt: number | null; // ms since epoch
+  usdcUpdatedAt: number | null;
+  maxPriceStalenessSeconds: number;
+};
+
+export type SwitchAdminState = {
+  owner: `0x${string}`;
+  tokens: SwitchTokenSupport[];
+  destinations: SwitchDestination[];
+  feeds: SwitchPriceFeeds;
+};
+
+function toMs(seconds: bigint): number | null {
+  return seconds > BigInt(0) ? Number(seconds) * 1000 : null;
+}
+
+async function readFeeds(publicClient: PublicClient, contractAddress: `0x${string}`, chainId: number): Promise<SwitchPriceFeeds> {
+  const read = { address: contractAddress, abi: StablecoinSwitchAbi } as const;
+  const [ethUsdFeed, usdcUsdFeed, maxStaleness] = await Promise.all([
+    publicClient.readContract({ ...read, functionName: "ethUsdPriceFeed" }) as Promise<`0x${string}`>,
+    publicClient.readContract({ ...read, functionName: "usdcUsdPriceFeed" }) as Promise<`0x${string}`>,
+    publicClient.readContract({ ...read, functionName: "maxPriceStalenessSeconds" }) as Promise<bigint>
+  ]);
+
+  // Older deployments lack areFeedsHealthy; fall back to reading the feeds directly
+  let health: { ethOk: boolean; usdcOk: boolean; ethUpdatedAt: bigint; usdcUpdatedAt: bigint };
+  try {
+    const [ethOk, usdcOk, ethUpdatedAt, usdcUpdatedAt] = (await publicClient.readContract({
+      ...read,
+      functionName: "areFeedsHealthy"
+    })) as [boolean, boolean, bigint, bigint];
+    health = { ethOk, usdcOk, ethUpdatedAt, usdcUpdatedAt };
+  } catch {
+    health = await ensureFeedsHealthy(publicClient, chainId);
+  }
+
+  return {
+    ethUsdFeed,
+    usdcUsdFeed,
+    ethOk: health.ethOk,
+    usdcOk: health.usdcOk,
+    ethUpdatedAt: toMs(health.ethUpdatedAt),
+    usdcUpdatedAt: toMs(health.usdcUpdatedAt),
+    maxPriceStalenessSeconds: Number(maxStaleness)
+  };
+}
+
+// Owner, token and chain support, adapters per destination and price feed settings of this chain's StablecoinSwitch
+export async function getSwitchAdminState(publicClient: PublicClient, chainId: number): Promise<SwitchAdminState> {
+  const contractAddress = getStablecoinSwitchAddress(chainId);
+  const read = { address: contractAddress, abi: StablecoinSwitchAbi } as const;
+
+  // Source-chain tokens plus each destination's USDC, which routes also require to be enabled here
+  const destinationChains = CHAIN_KEYS.map(key => CHAINS[key]).filter(
+    chain => chain.id !== chainId && findToken("USDC", chain.id)
+  );
+  const candidates = new Map<string, { address: `0x${string}`; label: string }>();
+  getTokensForChain(chainId)
+    .filter(token => !token.isNative)
+    .forEach(token => candidates.set(token.address.toLowerCase(), { address: token.address, label: token.symbol }));
+  destinationChains.forEach(chain => {
+    const usdc = findToken("USDC", chain.id);
+    if (usdc && !candidates.has(usdc.address.toLowerCase())) {
+      candidates.set(usdc.address.toLowerCase(), { address: usdc.address, label: `USDC (${chain.name})` });
+    }
+  });
+
+  try {
+    const [owner, tokens, destinations, feeds] = await Promise.all([
+      publicClient.readContract({ ...read, functionName: "owner" }) as Promise<`0x${string}`>,
+      Promise.all(
+        [...candidates.values()].map(async token => ({
+          ...token,
+          supported: (await publicClient.readContract({
+            ...read,
+            functionName: "isTokenSupported",
+            args: [token.address]
+          })) as boolean
+        }))
+      ),
+      Promise.all(
+        destinationChains.map(async chain => {
+          const [supported, adapters, issues] = await Promise.all([
+            publicClient.readContract({ ...read, functionName: "isChainSupported", args: [BigInt(chain.id)] }) as Promise<boolean>,
+            getSwitchBridgeAdapters(publicClient, chain.id, chainId),
+            diagnoseSwitchRoute(publicClient, chain.id, chainId)
+          ]);
+          return { chainId: chain.id, name: chain.name, supported, adapters, issues };
+        })
+      ),
+      readFeeds(publicClient, contractAddress, chainId)
+    ]);
+
+    return { owner, tokens, destinations, feeds };
+  } catch (error) {
+    throw decodeBridgeError(error, { fallbackPrefix: "Failed to read StablecoinSwitch configuration" });
+  }
+}
+
+// Dry-run an owner call from account so ownership and input reverts surface before the wallet prompt
+export async function simulateSwitchOwnerAction(
+  publicClient: PublicClient,
+  chainId: number,
+  account: `0x${string}`,
+  action: SwitchOwnerAction
+): Promise<Simulation<null>> {
+  const contractAddress = getStablecoinSwitchAddress(chainId);
+
+  return runSimulation(
+    async () => {
+      await publicClient.simulateContract({
+        address: contractAddress,
+        abi: StablecoinSwitchAbi,
+        functionName: action.functionName,
+        args: action.args,
+        account
+      });
+      return null;
+    },
+    { value: BigInt(0), requiresApproval: false }
+  );
+}
+
+export async function executeSwitchOwnerAction(
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  chainId: number,
+  action: SwitchOwnerAction
+): Promise<`0x${string}`> {
+  const contractAddress = getStablecoinSwitchAddress(chainId);
+  const account = walletClient.account?.address;
+  if (!account) {
+    throw new BridgeError("UNAUTHORIZED", "Connect the owner wallet to change StablecoinSwitch settings.");
+  }
+
+  try {
+    const hash = await walletClient.writeContract({
+      address: contractAddress,
+      abi: StablecoinSwitchAbi,
+      functionName: action.functionName,
+      args: action.args,
+      account,
+      chain: null
+    });
+
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== "success") {
+      throw new BridgeError("CONTRACT_REVERT", `Owner transaction reverted. Hash: ${hash}`);
+    }
+
+    if (process.env.NODE_ENV === "development") {
+      console.groupCollapsed(`executeSwitchOwnerAction: ${action.functionName}`);
+      console.table({ hash, args: action.args.map(String).join(", ") });
+      console.groupEnd();
+    }
+
+    return hash;
+  } catch (error) {
+    throw decodeBridgeError(error, { fallbackPrefix: `Failed to ${action.functionName}` });
+  }
+}
@@ -0,0 +1,307 @@
+import { formatUnits } from "viem";
+import type { PublicClient } from "viem";
+import { SettlementSwitchAbi, TransferStatus } from "../abi/SettlementSwitch";
+import { LayerZeroAdapterAbi } from "../abi/LayerZeroAdapter";
+import { ERC20Abi } from "../abi/erc20";
+import { getChainKey, type ChainKey } from "../chains";
+import { findToken, verifyTokenDecimals } from "../tokens";
+import { getBridgeAdapterName, getSettlementSwitchAddress } from "./settlementSwitch";
+
+// Types for the shared transaction history
+export type HistoryStatus = "pending" | "confirmed" | "failed";
+
+export type HistoryTransaction = {
+  id: string;
+  hash?: string; // Missing for records only known from getUserTransfers
+  transferId?: string;
+  adapter?: string; // Set for transfers sent directly to an adapter
+  source: "settlementSwitch" | "stablecoinSwitch";
+  fromChain: ChainKey;
+  toChain: ChainKey;
+  token: string;
+  amount: string;
+  bridge?: string;
+  status: HistoryStatus;
+  timestamp: number;
+};
+
+type StoredHistory = {
+  version: number;
+  transactions: HistoryTransaction[];
+};
+
+const HISTORY_SCHEMA_VERSION = 1;
+const STORAGE_PREFIX = "settlement-switch:history";
+const ON_CHAIN_PAGE_SIZE = BigInt(50);
+const EMPTY_HISTORY: HistoryTransaction[] = [];
+
+const listeners = new Set<() => void>();
+const cache = new Map<string, HistoryTransaction[]>();
+
+function storageKey(address: string, chainId: number): string {
+  return `${STORAGE_PREFIX}:${address.toLowerCase()}:${chainId}`;
+}
+
+// Map on-chain transfer status to the history status shown in the UI
+export function toHistoryStatus(status: TransferStatus): HistoryStatus {
+  if (status === TransferStatus.COMPLETED) return "confirmed";
+  if (status === TransferStatus.FAILED || status === TransferStatus.REFUNDED) return "failed";
+  return "pending";
+}
+
+// Upgrade older payloads; unknown versions are dropped rather than misread
+function migrate(raw: unknown): HistoryTransaction[] {
+  if (!raw || typeof raw !== "object") return [];
+  const stored = raw as Partial<StoredHistory>;
+  if (stored.version === HISTORY_SCHEMA_VERSION && Array.isArray(stored.transactions)) {
+    return stored.transactions;
+  }
+  return [];
+}
+
+function readStorage(key: string): HistoryTransaction[] {
+  if (typeof window === "undefined") return EMPTY_HISTORY;
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? migrate(JSON.parse(raw)) : EMPTY_HISTORY;
+  } catch {
+    return EMPTY_HISTORY;
+  }
+}
+
+function writeStorage(key: string, transactions: HistoryTransaction[]) {
+  cache.set(key, transactions);
+  if (typeof window !== "undefined") {
+    const payload: StoredHistory = { version: HISTORY_SCHEMA_VERSION, transactions };
+    try {
+      window.localStorage.setItem(key, JSON.stringify(payload));
+    } catch (error) {
+      console.warn("Failed to persist transaction history:", error);
+    }
+  }
+  listeners.forEach(listener => listener());
+}
+
+function sortNewestFirst(transactions: HistoryTransaction[]): HistoryTransaction[] {
+  return [...transactions].sort((a, b) => b.timestamp - a.timestamp);
+}
+
+// Two records describe the same transfer if they share a transferId or tx hash
+function isSameRecord(a: HistoryTransaction, b: HistoryTransaction): boolean {
+  if (a.id === b.id) return true;
+  if (a.transferId && b.transferId) return a.transferId.toLowerCase() === b.transferId.toLowerCase();
+  if (a.hash && b.hash) return a.hash.toLowerCase() === b.hash.toLowerCase();
+  return false;
+}
+
+// Read history for a wallet on a chain (stable reference until the next write)
+export function getTransactionHistory(address: string | undefined, chainId: number | undefined): HistoryTransaction[] {
+  if (!address || !chainId) return EMPTY_HISTORY;
+  const key = storageKey(address, chainId);
+  if (!cache.has(key)) {
+    cache.set(key, readStorage(key));
+  }
+  return cache.get(key) as HistoryTransaction[];
+}
+
+// Subscribe to history changes, including writes from other tabs
+export function subscribeTransactionHistory(listener: () => void): () => void {
+  listeners.add(listener);
+
+  const onStorage = (event: StorageEvent) => {
+    if (event.key?.startsWith(STORAGE_PREFIX)) {
+      cache.delete(event.key);
+      listener();
+    }
+  };
+  if (typeof window !== "undefined") {
+    window.addEventListener("storage", onStorage);
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (typeof window !== "undefined") {
+      window.removeEventListener("storage", onStorage);
+    }
+  };
+}
+
+// Add a transaction, or merge it into an existing record for the same transfer
+export function addTransaction(address: string, chainId: number, transaction: HistoryTransaction) {
+  const current = getTransactionHistory(address, chainId);
+  const existing = current.find(tx => isSameRecord(tx, transaction));
+  const next = existing
+    ? current.map(tx => (tx === existing ? { ...existing, ...transaction, id: existing.id } : tx))
+    : [transaction, ...current];
+  writeStorage(storageKey(address, chainId), sortNewestFirst(next));
+}
+
+export function updateTransaction(
+  address: string,
+  chainId: number,
+  id: string,
+  updates: Partial<Omit<HistoryTransaction, "id">>
+) {
+  const current = getTransactionHistory(address, chainId);
+  if (!current.some(tx => tx.id === id)) return;
+  writeStorage(
+    storageKey(address, chainId),
+    current.map(tx => (tx.id === id ? { ...tx, ...updates } : tx))
+  );
+}
+
+export function clearTransactionHistory(address: string, chainId: number) {
+  writeStorage(storageKey(address, chainId), []);
+}
+
+// Resolve a token symbol and decimals for an on-chain transfer record
+async function describeToken(
+  publicClient: PublicClient,
+  chainId: number,
+  tokenAddress: string
+): Promise<{ symbol: string; decimals: number }> {
+  const token = findToken(tokenAddress, chainId);
+  if (token) {
+    const verified = await verifyTokenDecimals(publicClient, token);
+    return { symbol: verified.symbol, decimals: verified.decimals };
+  }
+
+  // Not in the registry; read decimals directly so the amount is still exact
+  const decimals = await publicClient.readContract({
+    address: tokenAddress as `0x${string}`,
+    abi: ERC20Abi,
+    functionName: "decimals"
+  }) as number;
+
+  return { symbol: `${tokenAddress.slice(0, 6)}...${tokenAddress.slice(-4)}`, decimals: Number(decimals) };
+}
+
+// Fetch the user's transfers recorded by Settlement Switch on this chain
+async function fetchOnChainTransfers(
+  publicClient: PublicClient,
+  address: string,
+  chainId: number
+): Promise<HistoryTransaction[]> {
+  const chainKey = getChainKey(chainId);
+  if (!chainKey) return [];
+
+  const settlementSwitchAddress = getSettlementSwitchAddress(chainId);
+  const records: HistoryTransaction[] = [];
+  let offset = BigInt(0);
+
+  for (;;) {
+    const transfers = await publicClient.readContract({
+      address: settlementSwitchAddress,
+      abi: SettlementSwitchAbi,
+      functionName: "getUserTransfers",
+      args: [address as `0x${string}`, offset, ON_CHAIN_PAGE_SIZE]
+    });
+
+    for (const transfer of transfers) {
+      const toChain = getChainKey(Number(transfer.route.dstChainId));
+      if (!toChain) continue;
+
+      const token = await describeToken(publicClient, chainId, transfer.route.tokenIn);
+      records.push({
+        id: transfer.transferId,
+        transferId: transfer.transferId,
+        source: "settlementSwitch",
+        fromChain: chainKey,
+        toChain,
+        token: token.symbol,
+        amount: formatUnits(transfer.route.amountIn, token.decimals),
+        bridge: await getBridgeAdapterName(publicClient, transfer.route.adapter, chainId),
+        status: toHistoryStatus(transfer.status as TransferStatus),
+        timestamp: Number(transfer.initiatedAt) * 1000
+      });
+    }
+
+    if (BigInt(transfers.length) < ON_CHAIN_PAGE_SIZE) break;
+    offset += ON_CHAIN_PAGE_SIZE;
+  }
+
+  return records;
+}
+
+// Refresh the status of a single pending record from chain
+async function reconcileStatus(
+  publicClient: PublicClient,
+  chainId: number,
+  transaction: HistoryTransaction
+): Promise<HistoryStatus> {
+  if (transaction.transferId) {
+    const transfer = transaction.adapter
+      ? await publicClient.readContract({
+          address: transaction.adapter as `0x${string}`,
+          abi: LayerZeroAdapterAbi,
+          functionName: "getTransfer",
+          args: [transaction.transferId as `0x${string}`]
+        })
+      : await publicClient.readContract({
+          address: getSettlementSwitchAddress(chainId),
+          abi: SettlementSwitchAbi,
+          functionName: "getTransfer",
+          args: [transaction.transferId as `0x${string}`]
+        });
+    return toHistoryStatus(transfer.status as TransferStatus);
+  }
+
+  if (transaction.hash) {
+    const receipt = await publicClient.getTransactionReceipt({ hash: transaction.hash as `0x${string}` });
+    return receipt.status === "success" ? "confirmed" : "failed";
+  }
+
+  return transaction.status;
+}
+
+// Merge on-chain records into local history and reconcile pending statuses
+export async function syncTransactionHistory(publicClient: PublicClient, address: string, chainId: number) {
+  let onChain: HistoryTransaction[] = [];
+  try {
+    onChain = await fetchOnChainTransfers(publicClient, address, chainId);
+  } catch (error) {
+    // Settlement Switch may not be deployed on this chain; keep local history
+    if (process.env.NODE_ENV === "development") {
+      console.warn("Failed to load on-chain transfers:", error);
+    }
+  }
+
+  const merged = [...getTransactionHistory(address, chainId)];
+  for (const record of onChain) {
+    const index = merged.findIndex(tx => isSameRecord(tx, record));
+    if (index === -1) {
+      merged.push(record);
+    } else {
+      // Keep local details (hash, display amount) but trust chain for status
+      merged[index] = { ...record, ...merged[index], status: record.status };
+    }
+  }
+
+  const reconciled = await Promise.all(
+    merged.map(async tx => {
+      if (tx.status !== "pending") return tx;
+      try {
+        return { ...tx, status: await reconcileStatus(publicClient, chainId, tx) };
+      } catch {
+        // Receipt not available yet; leave as pending
+        return tx;
+      }
+    })
+  );
+
+  // Merge per id with whatever was written while the sync was in flight, so a tracker update is not lost
+  const live = new Map(getTransactionHistory(address, chainId).map(tx => [tx.id, tx]));
+  const synced = reconciled.map(tx => {
+    const current = live.get(tx.id);
+    if (!current) return tx;
+    live.delete(tx.id);
+    return { ...tx, ...current, status: newerStatus(current.status, tx.status) };
+  });
+
+  writeStorage(storageKey(address, chainId), sortNewestFirst([...live.values(), ...synced]));
+}
+
+// A settled status is newer than pending; between two settled ones the live record wins
+function newerStatus(live: HistoryStatus, synced: HistoryStatus): HistoryStatus {
+  return live === "pending" ? synced : live;
+}
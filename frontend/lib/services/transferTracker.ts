@@ -0,0 +1,299 @@
+import type { PublicClient } from "viem";
+import { getPublicClient } from "wagmi/actions";
+import { config } from "@/app/config";
+import { SettlementSwitchAbi, TransferStatus } from "../abi/SettlementSwitch";
+import { LayerZeroAdapterAbi } from "../abi/LayerZeroAdapter";
+import { getBridgeAdaptersForChain, getSettlementSwitchAddress } from "./settlementSwitch";
+
+// Types for the transfer tracker
+export type TransferStatusTransition = {
+  transferId: `0x${string}`;
+  status: TransferStatus;
+  previousStatus: TransferStatus | null;
+  chainId: number;
+  timestamp: number; // ms since epoch, when the transition was observed
+  txHash?: `0x${string}`;
+  reason?: string;
+};
+
+export type TrackTransferParams = {
+  transferId: `0x${string}`;
+  srcChainId: number;
+  dstChainId: number;
+  adapter?: `0x${string}`; // Set for transfers sent directly to an adapter
+  onStatusChange: (transition: TransferStatusTransition) => void;
+  onError?: (error: Error) => void;
+  pollIntervalMs?: number;
+};
+
+export type DestinationOutcome = {
+  status: TransferStatus.COMPLETED | TransferStatus.FAILED;
+  txHash: `0x${string}`;
+  amountOut?: bigint; // actualAmountOut reported by the destination adapter
+  reason?: string;
+};
+
+type ConfiguredChainId = (typeof config)["chains"][number]["id"];
+
+const DEFAULT_POLL_INTERVAL_MS = 15_000;
+// How far back to look for destination events that landed before tracking started
+const DESTINATION_LOOKBACK_BLOCKS = BigInt(5000);
+
+const TERMINAL_STATUSES = [TransferStatus.COMPLETED, TransferStatus.FAILED, TransferStatus.REFUNDED];
+
+export function isTerminalStatus(status: TransferStatus): boolean {
+  return TERMINAL_STATUSES.includes(status);
+}
+
+// Get a public client for any chain configured in app/config.ts
+export function getTrackerClient(chainId: number): PublicClient {
+  const client = getPublicClient(config, { chainId: chainId as ConfiguredChainId });
+  if (!client) {
+    throw new Error(`No RPC client configured for chain ${chainId}`);
+  }
+  return client as PublicClient;
+}
+
+// First block searched for destination events
+async function getLookbackStart(dstClient: PublicClient): Promise<bigint> {
+  const latestBlock = await dstClient.getBlockNumber();
+  return latestBlock > DESTINATION_LOOKBACK_BLOCKS ? latestBlock - DESTINATION_LOOKBACK_BLOCKS : BigInt(0);
+}
+
+// Completion or failure of a transfer on its destination chain, from recent adapter events; null while still in flight
+export async function readDestinationOutcome(
+  dstClient: PublicClient,
+  dstChainId: number,
+  transferId: `0x${string}`
+): Promise<DestinationOutcome | null> {
+  const dstAdapters = getBridgeAdaptersForChain(dstChainId);
+  const fromBlock = await getLookbackStart(dstClient);
+
+  const [completed, failed] = await Promise.all([
+    dstClient.getContractEvents({
+      address: dstAdapters,
+      abi: LayerZeroAdapterAbi,
+      eventName: "TransferCompleted",
+      args: { transferId },
+      fromBlock
+    }),
+    dstClient.getContractEvents({
+      address: dstAdapters,
+      abi: LayerZeroAdapterAbi,
+      eventName: "TransferFailed",
+      args: { transferId },
+      fromBlock
+    })
+  ]);
+
+  if (completed[0]) {
+    return {
+      status: TransferStatus.COMPLETED,
+      txHash: completed[0].transactionHash,
+      amountOut: completed[0].args.actualAmountOut
+    };
+  }
+  if (failed[0]) {
+    return { status: TransferStatus.FAILED, txHash: failed[0].transactionHash, reason: failed[0].args.reason };
+  }
+  return null;
+}
+
+// True when a transfer sent at sentAt (ms since epoch) is older than the destination lookback window,
+// so readDestinationOutcome finding nothing no longer means it is still in flight
+export async function predatesDestinationWindow(dstClient: PublicClient, sentAt: number): Promise<boolean> {
+  const fromBlock = await getLookbackStart(dstClient);
+  if (fromBlock === BigInt(0)) return false;
+  const { timestamp } = await dstClient.getBlock({ blockNumber: fromBlock });
+  return Number(timestamp) * 1000 > sentAt;
+}
+
+// Follow a transfer from TransferInitiated on the source chain to TransferCompleted/TransferFailed on the destination chain.
+// Returns a function that stops all watchers.
+export function trackTransfer(params: TrackTransferParams): () => void {
+  const {
+    transferId,
+    srcChainId,
+    dstChainId,
+    adapter,
+    onStatusChange,
+    onError,
+    pollIntervalMs = DEFAULT_POLL_INTERVAL_MS
+  } = params;
+
+  const unwatchers: (() => void)[] = [];
+  let currentStatus: TransferStatus | null = null;
+  let stopped = false;
+
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    unwatchers.forEach(unwatch => unwatch());
+  };
+
+  const reportError = (error: unknown) => {
+    if (stopped || !onError) return;
+    onError(error instanceof Error ? error : new Error(String(error)));
+  };
+
+  // Only move forward; terminal states end tracking
+  const transition = (
+    status: TransferStatus,
+    chainId: number,
+    details: { txHash?: `0x${string}` | null; reason?: string } = {}
+  ) => {
+    if (stopped) return;
+    if (currentStatus !== null && (status <= currentStatus || isTerminalStatus(currentStatus))) return;
+
+    const previousStatus = currentStatus;
+    currentStatus = status;
+    onStatusChange({
+      transferId,
+      status,
+      previousStatus,
+      chainId,
+      timestamp: Date.now(),
+      txHash: details.txHash ?? undefined,
+      reason: details.reason
+    });
+
+    if (isTerminalStatus(status)) {
+      stop();
+    }
+  };
+
+  // Chains without a client or deployments are reported through onError; the send itself already succeeded
+  let srcClient: PublicClient;
+  let dstClient: PublicClient;
+  let srcSwitch: `0x${string}`;
+  let dstSwitch: `0x${string}`;
+  let dstAdapters: `0x${string}`[];
+  try {
+    srcClient = getTrackerClient(srcChainId);
+    dstClient = getTrackerClient(dstChainId);
+    srcSwitch = getSettlementSwitchAddress(srcChainId);
+    dstSwitch = getSettlementSwitchAddress(dstChainId);
+    dstAdapters = getBridgeAdaptersForChain(dstChainId);
+  } catch (error) {
+    reportError(error);
+    return stop;
+  }
+
+  transition(TransferStatus.PENDING, srcChainId);
+
+  // Source chain: TransferInitiated confirms the transfer was accepted
+  unwatchers.push(
+    adapter
+      ? srcClient.watchContractEvent({
+          address: adapter,
+          abi: LayerZeroAdapterAbi,
+          eventName: "TransferInitiated",
+          args: { transferId },
+          pollingInterval: pollIntervalMs,
+          onLogs: logs => transition(TransferStatus.CONFIRMED, srcChainId, { txHash: logs[0]?.transactionHash }),
+          onError: reportError
+        })
+      : srcClient.watchContractEvent({
+          address: srcSwitch,
+          abi: SettlementSwitchAbi,
+          eventName: "TransferInitiated",
+          args: { transferId },
+          pollingInterval: pollIntervalMs,
+          onLogs: logs => transition(TransferStatus.CONFIRMED, srcChainId, { txHash: logs[0]?.transactionHash }),
+          onError: reportError
+        })
+  );
+
+  // Destination chain: adapter completion/failure events
+  unwatchers.push(
+    dstClient.watchContractEvent({
+      address: dstAdapters,
+      abi: LayerZeroAdapterAbi,
+      eventName: "TransferCompleted",
+      args: { transferId },
+      pollingInterval: pollIntervalMs,
+      onLogs: logs => transition(TransferStatus.COMPLETED, dstChainId, { txHash: logs[0]?.transactionHash }),
+      onError: reportError
+    }),
+    dstClient.watchContractEvent({
+      address: dstAdapters,
+      abi: LayerZeroAdapterAbi,
+      eventName: "TransferFailed",
+      args: { transferId },
+      pollingInterval: pollIntervalMs,
+      onLogs: logs =>
+        transition(TransferStatus.FAILED, dstChainId, {
+          txHash: logs[0]?.transactionHash,
+          reason: logs[0]?.args.reason
+        }),
+      onError: reportError
+    }),
+    // Settlement Switch reports success/failure through a single event
+    dstClient.watchContractEvent({
+      address: dstSwitch,
+      abi: SettlementSwitchAbi,
+      eventName: "TransferCompleted",
+      args: { transferId },
+      pollingInterval: pollIntervalMs,
+      onLogs: logs => {
+        const log = logs[0];
+        if (!log) return;
+        transition(log.args.successful ? TransferStatus.COMPLETED : TransferStatus.FAILED, dstChainId, {
+          txHash: log.transactionHash
+        });
+      },
+      onError: reportError
+    })
+  );
+
+  // Source chain state covers adapters that settle without a destination event
+  const readSourceState = async () => {
+    try {
+      const transfer = adapter
+        ? await srcClient.readContract({
+            address: adapter,
+            abi: LayerZeroAdapterAbi,
+            functionName: "getTransfer",
+            args: [transferId]
+          })
+        : await srcClient.readContract({
+            address: srcSwitch,
+            abi: SettlementSwitchAbi,
+            functionName: "getTransfer",
+            args: [transferId]
+          });
+
+      if (transfer.initiatedAt > BigInt(0)) {
+        transition(TransferStatus.CONFIRMED, srcChainId);
+      }
+      if (transfer.status !== TransferStatus.PENDING) {
+        transition(transfer.status as TransferStatus, srcChainId);
+      }
+    } catch (error) {
+      // The transfer may not be indexed yet; watchers will pick it up
+      if (process.env.NODE_ENV === "development") {
+        console.warn("Transfer tracker: source state not available yet", error);
+      }
+    }
+  };
+
+  // Catch up on destination events that landed before the watchers started
+  const readDestinationHistory = async () => {
+    try {
+      const outcome = await readDestinationOutcome(dstClient, dstChainId, transferId);
+      if (outcome) {
+        transition(outcome.status, dstChainId, { txHash: outcome.txHash, reason: outcome.reason });
+      }
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  readSourceState();
+  readDestinationHistory();
+
+  const interval = setInterval(readSourceState, pollIntervalMs);
+  unwatchers.push(() => clearInterval(interval));
+
+  return stop;
+}
@@ -0,0 +1,260 @@
+import { keccak256, parseEventLogs, stringToHex, zeroAddress, zeroHash } from "viem";
+import type { ContractFunctionArgs, PublicClient, WalletClient } from "viem";
+import { FeeManagerAbi } from "../abi/FeeManager";
+import { getChain, getContractAddress } from "../chains";
+import { BridgeError, decodeBridgeError } from "../errors";
+import { getNativeToken, getTokensForChain, type TokenInfo } from "../tokens";
+import { runSimulation, type Simulation } from "./simulation";
+import type { FeeType } from "./fees";
+
+// FeeManager treasury: collected fees, the revenue split and the role-gated calls that manage them.
+// Validation mirrors the contract's checks so invalid settings are caught before signing.
+
+export type TreasuryRole = "DEFAULT_ADMIN_ROLE" | "TREASURY_ROLE" | "FEE_MANAGER_ROLE";
+
+export type TreasuryRoles = Record<TreasuryRole, boolean>;
+
+export type TreasuryFunctionName =
+  | "distributeFees"
+  | "setRevenueDistribution"
+  | "updateFeeStructure"
+  | "updateDynamicFeeParams"
+  | "updateCongestionLevel"
+  | "updateTreasury";
+
+export type TreasuryAction = {
+  [F in TreasuryFunctionName]: {
+    functionName: F;
+    args: ContractFunctionArgs<typeof FeeManagerAbi, "nonpayable", F>;
+  };
+}[TreasuryFunctionName];
+
+export type FeeStructure = {
+  baseFeeRate: bigint; // Basis points
+  minFeeAmount: bigint; // Wei
+  maxFeeAmount: bigint; // Wei
+  congestionMultiplier: bigint; // Basis points added during congestion
+  isActive: boolean;
+};
+
+export type DynamicFeeParams = {
+  baseGasPrice: bigint;
+  congestionThreshold: bigint; // 0-100
+  maxMultiplier: bigint; // Basis points
+  adjustmentSpeed: bigint; // Basis points per block
+  lastUpdateBlock: bigint;
+};
+
+export type CollectedFee = {
+  token: TokenInfo;
+  amount: bigint;
+};
+
+export type RevenueShare = {
+  recipient: `0x${string}`;
+  percentageBps: number;
+};
+
+export type TreasuryState = {
+  treasury: `0x${string}`;
+  totalFeesCollected: bigint;
+  totalFeesDistributed: bigint;
+  collectedFees: CollectedFee[]; // Native token first, then the chain's ERC20s
+  distribution: RevenueShare[];
+  treasuryShareBps: number; // What distributeFees sends to the treasury after the configured recipients
+  feeStructures: Record<FeeType, FeeStructure>;
+  dynamicFeeParams: DynamicFeeParams; // For the current chain; all zero until configured
+};
+
+// Limits enforced by FeeManager.sol
+export const FEE_BASIS_POINTS = 10_000;
+export const MAX_FEE_RATE_BPS = 1_000;
+export const MAX_CONGESTION_MULTIPLIER_BPS = 5_000;
+export const MAX_CONGESTION_LEVEL = 100;
+
+export const FEE_TYPES: FeeType[] = ["protocol", "bridge", "gas"];
+
+// Role each action is gated on in FeeManager.sol
+export const TREASURY_ACTION_ROLES: Record<TreasuryFunctionName, TreasuryRole> = {
+  distributeFees: "TREASURY_ROLE",
+  setRevenueDistribution: "DEFAULT_ADMIN_ROLE",
+  updateFeeStructure: "FEE_MANAGER_ROLE",
+  updateDynamicFeeParams: "FEE_MANAGER_ROLE",
+  updateCongestionLevel: "FEE_MANAGER_ROLE",
+  updateTreasury: "DEFAULT_ADMIN_ROLE"
+};
+
+const ROLE_IDS: Record<TreasuryRole, `0x${string}`> = {
+  DEFAULT_ADMIN_ROLE: zeroHash,
+  TREASURY_ROLE: keccak256(stringToHex("TREASURY_ROLE")),
+  FEE_MANAGER_ROLE: keccak256(stringToHex("FEE_MANAGER_ROLE"))
+};
+
+function getFeeManagerAddress(chainId: number): `0x${string}` {
+  return getContractAddress("FeeManager", chainId);
+}
+
+// Same rule as _validateTotalDistribution: active shares, with recipient's replaced by percentageBps, may not exceed 100%
+export function validateRevenueDistribution(
+  distribution: RevenueShare[],
+  recipient: `0x${string}`,
+  percentageBps: number
+): string | null {
+  if (recipient.toLowerCase() === zeroAddress) return "The recipient cannot be the zero address.";
+  if (percentageBps > FEE_BASIS_POINTS) return "A single share cannot exceed 100%.";
+
+  const others = distribution
+    .filter(share => share.recipient.toLowerCase() !== recipient.toLowerCase())
+    .reduce((total, share) => total + share.percentageBps, 0);
+  if (others + percentageBps > FEE_BASIS_POINTS) {
+    return `Shares would total ${((others + percentageBps) / 100).toFixed(2)}%. The other recipients already take ${(others / 100).toFixed(2)}%.`;
+  }
+  return null;
+}
+
+// Same checks as updateFeeStructure
+export function validateFeeStructure(structure: FeeStructure): string | null {
+  if (structure.baseFeeRate > BigInt(MAX_FEE_RATE_BPS)) return `The base fee rate cannot exceed ${MAX_FEE_RATE_BPS} bps.`;
+  if (structure.congestionMultiplier > BigInt(MAX_CONGESTION_MULTIPLIER_BPS)) {
+    return `The congestion multiplier cannot exceed ${MAX_CONGESTION_MULTIPLIER_BPS} bps.`;
+  }
+  if (structure.minFeeAmount > structure.maxFeeAmount) return "The minimum fee cannot exceed the maximum fee.";
+  return null;
+}
+
+export function validateDynamicFeeParams(params: DynamicFeeParams): string | null {
+  if (params.maxMultiplier > BigInt(MAX_CONGESTION_MULTIPLIER_BPS)) {
+    return `The max multiplier cannot exceed ${MAX_CONGESTION_MULTIPLIER_BPS} bps.`;
+  }
+  // updateCongestionLevel divides by (100 - congestionThreshold), so 100 or more would make it revert
+  if (params.congestionThreshold >= BigInt(MAX_CONGESTION_LEVEL)) return "The congestion threshold must be below 100.";
+  return null;
+}
+
+export async function getTreasuryRoles(publicClient: PublicClient, chainId: number, account: `0x${string}`): Promise<TreasuryRoles> {
+  const feeManagerAddress = getFeeManagerAddress(chainId);
+  const roles = Object.keys(ROLE_IDS) as TreasuryRole[];
+
+  try {
+    const granted = await Promise.all(
+      roles.map(role =>
+        publicClient.readContract({
+          address: feeManagerAddress,
+          abi: FeeManagerAbi,
+          functionName: "hasRole",
+          args: [ROLE_IDS[role], account]
+        })
+      )
+    );
+    return Object.fromEntries(roles.map((role, index) => [role, granted[index]])) as TreasuryRoles;
+  } catch (error) {
+    throw decodeBridgeError(error, { fallbackPrefix: "Failed to read FeeManager roles" });
+  }
+}
+
+export async function getTreasuryState(publicClient: PublicClient, chainId: number): Promise<TreasuryState> {
+  const read = { address: getFeeManagerAddress(chainId), abi: FeeManagerAbi } as const;
+  const tokens = [getNativeToken(chainId), ...getTokensForChain(chainId).filter(token => !token.isNative)];
+
+  try {
+    const [treasury, totalFeesCollected, totalFeesDistributed, collected, [recipients, percentages], structures, dynamicParams] =
+      await Promise.all([
+        publicClient.readContract({ ...read, functionName: "treasury" }),
+        publicClient.readContract({ ...read, functionName: "totalFeesCollected" }),
+        publicClient.readContract({ ...read, functionName: "totalFeesDistributed" }),
+        Promise.all(tokens.map(token => publicClient.readContract({ ...read, functionName: "getCollectedFees", args: [token.address] }))),
+        publicClient.readContract({ ...read, functionName: "getRevenueDistribution" }),
+        Promise.all(FEE_TYPES.map(feeType => publicClient.readContract({ ...read, functionName: "feeStructures", args: [feeType] }))),
+        publicClient.readContract({ ...read, functionName: "chainFeeParams", args: [BigInt(chainId)] })
+      ]);
+
+    const distribution = recipients.map((recipient, index) => ({ recipient, percentageBps: Number(percentages[index]) }));
+    const distributedBps = distribution.reduce((total, share) => total + share.percentageBps, 0);
+    const [baseGasPrice, congestionThreshold, maxMultiplier, adjustmentSpeed, lastUpdateBlock] = dynamicParams;
+
+    return {
+      treasury,
+      totalFeesCollected,
+      totalFeesDistributed,
+      collectedFees: tokens.map((token, index) => ({ token, amount: collected[index] })),
+      distribution,
+      treasuryShareBps: Math.max(FEE_BASIS_POINTS - distributedBps, 0),
+      feeStructures: Object.fromEntries(
+        FEE_TYPES.map((feeType, index) => {
+          const [baseFeeRate, minFeeAmount, maxFeeAmount, congestionMultiplier, isActive] = structures[index];
+          return [feeType, { baseFeeRate, minFeeAmount, maxFeeAmount, congestionMultiplier, isActive }];
+        })
+      ) as Record<FeeType, FeeStructure>,
+      dynamicFeeParams: { baseGasPrice, congestionThreshold, maxMultiplier, adjustmentSpeed, lastUpdateBlock }
+    };
+  } catch (error) {
+    throw decodeBridgeError(error, { fallbackPrefix: `Failed to read FeeManager on ${getChain(chainId).name}` });
+  }
+}
+
+// Dry-run a treasury action from account so role and validation reverts surface before the wallet prompt
+export async function simulateTreasuryAction(
+  publicClient: PublicClient,
+  chainId: number,
+  account: `0x${string}`,
+  action: TreasuryAction
+): Promise<Simulation<null>> {
+  const feeManagerAddress = getFeeManagerAddress(chainId);
+
+  return runSimulation(
+    async () => {
+      await publicClient.simulateContract({
+        address: feeManagerAddress,
+        abi: FeeManagerAbi,
+        ...action,
+        account
+      } as Parameters<PublicClient["simulateContract"]>[0]);
+      return null;
+    },
+    { value: BigInt(0), requiresApproval: false }
+  );
+}
+
+// Send a treasury action and return the names of the FeeManager events it emitted
+export async function executeTreasuryAction(
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  chainId: number,
+  action: TreasuryAction
+): Promise<{ hash: `0x${string}`; events: string[] }> {
+  const feeManagerAddress = getFeeManagerAddress(chainId);
+  const account = walletClient.account?.address;
+  if (!account) {
+    throw new BridgeError("UNAUTHORIZED", "Connect a wallet to manage fees.");
+  }
+
+  try {
+    const hash = await walletClient.writeContract({
+      address: feeManagerAddress,
+      abi: FeeManagerAbi,
+      ...action,
+      account,
+      chain: null
+    } as Parameters<WalletClient["writeContract"]>[0]);
+
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== "success") {
+      throw new BridgeError("CONTRACT_REVERT", `Treasury transaction reverted. Hash: ${hash}`);
+    }
+
+    const events = parseEventLogs({
+      abi: FeeManagerAbi,
+      logs: receipt.logs.filter(log => log.address.toLowerCase() === feeManagerAddress.toLowerCase())
+    }).map(log => log.eventName);
+
+    if (process.env.NODE_ENV === "development") {
+      console.groupCollapsed(`executeTreasuryAction: ${action.functionName}`);
+      console.table({ hash, events: events.join(", ") });
+      console.groupEnd();
+    }
+
+    return { hash, events };
+  } catch (error) {
+    throw decodeBridgeError(error, { fallbackPrefix: `Failed to ${action.functionName}` });
+  }
+}
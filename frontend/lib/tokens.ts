@@ -0,0 +1,168 @@
+import { formatUnits, parseUnits } from "viem";
+import type { PublicClient } from "viem";
+import { ERC20Abi } from "./abi/erc20";
+import { CHAINS, CHAIN_KEYS } from "./chains";
+import { ValidationError } from "./errors";
+
+// Token registry built from the chain registry's token lists. Every service and component resolves tokens here
+// so amounts are always converted with the token's real decimals.
+
+export type TokenInfo = {
+  symbol: string;
+  name: string;
+  address: `0x${string}`;
+  decimals: number;
+  iconUrl: string;
+  chainId: number;
+  canonicalId: string; // Same value for the same asset on every chain
+  isNative: boolean;
+};
+
+type TokenMetadata = Pick<TokenInfo, "name" | "decimals" | "iconUrl" | "canonicalId">;
+
+export const NATIVE_TOKEN_ADDRESS = "0x0000000000000000000000000000000000000000" as const;
+
+const TOKEN_METADATA: Record<string, TokenMetadata> = {
+  ETH: {
+    name: "Ethereum",
+    decimals: 18,
+    iconUrl: "https://assets.coingecko.com/coins/images/279/small/ethereum.png",
+    canonicalId: "eth"
+  },
+  WETH: {
+    name: "Wrapped Ethereum",
+    decimals: 18,
+    iconUrl: "https://assets.coingecko.com/coins/images/2518/small/weth.png",
+    canonicalId: "weth"
+  },
+  USDC: {
+    name: "USD Coin",
+    decimals: 6,
+    iconUrl: "https://assets.coingecko.com/coins/images/6319/small/USD_Coin_icon.png",
+    canonicalId: "usdc"
+  },
+  USDT: {
+    name: "Tether USD",
+    decimals: 6,
+    iconUrl: "https://assets.coingecko.com/coins/images/325/small/Tether.png",
+    canonicalId: "usdt"
+  },
+  DAI: {
+    name: "Dai Stablecoin",
+    decimals: 18,
+    iconUrl: "https://assets.coingecko.com/coins/images/9956/small/Badge_Dai.png",
+    canonicalId: "dai"
+  }
+};
+
+function buildRegistry(): Map<number, TokenInfo[]> {
+  const registry = new Map<number, TokenInfo[]>();
+
+  for (const chainKey of CHAIN_KEYS) {
+    const chainId = CHAINS[chainKey].id;
+    const tokens: Record<string, string> = CHAINS[chainKey].tokens;
+
+    registry.set(
+      chainId,
+      Object.entries(tokens).map(([symbol, address]) => {
+        const metadata = TOKEN_METADATA[symbol] ?? {
+          name: symbol,
+          decimals: 18,
+          iconUrl: "https://via.placeholder.com/32x32/cccccc/666666?text=" + symbol.charAt(0),
+          canonicalId: symbol.toLowerCase()
+        };
+        return {
+          symbol,
+          address: address as `0x${string}`,
+          chainId,
+          isNative: address === NATIVE_TOKEN_ADDRESS,
+          ...metadata
+        };
+      })
+    );
+  }
+
+  return registry;
+}
+
+const TOKEN_REGISTRY = buildRegistry();
+
+// All tokens supported on a chain (empty for unknown chains)
+export function getTokensForChain(chainId: number): TokenInfo[] {
+  return TOKEN_REGISTRY.get(chainId) ?? [];
+}
+
+// Look up a token by symbol or address; undefined if not supported on the chain
+export function findToken(symbolOrAddress: string, chainId: number): TokenInfo | undefined {
+  const needle = symbolOrAddress.toLowerCase();
+  return getTokensForChain(chainId).find(
+    token => token.symbol.toLowerCase() === needle || token.address.toLowerCase() === needle
+  );
+}
+
+// Look up a token by symbol or address; throws if not supported on the chain
+export function getToken(symbolOrAddress: string, chainId: number): TokenInfo {
+  const token = findToken(symbolOrAddress, chainId);
+  if (!token) {
+    throw new ValidationError("UNSUPPORTED_TOKEN", `Token ${symbolOrAddress} is not supported on chain ${chainId}`);
+  }
+  return token;
+}
+
+// Resolve the same asset on another chain via its canonical ID
+export function getCounterpartToken(token: TokenInfo, chainId: number): TokenInfo | undefined {
+  return getTokensForChain(chainId).find(candidate => candidate.canonicalId === token.canonicalId);
+}
+
+export function getNativeToken(chainId: number): TokenInfo {
+  return getTokensForChain(chainId).find(token => token.isNative) ?? {
+    symbol: "ETH",
+    address: NATIVE_TOKEN_ADDRESS,
+    chainId,
+    isNative: true,
+    ...TOKEN_METADATA.ETH
+  };
+}
+
+// Exact decimal string -> base units
+export function parseTokenAmount(amount: string, token: Pick<TokenInfo, "decimals">): bigint {
+  const trimmed = amount.trim();
+  if (!trimmed || !/^\d*\.?\d*$/.test(trimmed) || trimmed === ".") {
+    throw new ValidationError("INVALID_INPUT", "Enter a valid amount greater than 0.");
+  }
+  return parseUnits(trimmed, token.decimals);
+}
+
+// Base units -> exact decimal string
+export function formatTokenAmount(amount: bigint, token: Pick<TokenInfo, "decimals">): string {
+  return formatUnits(amount, token.decimals);
+}
+
+const verifiedDecimals = new Map<string, number>();
+
+// Read decimals on-chain and return the token with the verified value.
+// A mismatch with the registry is logged and the on-chain value wins.
+export async function verifyTokenDecimals(publicClient: PublicClient, token: TokenInfo): Promise<TokenInfo> {
+  if (token.isNative) return token;
+
+  const key = `${token.chainId}:${token.address.toLowerCase()}`;
+  let decimals = verifiedDecimals.get(key);
+  if (decimals === undefined) {
+    decimals = Number(
+      await publicClient.readContract({
+        address: token.address,
+        abi: ERC20Abi,
+        functionName: "decimals"
+      })
+    );
+    verifiedDecimals.set(key, decimals);
+  }
+
+  if (decimals !== token.decimals) {
+    console.warn(
+      `Token registry decimals mismatch for ${token.symbol} on chain ${token.chainId}: registry ${token.decimals}, on-chain ${decimals}`
+    );
+    return { ...token, decimals };
+  }
+  return token;
+}